@@ -0,0 +1,31 @@
+module.exports = {
+  root: true,
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module'
+  },
+  plugins: ['@typescript-eslint'],
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended'
+  ],
+  env: {
+    node: true,
+    es2022: true
+  },
+  ignorePatterns: ['dist/', 'node_modules/', 'coverage/'],
+  rules: {
+    '@typescript-eslint/no-explicit-any': 'off',
+    '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }]
+  },
+  overrides: [
+    {
+      files: ['src/__tests__/**/*.ts'],
+      rules: {
+        '@typescript-eslint/ban-types': 'off',
+        'no-var': 'off'
+      }
+    }
+  ]
+};
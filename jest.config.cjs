@@ -0,0 +1,25 @@
+/**
+ * Jest configuration
+ *
+ * Sources are ESM with `.js` import specifiers; tests compile them to
+ * CommonJS with ts-jest, and chalk (ESM only) is compiled along with them.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
+  transform: {
+    '^.+\\.[tj]s$': ['ts-jest', {
+      tsconfig: {
+        module: 'commonjs',
+        allowJs: true,
+        isolatedModules: true
+      }
+    }]
+  },
+  transformIgnorePatterns: ['/node_modules/(?!chalk/)'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  }
+};
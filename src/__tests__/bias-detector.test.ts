@@ -0,0 +1,165 @@
+/**
+ * Tests for multi-bias detection
+ */
+
+import { BiasDetectorService } from '../services/bias-detector.service.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { EventBus, EventNames } from '../core/event-bus.js';
+import { PluginManager } from '../core/plugin-system.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput, BiasFinding } from '../types/interfaces.js';
+import { BIAS_FIXTURES } from './fixtures/bias-fixtures.js';
+
+function createInput(thoughtNumber: number, thought: string, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought,
+    thoughtNumber,
+    totalThoughts: 12,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+const REPEATED = 'The database index is the cause of the slow checkout queries';
+
+describe('BiasDetectorService', () => {
+  const detector = new BiasDetectorService(new SimilarityService());
+
+  it('should name the earlier thoughts and repeated terms behind confirmation bias', () => {
+    const history = [
+      createInput(1, 'Checkout latency rose after the release'),
+      createInput(2, REPEATED),
+      createInput(3, REPEATED)
+    ];
+
+    const [finding] = detector.detectBiases(createInput(4, REPEATED), history);
+
+    expect(finding.type).toBe('confirmation bias');
+    expect(finding.relatedThoughts).toEqual([2, 3]);
+    expect(finding.evidence).toEqual(expect.arrayContaining(['database', 'index', 'checkout']));
+    expect(finding.confidence).toBeGreaterThan(0.6);
+  });
+
+  it('should report every bias in a thought, most confident first', () => {
+    const input = createInput(11, 'Given the recent outage we just saw, the last deploy is the cause', {
+      totalThoughts: 40,
+      confidence: 0.99
+    });
+
+    const findings = detector.detectBiases(input, []);
+
+    expect(findings.map(finding => [finding.type, finding.confidence])).toEqual([
+      ['availability heuristic', 0.85],
+      ['overconfidence bias', 0.79]
+    ]);
+  });
+
+  it('should list the keywords that triggered each finding', () => {
+    const input = createInput(11, 'The last incident just happened and recent logs already say continue', {
+      totalThoughts: 12,
+      confidence: 0.95
+    });
+
+    const evidence = Object.fromEntries(detector.detectBiases(input, []).map(finding => [finding.type, finding.evidence]));
+
+    expect(Object.keys(evidence).sort()).toEqual(['availability heuristic', 'sunk cost fallacy']);
+    expect(evidence['availability heuristic']).toEqual(['recent', 'just', 'last']);
+    expect(evidence['sunk cost fallacy']).toEqual(['already', 'continue']);
+  });
+
+  it('should report the values behind overconfidence', () => {
+    const [finding] = detector.detectBiases(createInput(2, 'The fix works', { totalThoughts: 10, confidence: 0.95 }), []);
+
+    expect(finding).toEqual({
+      type: 'overconfidence bias',
+      confidence: 0.75,
+      evidence: ['confidence 0.95 at 20% progress'],
+      relatedThoughts: []
+    });
+  });
+
+  it('should match English keywords as whole words only', () => {
+    const input = createInput(11, 'Adjust the elastic pool and lastly review the justification', { totalThoughts: 12 });
+
+    expect(detector.detectBiases(input, [])).toEqual([]);
+  });
+});
+
+describe('Cue-based bias checks', () => {
+  const detector = new BiasDetectorService(new SimilarityService());
+  const detect = (thought: string) =>
+    detector.detectBiases(createInput(3, thought, { totalThoughts: 10 }), []).map(finding => finding.type);
+
+  it.each(BIAS_FIXTURES.map(fixture => [fixture.bias, fixture.language, fixture]))(
+    'should flag %s in %s text only when its cues hold',
+    (_bias, _language, fixture) => {
+      expect(detect(fixture.flagged)).toContain(fixture.bias);
+      expect(detect(fixture.clean)).not.toContain(fixture.bias);
+    }
+  );
+
+  it('should cite the cues and raise confidence with each one', () => {
+    const [one] = detector.detectBiases(createInput(3, 'Everyone uses Kafka here', { totalThoughts: 10 }), []);
+    const [two] = detector.detectBiases(createInput(3, 'Everyone uses Kafka and it is the industry standard', {
+      totalThoughts: 10
+    }), []);
+
+    expect(one).toMatchObject({ type: 'bandwagon/authority appeal', confidence: 0.5, evidence: ['everyone uses'] });
+    expect(two).toMatchObject({ confidence: 0.6, evidence: ['everyone uses', 'industry standard'] });
+  });
+});
+
+describe('Bias detection in the processor', () => {
+  it('should surface findings in the response, the event and the plugin hook', async () => {
+    const eventBus = new EventBus();
+    const logger = new Logger(true, false);
+    const pluginManager = new PluginManager(eventBus, logger);
+    const hookCalls: Array<[string, number, BiasFinding[]]> = [];
+    await pluginManager.register({
+      name: 'bias-audit',
+      version: '1.0.0',
+      onBiasDetected(biasType, input, biases) {
+        hookCalls.push([biasType, input.thoughtNumber, biases]);
+      }
+    });
+
+    const events: any[] = [];
+    eventBus.on(EventNames.BIAS_DETECTED, data => {
+      events.push(data);
+    });
+
+    const processor = new ProcessorFactory({
+      logger,
+      eventBus,
+      pluginManager,
+      enableQueryRewriting: false
+    }).createProcessor();
+
+    await processor.process(createInput(1, 'Checkout latency rose after the release'));
+    await processor.process(createInput(2, REPEATED));
+    await processor.process(createInput(3, REPEATED));
+    const response = await processor.process(createInput(4, REPEATED));
+
+    const biases = response.metadata?.biases;
+    expect(biases?.map(bias => bias.type)).toEqual(['confirmation bias']);
+    expect(biases?.[0].relatedThoughts).toEqual([2, 3]);
+    expect(response.metadata?.biasDetected).toBe('confirmation bias');
+    expect(events.map(event => [event.thoughtNumber, event.biases])).toEqual([[4, biases]]);
+    expect(hookCalls).toEqual([['confirmation bias', 4, biases]]);
+  });
+
+  it('should keep findings out of the stored input', async () => {
+    const processor = new ProcessorFactory({ logger: new Logger(true, false), enableQueryRewriting: false }).createProcessor();
+
+    const response = await processor.process(createInput(1, 'Everyone uses Kafka and it is the industry standard', {
+      totalThoughts: 10
+    }));
+    const record = processor.getThought(1);
+
+    expect(response.metadata?.biasDetected).toBe('bandwagon/authority appeal');
+    expect(record?.metadata?.biasDetected).toBe('bandwagon/authority appeal');
+    expect(record?.input.biasDetected).toBeUndefined();
+    expect(response.metadata?.autoLabel).toContain('[편향 감지]');
+  });
+});
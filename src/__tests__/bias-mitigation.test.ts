@@ -0,0 +1,152 @@
+/**
+ * Tests for bias mitigation tracking
+ */
+
+import { BiasMitigationTracker } from '../core/bias-mitigation.js';
+import { BiasDetectorService } from '../services/bias-detector.service.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { Formatter } from '../core/formatter.js';
+import { EventBus, EventNames } from '../core/event-bus.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput, BiasFinding } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, thought: string, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought,
+    thoughtNumber,
+    totalThoughts: 10,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+const DICHOTOMY: BiasFinding = {
+  type: 'false dichotomy',
+  confidence: 0.5,
+  evidence: ['either we rewrite the service in go or'],
+  relatedThoughts: []
+};
+
+describe('BiasMitigationTracker', () => {
+  const detector = new BiasDetectorService(new SimilarityService());
+
+  it('should open a mitigation with a concrete prompt', () => {
+    const tracker = new BiasMitigationTracker(detector);
+
+    const report = tracker.update(createInput(2, 'Either we rewrite the service in Go or we accept the outages'), [DICHOTOMY]);
+
+    expect(report.prompt).toBe(
+      '두 가지 외의 선택지나 절충안이 있는지 찾아보세요. (false dichotomy: either we rewrite the service in go or)'
+    );
+    expect(report.open).toEqual([
+      { bias: 'false dichotomy', detectedIn: 2, prompt: report.prompt, status: 'open' }
+    ]);
+  });
+
+  it('should close a mitigation once a later thought states counter-cues', () => {
+    const tracker = new BiasMitigationTracker(detector);
+    tracker.update(createInput(2, 'Either we rewrite it in Go or we accept the outages'), [DICHOTOMY]);
+
+    const report = tracker.update(createInput(3, 'Alternatively we could profile and fix the hot path'), []);
+
+    expect(report.open).toEqual([]);
+    expect(report.corrected).toEqual([expect.objectContaining({
+      bias: 'false dichotomy',
+      detectedIn: 2,
+      status: 'addressed',
+      addressedBy: 3,
+      evidence: ['alternatively']
+    })]);
+  });
+
+  it('should count a revision of the biased thought as addressing it', () => {
+    const tracker = new BiasMitigationTracker(detector);
+    tracker.update(createInput(2, 'Either we rewrite it in Go or we accept the outages'), [DICHOTOMY]);
+
+    const report = tracker.update(
+      createInput(3, 'We compare a rewrite, a partial port and tuning', { isRevision: true, revisesThought: 2 }),
+      []
+    );
+
+    expect(report.corrected[0].evidence).toEqual(['revises thought 2']);
+  });
+
+  it('should keep a mitigation open while later thoughts repeat the bias', () => {
+    const tracker = new BiasMitigationTracker(detector);
+    tracker.update(createInput(2, 'Either we rewrite it in Go or we accept the outages'), [DICHOTOMY]);
+
+    const report = tracker.update(createInput(3, 'On the other hand, it is still Go or nothing'), [DICHOTOMY]);
+
+    expect(report.corrected).toEqual([]);
+    expect(report.open.map(mitigation => mitigation.detectedIn)).toEqual([2]);
+  });
+
+  it('should drop a mitigation no thought addressed within the window', () => {
+    const tracker = new BiasMitigationTracker(detector, 2);
+    tracker.update(createInput(2, 'Either we rewrite it in Go or we accept the outages'), [DICHOTOMY]);
+
+    expect(tracker.update(createInput(3, 'Go has better tooling'), []).unaddressed).toEqual([]);
+    const report = tracker.update(createInput(4, 'The team knows Go well'), []);
+
+    expect(report.open).toEqual([]);
+    expect(report.unaddressed).toEqual([expect.objectContaining({ bias: 'false dichotomy', status: 'unaddressed' })]);
+  });
+});
+
+describe('Bias mitigation in the processor', () => {
+  it('should suggest the mitigation and emit an event once it is addressed', async () => {
+    const eventBus = new EventBus();
+    const corrected: any[] = [];
+    eventBus.on(EventNames.BIAS_CORRECTED, data => {
+      corrected.push(data);
+    });
+
+    const processor = new ProcessorFactory({
+      logger: new Logger(true, false),
+      eventBus,
+      enableQueryRewriting: false
+    }).createProcessor();
+
+    await processor.process(createInput(1, 'Checkout errors doubled after the release'));
+    const biased = await processor.process(createInput(2, 'Either we roll back the release or we accept the errors'));
+    const followUp = await processor.process(createInput(3, 'Alternatively we could disable the new payment flag'));
+
+    expect(biased.metadata?.suggestedNextStep).toContain('두 가지 외의 선택지나 절충안이 있는지 찾아보세요.');
+    expect(biased.metadata?.biasMitigation?.open.map(mitigation => mitigation.bias)).toEqual(['false dichotomy']);
+    expect(followUp.metadata?.biasMitigation?.corrected.map(mitigation => mitigation.addressedBy)).toEqual([3]);
+    expect(corrected).toEqual([expect.objectContaining({
+      biasType: 'false dichotomy',
+      thoughtNumber: 3,
+      detectedIn: 2,
+      evidence: ['alternatively']
+    })]);
+  });
+});
+
+describe('Bias mitigation formatting', () => {
+  it('should list addressed biases in the formatted response', () => {
+    const output = Formatter.formatResponse({
+      thought: 'Alternatively we could disable the flag',
+      thoughtNumber: 3,
+      totalThoughts: 10,
+      nextThoughtNeeded: true,
+      metadata: {
+        biasMitigation: {
+          open: [],
+          corrected: [{
+            bias: 'false dichotomy',
+            detectedIn: 2,
+            prompt: '두 가지 외의 선택지나 절충안이 있는지 찾아보세요.',
+            status: 'addressed',
+            addressedBy: 3,
+            evidence: ['alternatively']
+          }],
+          unaddressed: []
+        }
+      }
+    });
+
+    expect(output).toContain('✅ Bias Addressed: false dichotomy from thought 2 - alternatively');
+  });
+});
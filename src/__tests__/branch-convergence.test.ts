@@ -0,0 +1,142 @@
+/**
+ * Tests for comparing and converging parallel branches
+ */
+
+import { BranchConvergenceService, BranchThoughts } from '../services/branch-convergence.service.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { EventBus, EventNames, BranchesConvergedEvent } from '../core/event-bus.js';
+import { Logger } from '../utils/logger.js';
+import { ThoughtRecord, UltraThinkInput } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, thought: string, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return { thought, thoughtNumber, totalThoughts: 6, nextThoughtNeeded: true, ...overrides };
+}
+
+/**
+ * A branch whose thoughts were recorded with the given quality and bias
+ */
+function branch(
+  branchId: string,
+  thoughts: Array<{ text: string; quality?: number; confidence?: number; bias?: string }>
+): BranchThoughts {
+  const inputs = thoughts.map((thought, index) =>
+    createInput(index + 2, thought.text, { branchId, branchFromThought: 1, confidence: thought.confidence })
+  );
+  const records: ThoughtRecord[] = inputs.map((input, index) => ({
+    thoughtNumber: input.thoughtNumber,
+    input,
+    metadata: {
+      qualityScore: thoughts[index].quality !== undefined ? { overall: thoughts[index].quality } : undefined,
+      biasDetected: thoughts[index].bias
+    } as ThoughtRecord['metadata']
+  }));
+  return { branchId, thoughts: inputs, records };
+}
+
+describe('BranchConvergenceService', () => {
+  const service = new BranchConvergenceService(new SimilarityService());
+
+  it('should score branches by quality, confidence and bias rate', () => {
+    const report = service.compare([
+      branch('postgres', [
+        { text: 'Postgres handles the import load', quality: 0.8, confidence: 0.9 },
+        { text: 'Postgres replication covers failover', quality: 0.6, confidence: 0.7 }
+      ]),
+      branch('dynamo', [
+        { text: 'Dynamo scales the import load', quality: 0.9, bias: 'overconfidence bias' }
+      ])
+    ]);
+
+    expect(report.branches).toEqual([
+      expect.objectContaining({ branchId: 'postgres', thoughtCount: 2, averageQuality: 0.7, averageConfidence: 0.8, biases: [], score: 0.78 }),
+      expect.objectContaining({ branchId: 'dynamo', thoughtCount: 1, averageQuality: 0.9, averageConfidence: null, biases: ['overconfidence bias'], score: 0.64 })
+    ]);
+    expect(report.recommendedBranch).toBe('postgres');
+    expect(report.rationale).toBe('score 0.78, average quality 0.70, no biases detected');
+  });
+
+  it('should split key terms into shared and unique ones', () => {
+    const report = service.compare([
+      branch('postgres', [{ text: 'Postgres handles the import load' }, { text: 'Postgres replication covers failover' }]),
+      branch('dynamo', [{ text: 'Dynamo scales the import load' }])
+    ]);
+
+    expect(report.sharedTerms).toEqual(['the', 'import', 'load']);
+    expect(report.branches[0].uniqueTerms).toEqual(['postgres', 'handles', 'replication', 'covers', 'failover']);
+    expect(report.branches[1].uniqueTerms).toEqual(['dynamo', 'scales']);
+    expect(report.similarities).toEqual([{ a: 'postgres', b: 'dynamo', score: expect.any(Number) }]);
+    expect(report.similarities[0].score).toBeGreaterThan(0);
+    expect(report.similarities[0].score).toBeLessThan(1);
+  });
+
+  it('should break ties by thought count, then by the given order', () => {
+    const one = branch('one', [{ text: 'Use a queue' }]);
+    const two = branch('two', [{ text: 'Use a cron job' }, { text: 'Run it nightly' }]);
+    const other = branch('other', [{ text: 'Use a stream' }]);
+
+    expect(service.compare([one, two]).recommendedBranch).toBe('two');
+    expect(service.compare([one, other]).recommendedBranch).toBe('one');
+    expect(service.compare([other, one]).recommendedBranch).toBe('other');
+  });
+
+  it('should describe the report as a thought', () => {
+    const report = service.compare([
+      branch('postgres', [{ text: 'Postgres handles the import load', quality: 0.8 }]),
+      branch('dynamo', [{ text: 'Dynamo scales the import load', bias: 'anchoring bias' }])
+    ]);
+
+    const lines = service.describe(report).split('\n');
+
+    expect(lines[0]).toMatch(/^Converging branches 'postgres', 'dynamo': continue with 'postgres' \(score/);
+    expect(lines[2]).toBe('- dynamo: 1 thought(s), quality n/a, biases: anchoring bias, unique terms: dynamo, scales');
+    expect(lines[3]).toBe('Shared terms: the, import, load');
+  });
+});
+
+describe('Converging branches in the processor', () => {
+  const createProcessor = (eventBus: EventBus) => new ProcessorFactory({
+    logger: new Logger(true, false),
+    eventBus,
+    enableQueryRewriting: false
+  }).createProcessor('convergence');
+
+  it('should record the comparison as a new thought and announce it', async () => {
+    const eventBus = new EventBus();
+    const events: BranchesConvergedEvent[] = [];
+    eventBus.on<BranchesConvergedEvent>(EventNames.BRANCHES_CONVERGED, event => {
+      events.push(event);
+    });
+    const processor = createProcessor(eventBus);
+
+    await processor.process(createInput(1, 'Pick a store for the import job'));
+    await processor.process(createInput(2, 'Postgres handles the import load with a bulk COPY', { branchId: 'postgres', branchFromThought: 1 }));
+    await processor.process(createInput(3, 'Dynamo scales writes for the import load', { branchId: 'dynamo', branchFromThought: 1 }));
+
+    const { thought, recommendedBranch, branches } = await processor.convergeBranches(['postgres', 'dynamo', 'postgres']);
+
+    expect(branches.map(summary => summary.branchId)).toEqual(['postgres', 'dynamo']);
+    expect(thought.thoughtNumber).toBe(4);
+    expect(thought.input).toMatchObject({
+      totalThoughts: 6,
+      nextThoughtNeeded: true,
+      metadata: { convergedBranches: ['postgres', 'dynamo'], recommendedBranch }
+    });
+    expect(thought.input.thought).toContain(`continue with '${recommendedBranch}'`);
+    expect(processor.getThoughts()).toHaveLength(4);
+    expect(events).toEqual([
+      { sessionId: 'convergence', branchIds: ['postgres', 'dynamo'], recommendedBranch, thoughtNumber: 4 }
+    ]);
+  });
+
+  it('should refuse fewer than two distinct or unknown branches', async () => {
+    const processor = createProcessor(new EventBus());
+    await processor.process(createInput(1, 'Pick a store', { branchId: 'postgres', branchFromThought: 1 }));
+
+    await expect(processor.convergeBranches(['postgres', 'postgres']))
+      .rejects.toThrow('At least two distinct branches are required to converge');
+    await expect(processor.convergeBranches(['postgres', 'redis', 'mongo']))
+      .rejects.toThrow('Unknown branch: redis, mongo');
+    expect(processor.getThoughts()).toHaveLength(1);
+  });
+});
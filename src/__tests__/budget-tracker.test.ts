@@ -0,0 +1,194 @@
+/**
+ * Tests for per-session budget accounting
+ */
+
+import { BudgetTracker, BUDGET_LIMITS } from '../core/budget-tracker.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { EventBus, EventNames } from '../core/event-bus.js';
+import { InMemorySessionStore } from '../core/session-store.js';
+import { ResourceError } from '../core/errors.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought: `Budget step ${thoughtNumber}`,
+    thoughtNumber,
+    totalThoughts: 20,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+describe('BudgetTracker', () => {
+  it('should count thoughts, characters and distinct branches', () => {
+    const tracker = new BudgetTracker();
+
+    tracker.record(createInput(1), 'balanced');
+    tracker.record(createInput(2, { branchId: 'a', branchFromThought: 1 }), 'balanced');
+    const update = tracker.record(createInput(3, { branchId: 'a', branchFromThought: 1 }), 'balanced');
+
+    expect(update.usage).toMatchObject({ thoughts: 3, characters: 39, branches: 1 });
+    expect(update.limits).toEqual(BUDGET_LIMITS.balanced);
+  });
+
+  it('should warn once per threshold and dimension', () => {
+    const tracker = new BudgetTracker('warn', [0.5, 0.8]);
+    const warnings = [];
+
+    for (let i = 1; i <= 9; i++) {
+      warnings.push(...tracker.record(createInput(i), 'fast').warnings);
+    }
+
+    expect(warnings.map(warning => [warning.dimension, warning.threshold, warning.used])).toEqual([
+      ['thoughts', 0.5, 5],
+      ['thoughts', 0.8, 8]
+    ]);
+  });
+
+  it('should report but allow overruns when only warning', () => {
+    const tracker = new BudgetTracker('warn');
+
+    for (let i = 1; i <= 10; i++) {
+      tracker.record(createInput(i), 'fast');
+    }
+    expect(() => tracker.check(createInput(11), 'fast')).not.toThrow();
+
+    const update = tracker.record(createInput(11), 'fast');
+    expect(update.exceeded).toEqual(['thoughts']);
+    expect(update.newlyExceeded).toEqual(['thoughts']);
+    expect(tracker.record(createInput(12), 'fast').newlyExceeded).toEqual([]);
+  });
+
+  it('should refuse thoughts past a limit in strict mode', () => {
+    const tracker = new BudgetTracker('strict');
+    tracker.record(createInput(1, { branchId: 'a', branchFromThought: 1 }), 'fast');
+    tracker.record(createInput(2, { branchId: 'b', branchFromThought: 1 }), 'fast');
+
+    expect(() => tracker.check(createInput(3, { branchId: 'b', branchFromThought: 1 }), 'fast')).not.toThrow();
+    expect(() => tracker.check(createInput(3, { branchId: 'c', branchFromThought: 1 }), 'fast'))
+      .toThrow("Budget exceeded in 'fast' mode: branches limit of 2 reached");
+  });
+
+  it('should measure wall-clock time from the first thought', () => {
+    let now = 1000;
+    const tracker = new BudgetTracker('strict', [0.5], () => now);
+
+    tracker.record(createInput(1), 'fast');
+    now += 3 * 60 * 1000;
+    expect(tracker.record(createInput(2), 'fast').warnings.map(warning => warning.dimension)).toEqual(['time']);
+
+    now += 3 * 60 * 1000;
+    expect(() => tracker.check(createInput(3), 'fast')).toThrow('time limit of 5 min reached');
+  });
+
+  it('should measure time from the timestamp of a replayed first thought', () => {
+    let now = 1000;
+    const tracker = new BudgetTracker('strict', [], () => now);
+
+    tracker.record(createInput(1), 'fast', now - 4 * 60 * 1000);
+    tracker.record(createInput(2), 'fast', now - 60 * 1000);
+    expect(tracker.getUsage().elapsedMs).toBe(4 * 60 * 1000);
+
+    now += 2 * 60 * 1000;
+    expect(() => tracker.check(createInput(3), 'fast')).toThrow('time limit of 5 min reached');
+  });
+
+  it('should hold the session to the strictest mode requested', () => {
+    const tracker = new BudgetTracker('strict');
+    for (let i = 1; i <= 10; i++) {
+      tracker.record(createInput(i), 'fast');
+    }
+
+    expect(() => tracker.check(createInput(11), 'exhaustive')).toThrow("Budget exceeded in 'fast' mode");
+    expect(tracker.record(createInput(11), 'exhaustive').limits).toEqual(BUDGET_LIMITS.fast);
+  });
+
+  it('should tighten the limits when a stricter mode is requested', () => {
+    const tracker = new BudgetTracker();
+    tracker.record(createInput(1), 'thorough');
+
+    expect(tracker.record(createInput(2), 'fast').mode).toBe('fast');
+    expect(tracker.record(createInput(3), 'thorough').mode).toBe('fast');
+  });
+
+  it('should keep the session mode for thoughts that name none', () => {
+    const tracker = new BudgetTracker('strict');
+    tracker.record(createInput(1), 'exhaustive');
+    for (let i = 2; i <= 25; i++) {
+      tracker.record(createInput(i));
+    }
+
+    expect(() => tracker.check(createInput(26))).not.toThrow();
+    expect(tracker.record(createInput(26)).mode).toBe('exhaustive');
+  });
+
+  it('should fall back to the default mode until the session has one', () => {
+    expect(new BudgetTracker().record(createInput(1)).mode).toBe('balanced');
+    expect(new BudgetTracker('warn', [], Date.now, 'thorough').record(createInput(1)).mode).toBe('thorough');
+  });
+
+  it('should start over after a reset', () => {
+    const tracker = new BudgetTracker('strict');
+    for (let i = 1; i <= 10; i++) {
+      tracker.record(createInput(i), 'fast');
+    }
+
+    tracker.reset();
+
+    expect(tracker.getUsage()).toEqual({ thoughts: 0, characters: 0, branches: 0, elapsedMs: 0 });
+    expect(() => tracker.check(createInput(1), 'fast')).not.toThrow();
+    expect(tracker.record(createInput(1), 'exhaustive').mode).toBe('exhaustive');
+  });
+});
+
+describe('Budget enforcement in the processor', () => {
+  it('should emit budget events and refuse the thought past the limit', async () => {
+    const eventBus = new EventBus();
+    const events: string[] = [];
+    eventBus.on('budget.*', (_data, event) => {
+      events.push(event);
+    });
+
+    const processor = new ProcessorFactory({
+      logger: new Logger(true, false),
+      eventBus,
+      enableQueryRewriting: false,
+      budgetEnforcement: 'strict'
+    }).createProcessor('budget');
+
+    for (let i = 1; i <= 10; i++) {
+      await processor.process(createInput(i, { budgetMode: 'fast' }));
+    }
+
+    await expect(processor.process(createInput(11, { budgetMode: 'fast' }))).rejects.toThrow(ResourceError);
+    expect(processor.getThoughts()).toHaveLength(10);
+    expect(events).toEqual([
+      EventNames.BUDGET_WARNING,
+      EventNames.BUDGET_WARNING,
+      EventNames.BUDGET_EXCEEDED
+    ]);
+  });
+
+  it('should keep the session mode across thoughts without one and after a restore', async () => {
+    const factory = new ProcessorFactory({
+      logger: new Logger(true, false),
+      eventBus: new EventBus(),
+      enableQueryRewriting: false,
+      budgetEnforcement: 'strict',
+      sessionStore: new InMemorySessionStore()
+    });
+    const processor = factory.createProcessor('exhaustive');
+
+    await processor.process(createInput(1, { totalThoughts: 40, budgetMode: 'exhaustive' }));
+    for (let i = 2; i <= 25; i++) {
+      await processor.process(createInput(i, { totalThoughts: 40 }));
+    }
+    const response = await processor.process(createInput(26, { totalThoughts: 40 }));
+    expect(response.metadata?.budgetStatus?.limits).toEqual(BUDGET_LIMITS.exhaustive);
+
+    const restored = factory.createProcessor('exhaustive');
+    await restored.restore();
+    await expect(restored.process(createInput(27, { totalThoughts: 40 }))).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Tests for the shared cache and its per-service namespaces
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheManager, EvictionPolicyType } from '../core/cache-manager.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { EventBus } from '../core/event-bus.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { QueryRewritingService } from '../services/query-rewriting.service.js';
+import { callSessionTool } from '../mcp/tools.js';
+import { McpHandlerContext } from '../mcp/context.js';
+import { SessionManager } from '../core/session-manager.js';
+import { InMemorySessionStore } from '../core/session-store.js';
+import { Logger } from '../utils/logger.js';
+
+describe('CacheManager namespaces', () => {
+  let cache: CacheManager;
+
+  beforeEach(() => {
+    cache = new CacheManager({ enableDiskCache: false });
+  });
+
+  afterEach(() => {
+    cache.destroy();
+  });
+
+  it('should keep namespaces apart and count their hits separately', async () => {
+    const scores = cache.namespace<number>('similarity');
+    const rewrites = cache.namespace<string>('rewrite');
+
+    await scores.set('a', 0.5);
+    await rewrites.set('a', 'rewritten');
+
+    expect(await scores.get('a')).toBe(0.5);
+    expect(scores.getSync('a')).toBe(0.5);
+    expect(await rewrites.get('a')).toBe('rewritten');
+    expect(await rewrites.get('b')).toBeNull();
+
+    expect(scores.getStats()).toEqual({ hits: 2, misses: 0, hitRate: 1, entries: 1 });
+    expect(rewrites.getStats()).toEqual({ hits: 1, misses: 1, hitRate: 0.5, entries: 1 });
+
+    await scores.clear();
+    expect(scores.getSync('a')).toBeNull();
+    expect(await rewrites.get('a')).toBe('rewritten');
+  });
+
+  it('should reject namespace names that would clash with key prefixes', () => {
+    expect(() => cache.namespace('a:b')).toThrow();
+  });
+
+  it('should share similarity scores across sessions', () => {
+    const first = new SimilarityService(100, undefined, {}, undefined, cache.namespace('similarity'));
+    const second = new SimilarityService(100, undefined, {}, undefined, cache.namespace('similarity'));
+
+    const score = first.calculateSimilarity('the checkout queries are slow', 'checkout queries run slowly');
+    expect(second.calculateSimilarity('the checkout queries are slow', 'checkout queries run slowly')).toBe(score);
+    expect(cache.getStats().namespaces.similarity).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+  });
+
+  it('should serve repeated query rewrites from the cache', async () => {
+    const rewriter = new QueryRewritingService(undefined, undefined, cache.namespace('rewrite'));
+    const query = "  what's wrong with it?  ";
+
+    const first = await rewriter.rewriteQuery(query);
+    first.improvements.push('changed by the caller');
+    const second = await rewriter.rewriteQuery(query.trim());
+
+    expect(second.rewrittenQuery).toBe(first.rewrittenQuery);
+    expect(second.improvements).not.toContain('changed by the caller');
+    expect(cache.getStats().namespaces.rewrite).toMatchObject({ hits: 1, misses: 1 });
+  });
+});
+
+describe('Shared cache through the processor factory', () => {
+  it('should fill one namespace per service and report them through cache_stats', async () => {
+    const logger = new Logger(true, false);
+    const eventBus = new EventBus();
+    const cache = new CacheManager({ enableDiskCache: false }, logger, eventBus);
+    const sessionStore = new InMemorySessionStore();
+    const factory = new ProcessorFactory({ logger, eventBus, cache, sessionStore });
+    const context: McpHandlerContext = {
+      sessionManager: new SessionManager(factory),
+      sessionStore,
+      eventBus,
+      logger,
+      cache
+    };
+
+    for (const sessionId of ['a', 'b']) {
+      const processor = await context.sessionManager.acquire(sessionId);
+      await processor.process({ thought: 'Check the database index first', thoughtNumber: 1, totalThoughts: 3, nextThoughtNeeded: true });
+      await processor.process({ thought: 'The database index is missing', thoughtNumber: 2, totalThoughts: 3, nextThoughtNeeded: true });
+    }
+
+    const result = await callSessionTool('cache_stats', {}, context);
+    const stats = result.structuredContent as any;
+
+    expect(result.isError).toBeUndefined();
+    expect(Object.keys(stats.namespaces).sort()).toEqual(['quality', 'rewrite', 'similarity']);
+    expect(stats.namespaces.rewrite).toMatchObject({ hits: 2, misses: 2, entries: 2 });
+    expect(stats.namespaces.quality.hits).toBeGreaterThan(0);
+    expect(stats.bytes.l1).toBeGreaterThan(0);
+    expect(stats.sizes.l1).toBe(stats.namespaces.quality.entries + stats.namespaces.rewrite.entries + stats.namespaces.similarity.entries);
+
+    const filtered = await callSessionTool('cache_stats', { namespace: 'rewrite' }, context);
+    expect(Object.keys((filtered.structuredContent as any).namespaces)).toEqual(['rewrite']);
+
+    await context.sessionManager.shutdown();
+    cache.destroy();
+  });
+});
+
+/**
+ * L1 hit rate of a 4-entry L1 replaying a trace; misses are filled like a service would
+ */
+async function hitRate(evictionPolicy: EvictionPolicyType, trace: string[]): Promise<number> {
+  const cache = new CacheManager<string>({ maxL1Size: 4, enableDiskCache: false, maintenanceInterval: 0, evictionPolicy });
+  for (const key of trace) {
+    if (await cache.get(key) === null) {
+      await cache.set(key, key);
+    }
+  }
+
+  const { l1Hits } = cache.getStats();
+  cache.destroy();
+  return l1Hits / trace.length;
+}
+
+function repeat(times: number, keys: string[]): string[] {
+  return Array.from({ length: times }, () => keys).flat();
+}
+
+describe('Eviction policies', () => {
+  it('should keep the first entries of a loop larger than L1 with FILO', async () => {
+    const loop = repeat(20, ['a', 'b', 'c', 'd', 'e']);
+
+    expect(await hitRate(EvictionPolicyType.LRU, loop)).toBe(0);
+    expect(await hitRate(EvictionPolicyType.FIFO, loop)).toBe(0);
+    expect(await hitRate(EvictionPolicyType.FILO, loop)).toBeGreaterThan(0.7);
+  });
+
+  it('should evict a hot entry by age with FIFO but not with LRU', async () => {
+    const hotWithStream = Array.from({ length: 60 }, (_, i) => ['hot', `stream-${i}`]).flat();
+
+    const lru = await hitRate(EvictionPolicyType.LRU, hotWithStream);
+    expect(lru).toBeCloseTo(59 / 120);
+    expect(await hitRate(EvictionPolicyType.FIFO, hotWithStream)).toBeLessThan(lru - 0.1);
+  });
+
+  it('should adapt to both scans and working-set shifts with ADAPTIVE', async () => {
+    // Two frequent keys, then one-off keys that would push them out of an LRU
+    const scan = [
+      ...repeat(10, ['h1', 'h2']),
+      ...Array.from({ length: 30 }, (_, i) => [`s${i}a`, `s${i}b`, `s${i}c`, i % 2 ? 'h2' : 'h1']).flat()
+    ];
+    // A frequent working set, then a new one that an LFU never lets in
+    const shift = [...repeat(20, ['a', 'b', 'c']), ...repeat(30, ['d', 'e', 'f'])];
+
+    const [lru, lfu, adaptive] = await Promise.all(
+      [EvictionPolicyType.LRU, EvictionPolicyType.LFU, EvictionPolicyType.ADAPTIVE].map(async policy =>
+        [await hitRate(policy, scan), await hitRate(policy, shift)]
+      )
+    );
+
+    expect(lfu[0]).toBeGreaterThan(lru[0] + 0.2);
+    expect(lru[1]).toBeGreaterThan(lfu[1] + 0.2);
+    expect(adaptive[0]).toBeGreaterThanOrEqual(lfu[0]);
+    expect(adaptive[1]).toBeGreaterThan(lru[1] - 0.05);
+  });
+
+  it('should order L2 by when entries entered it, with a policy of its own', async () => {
+    for (const evictionPolicy of [EvictionPolicyType.LRU, EvictionPolicyType.FIFO]) {
+      const cache = new CacheManager<string>({
+        maxL1Size: 1,
+        maxL1Bytes: 100,
+        maxL2Size: 2,
+        enableDiskCache: false,
+        enableCompression: false,
+        maintenanceInterval: 0,
+        evictionPolicy
+      });
+
+      await cache.set('a', 'a');
+      await cache.set('b', 'b');            // Demotes 'a' to L2
+      await cache.set('big', 'x'.repeat(200)); // Too large for L1, so straight to L2
+      await cache.set('c', 'c');            // Demotes 'b'; L2 is over its size
+
+      expect(await cache.get('a')).toBeNull();
+      expect(await cache.get('big')).not.toBeNull();
+      cache.destroy();
+    }
+  });
+
+  it('should evict the keys of the least predicted pattern first', async () => {
+    const cache = new CacheManager<string>({
+      maxL1Size: 4,
+      enableDiskCache: false,
+      maintenanceInterval: 0,
+      predictiveCaching: true
+    });
+
+    await cache.set('hot:1', 'h');
+    await cache.set('hot:2', 'h');
+    await cache.set('cold:1', 'c');
+    await cache.set('hot:3', 'h');
+    await cache.set('hot:4', 'h');          // L1 is over its size
+
+    // LRU alone would have demoted 'hot:1'
+    await cache.get('hot:1');
+    expect(cache.getStats().l1Hits).toBe(1);
+    await cache.get('cold:1');
+    expect(cache.getStats().l2Hits).toBe(1);
+    cache.destroy();
+  });
+});
+
+describe('Byte budgets', () => {
+  const text = (length: number, seed: string) => seed.padEnd(length, '.');
+
+  it('should demote by bytes and report the bytes of each level', async () => {
+    const cache = new CacheManager<string>({ maxL1Bytes: 1000, enableDiskCache: false, enableCompression: false, maintenanceInterval: 0 });
+    for (let i = 0; i < 5; i++) {
+      await cache.set(`k${i}`, text(298, `v${i}`));      // 300 bytes serialized
+    }
+
+    expect(cache.getSizes()).toEqual({ l1: 3, l2: 2, l3: 0 });
+    expect(cache.getStats().bytes).toEqual({ l1: 900, l2: 600, l3: 0 });
+
+    await cache.delete('k0');
+    await cache.delete('k4');
+    expect(cache.getStats().bytes).toEqual({ l1: 600, l2: 300, l3: 0 });
+    cache.destroy();
+  });
+
+  it('should keep entries too large for L1 compressed in L2', async () => {
+    const cache = new CacheManager<string>({ maxL1Bytes: 1000, enableDiskCache: false, maintenanceInterval: 0 });
+    const large = 'the same thought, over and over. '.repeat(200);
+
+    await cache.set('large', large);
+    expect(await cache.get('large')).toBe(large);
+    expect(await cache.get('large')).toBe(large);
+
+    const { bytes, l2Hits } = cache.getStats();
+    expect(cache.getSizes()).toEqual({ l1: 0, l2: 1, l3: 0 });
+    expect(l2Hits).toBe(2);
+    expect(bytes.l2).toBeGreaterThan(0);
+    expect(bytes.l2).toBeLessThan(Buffer.byteLength(JSON.stringify(large)) / 10);
+    cache.destroy();
+  });
+
+  it('should hold L1 and L2 under the memory ceiling', async () => {
+    const cache = new CacheManager<string>({ maxMemoryBytes: 2000, enableDiskCache: false, enableCompression: false, maintenanceInterval: 0 });
+    for (let i = 0; i < 20; i++) {
+      await cache.set(`k${i}`, text(498, `v${i}`));      // 500 bytes serialized
+    }
+
+    const { bytes, evictions } = cache.getStats();
+    expect(bytes.l1 + bytes.l2).toBeLessThanOrEqual(2000);
+    expect(evictions).toBeGreaterThanOrEqual(16);
+    expect(await cache.get('k19')).toBe(text(498, 'v19'));
+    expect(await cache.get('k0')).toBeNull();
+    cache.destroy();
+  });
+
+  it('should count disk bytes as written and drop the oldest files over the L3 budget', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-l3-'));
+    const cache = new CacheManager<string>({
+      maxL1Size: 1,
+      maxL2Size: 1,
+      maxL3Bytes: 1500,
+      l3Directory: directory,
+      enableCompression: false,
+      maintenanceInterval: 0
+    });
+
+    for (let i = 0; i < 6; i++) {
+      await cache.set(`k${i}`, text(298, `v${i}`));
+    }
+
+    const files = await fs.readdir(directory);
+    const written = await Promise.all(files.map(file => fs.stat(path.join(directory, file)).then(stat => stat.size)));
+    const { bytes } = cache.getStats();
+
+    expect(cache.getSizes().l3).toBe(files.length);
+    expect(files.length).toBeLessThan(4);
+    expect(bytes.l3).toBe(written.reduce((sum, size) => sum + size, 0));
+    expect(bytes.l3).toBeLessThanOrEqual(1500);
+
+    await cache.clear();
+    cache.destroy();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
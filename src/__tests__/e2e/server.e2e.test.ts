@@ -199,8 +199,8 @@ describe('Server E2E Tests', () => {
       };
       
       const r1 = await resourcePool.acquire();
-      const r2 = await resourcePool.acquire();
-      const r3 = await resourcePool.acquire();
+      await resourcePool.acquire();
+      await resourcePool.acquire();
       
       expect(resourcePool.resources).toHaveLength(3);
       
@@ -0,0 +1,152 @@
+/**
+ * Tests for embedding providers and embedding-based similarity
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { HashedEmbeddingProvider, OpenAIEmbeddingProvider } from '../services/embedding-providers.js';
+import { EmbeddingSimilarityService } from '../services/embedding-similarity.service.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { BiasDetectorService } from '../services/bias-detector.service.js';
+import { CacheManager, CacheNamespace } from '../core/cache-manager.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { EventBus } from '../core/event-bus.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+import type { IEmbeddingProvider } from '../core/interfaces/index.js';
+
+const PARAPHRASES = [
+  'The database index is the cause of the slow checkout queries',
+  'Slow checkout lookups come from a missing DB index',
+  'Checkout drags because the orders table lacks indexing',
+  'Without an index on orders, the checkout path crawls'
+];
+
+function createInput(thoughtNumber: number, thought: string): UltraThinkInput {
+  return { thought, thoughtNumber, totalThoughts: 8, nextThoughtNeeded: true };
+}
+
+/**
+ * OpenAI-compatible endpoint that embeds every text about an index on one axis
+ */
+function startEndpoint(status: number = 200): Promise<{ server: http.Server; baseUrl: string; requests: any[] }> {
+  const requests: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      requests.push({ url: req.url, authorization: req.headers.authorization, ...request });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        data: request.input.map((text: string, index: number) => ({
+          index,
+          embedding: /index/i.test(text) ? [1, 0.05, 0] : [0, 0.1, 1]
+        }))
+      }));
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1`, requests });
+  }));
+}
+
+describe('HashedEmbeddingProvider', () => {
+  it('should embed equal texts equally, offline', async () => {
+    const [first, again, other] = await new HashedEmbeddingProvider().embed([PARAPHRASES[0], PARAPHRASES[0], 'Team lunch on Friday']);
+
+    expect(first).toHaveLength(256);
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect(await new HashedEmbeddingProvider().embed([PARAPHRASES[0]])).toEqual([first]);
+  });
+});
+
+describe('EmbeddingSimilarityService', () => {
+  let endpoint: Awaited<ReturnType<typeof startEndpoint>>;
+  let manager: CacheManager;
+  let cache: CacheNamespace<number[]>;
+
+  beforeEach(() => {
+    manager = new CacheManager({ enableDiskCache: false });
+    cache = manager.namespace('embeddings');
+  });
+
+  afterEach(async () => {
+    manager.destroy();
+    await new Promise(resolve => endpoint?.server.close(resolve));
+  });
+
+  it('should catch paraphrased repetition that keyword overlap misses', async () => {
+    endpoint = await startEndpoint();
+    const provider = new OpenAIEmbeddingProvider({ baseUrl: endpoint.baseUrl, model: 'local-embed', apiKey: 'secret' });
+    const similarity = new EmbeddingSimilarityService(new SimilarityService(), provider, cache);
+    const history = PARAPHRASES.slice(0, 3).map((thought, i) => createInput(i + 1, thought));
+    const input = createInput(4, PARAPHRASES[3]);
+
+    await similarity.prepare(PARAPHRASES);
+
+    expect(endpoint.requests[0]).toMatchObject({ url: '/v1/embeddings', authorization: 'Bearer secret', model: 'local-embed' });
+    expect(new SimilarityService().calculateSimilarity(PARAPHRASES[0], PARAPHRASES[3])).toBeLessThan(0.5);
+    expect(similarity.calculateSimilarity(PARAPHRASES[0], PARAPHRASES[3])).toBeGreaterThan(0.9);
+
+    const lexical = new BiasDetectorService(new SimilarityService()).detectBiases(input, history);
+    const semantic = new BiasDetectorService(similarity).detectBiases(input, history);
+    expect(lexical.map(bias => bias.type)).not.toContain('confirmation bias');
+    expect(semantic.find(bias => bias.type === 'confirmation bias')?.relatedThoughts).toEqual([1, 2, 3]);
+  });
+
+  it('should share cached vectors across sessions', async () => {
+    endpoint = await startEndpoint();
+    const provider = new OpenAIEmbeddingProvider({ baseUrl: endpoint.baseUrl, model: 'local-embed' });
+
+    await new EmbeddingSimilarityService(new SimilarityService(), provider, cache).prepare(PARAPHRASES);
+    const second = new EmbeddingSimilarityService(new SimilarityService(), provider, cache);
+    await second.prepare(PARAPHRASES);
+
+    expect(endpoint.requests).toHaveLength(1);
+    expect(second.calculateSimilarity(PARAPHRASES[1], PARAPHRASES[2])).toBeGreaterThan(0.9);
+  });
+
+  it('should fall back to the lexical cosine when the endpoint fails', async () => {
+    endpoint = await startEndpoint(500);
+    const lexical = new SimilarityService();
+    const similarity = new EmbeddingSimilarityService(
+      lexical,
+      new OpenAIEmbeddingProvider({ baseUrl: endpoint.baseUrl, model: 'local-embed' }),
+      cache
+    );
+
+    await similarity.prepare(PARAPHRASES);
+
+    expect(similarity.calculateSimilarity(PARAPHRASES[0], PARAPHRASES[1]))
+      .toBe(lexical.calculateSimilarity(PARAPHRASES[0], PARAPHRASES[1]));
+    expect(similarity.findSimilar(PARAPHRASES[0], PARAPHRASES, 1)).toEqual([{ index: 0, score: 1 }]);
+  });
+});
+
+describe('Embeddings through the processor factory', () => {
+  it('should embed each thought before it is compared', async () => {
+    const embedded: string[] = [];
+    const provider: IEmbeddingProvider = {
+      name: 'recording',
+      embed: async texts => {
+        embedded.push(...texts);
+        return new HashedEmbeddingProvider().embed(texts);
+      }
+    };
+    const processor = new ProcessorFactory({
+      logger: new Logger(true, false),
+      eventBus: new EventBus(),
+      enableQueryRewriting: false,
+      embeddingProvider: provider
+    }).createProcessor();
+
+    await processor.process(createInput(1, PARAPHRASES[0]));
+    await processor.process(createInput(2, PARAPHRASES[1]));
+
+    expect(embedded).toEqual([PARAPHRASES[0], PARAPHRASES[1]]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for the WebSocket event stream
+ */
+
+import { WebSocket } from 'ws';
+import { EventStreamServer } from '../core/event-stream.js';
+import { EventBus, EventNames } from '../core/event-bus.js';
+import { CacheManager } from '../core/cache-manager.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { Logger } from '../utils/logger.js';
+
+const TOKEN = 'stream-secret';
+
+interface Connection {
+  socket: WebSocket;
+  messages: any[];
+  next(count: number): Promise<any[]>;
+}
+
+/**
+ * Open a stream connection that records every message it receives
+ */
+function connect(port: number, query: string, headers: Record<string, string> = {}): Promise<Connection> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/events?${query}`, { headers });
+    const messages: any[] = [];
+    const waiters: Array<() => void> = [];
+
+    socket.on('message', raw => {
+      messages.push(JSON.parse(raw.toString()));
+      waiters.splice(0).forEach(wake => wake());
+    });
+    socket.once('error', reject);
+    socket.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    socket.once('open', () => resolve({
+      socket,
+      messages,
+      // Resolves once at least `count` messages have arrived
+      next: (count: number) => new Promise(done => {
+        const check = () => (messages.length >= count ? done(messages.slice(0, count)) : waiters.push(check));
+        check();
+      })
+    }));
+  });
+}
+
+describe('EventStreamServer', () => {
+  let eventBus: EventBus;
+  let server: EventStreamServer;
+  let port: number;
+  let connections: Connection[];
+
+  beforeEach(async () => {
+    eventBus = new EventBus();
+    server = new EventStreamServer(eventBus, { port: 0, token: TOKEN, replaySize: 10 });
+    port = await server.start();
+    connections = [];
+  });
+
+  afterEach(async () => {
+    connections.forEach(connection => connection.socket.close());
+    await server.stop();
+  });
+
+  async function open(query: string, headers?: Record<string, string>): Promise<Connection> {
+    const connection = await connect(port, query, headers);
+    connections.push(connection);
+    return connection;
+  }
+
+  describe('Authentication', () => {
+    it('should reject connections without the token', async () => {
+      await expect(connect(port, '')).rejects.toThrow('HTTP 401');
+      await expect(connect(port, 'token=wrong')).rejects.toThrow('HTTP 401');
+      expect(server.clientCount).toBe(0);
+    });
+
+    it('should accept the token as a bearer header or query parameter', async () => {
+      const byHeader = await open('', { Authorization: `Bearer ${TOKEN}` });
+      const byQuery = await open(`token=${TOKEN}`);
+
+      const [headerAck] = await byHeader.next(1);
+      const [queryAck] = await byQuery.next(1);
+
+      expect(headerAck.type).toBe('subscribed');
+      expect(queryAck.type).toBe('subscribed');
+      expect(server.clientCount).toBe(2);
+    });
+  });
+
+  describe('Filtering', () => {
+    it('should only send events matching the session and event patterns', async () => {
+      const client = await open(`token=${TOKEN}&sessionId=a&events=thought.*`);
+      await client.next(1);
+
+      eventBus.emit(EventNames.THOUGHT_PROCESSED, { sessionId: 'b', thoughtNumber: 1 });
+      eventBus.emit(EventNames.BIAS_DETECTED, { sessionId: 'a', thoughtNumber: 1 });
+      eventBus.emit(EventNames.THOUGHT_PROCESSED, { sessionId: 'a', thoughtNumber: 2 });
+
+      const [, event] = await client.next(2);
+      expect(event).toMatchObject({ type: 'event', event: 'thought.processed', sessionId: 'a' });
+      expect(event.data.thoughtNumber).toBe(2);
+      expect(client.messages).toHaveLength(2);
+    });
+
+    it('should apply a filter sent after connecting', async () => {
+      const client = await open(`token=${TOKEN}`);
+      await client.next(1);
+
+      client.socket.send(JSON.stringify({ type: 'subscribe', events: ['bias.*'] }));
+      const [, ack] = await client.next(2);
+      expect(ack).toMatchObject({ type: 'subscribed', events: ['bias.*'] });
+
+      eventBus.emit(EventNames.THOUGHT_PROCESSED, { sessionId: 'a' });
+      eventBus.emit(EventNames.BIAS_DETECTED, { sessionId: 'a' });
+
+      const [, , event] = await client.next(3);
+      expect(event.event).toBe('bias.detected');
+    });
+
+    it('should never stream cache events', async () => {
+      const cache = new CacheManager<string>({ enableDiskCache: false, maintenanceInterval: 0 }, undefined, eventBus);
+      const cacheEvents: string[] = [];
+      eventBus.on('cache.*', (_data, event) => {
+        cacheEvents.push(event);
+      });
+      const client = await open(`token=${TOKEN}`);
+      await client.next(1);
+
+      await cache.get('a');
+      await cache.set('a', 'value');
+      await cache.get('a');
+      await cache.delete('a');
+      await cache.clear();
+      eventBus.emit(EventNames.THOUGHT_PROCESSED, { sessionId: 'a' });
+
+      const [, event] = await client.next(2);
+      expect(cacheEvents).toEqual([
+        EventNames.CACHE_MISS,
+        EventNames.CACHE_HIT,
+        EventNames.CACHE_DELETED,
+        EventNames.CACHE_CLEARED
+      ]);
+      expect(event.event).toBe('thought.processed');
+      cache.destroy();
+    });
+  });
+
+  describe('Replay', () => {
+    it('should replay the most recent matching events to late subscribers', async () => {
+      for (let i = 1; i <= 4; i++) {
+        eventBus.emit(EventNames.THOUGHT_PROCESSED, { sessionId: 'a', thoughtNumber: i });
+        eventBus.emit(EventNames.BIAS_DETECTED, { sessionId: 'a', thoughtNumber: i });
+      }
+
+      const client = await open(`token=${TOKEN}&events=thought.*&replay=2`);
+      const [ack, first, second] = await client.next(3);
+
+      expect(ack).toMatchObject({ type: 'subscribed', replayed: 2 });
+      expect([first.data.thoughtNumber, second.data.thoughtNumber]).toEqual([3, 4]);
+      expect(first.replay).toBe(true);
+    });
+
+    it('should keep reasoning events in the buffer despite cache traffic', async () => {
+      const cache = new CacheManager<string>({ enableDiskCache: false, maintenanceInterval: 0 }, undefined, eventBus);
+      eventBus.emit(EventNames.THOUGHT_PROCESSED, { sessionId: 'a', thoughtNumber: 1 });
+      for (let i = 0; i < 50; i++) {
+        await cache.get(`k${i}`);
+      }
+      cache.destroy();
+
+      const client = await open(`token=${TOKEN}&events=thought.*&replay=5`);
+      const [ack, replayed] = await client.next(2);
+
+      expect(ack.replayed).toBe(1);
+      expect(replayed.data.thoughtNumber).toBe(1);
+    });
+  });
+
+  describe('With the shared cache', () => {
+    it('should stream the reasoning of sessions but none of their cache lookups', async () => {
+      const logger = new Logger(true, false);
+      const cache = new CacheManager({ enableDiskCache: false, maintenanceInterval: 0 }, logger, eventBus);
+      const processor = new ProcessorFactory({ logger, eventBus, cache }).createProcessor('shared');
+      let cacheEvents = 0;
+      eventBus.on('cache.*', () => {
+        cacheEvents++;
+      });
+      const client = await open(`token=${TOKEN}`);
+      await client.next(1);
+
+      for (let i = 1; i <= 2; i++) {
+        await processor.process({ thought: 'Check the database index first', thoughtNumber: i, totalThoughts: 3, nextThoughtNeeded: true });
+      }
+      // Messages arrive in order, so the marker comes after everything the thoughts emitted
+      eventBus.emit(EventNames.THOUGHT_PROCESSED, { sessionId: 'shared', marker: true });
+      await new Promise<void>(resolve => {
+        const wait = () => (client.messages.some(message => message.data?.marker) ? resolve() : setTimeout(wait, 10));
+        wait();
+      });
+
+      const events = client.messages.filter(message => message.type === 'event');
+      expect(cacheEvents).toBeGreaterThan(0);
+      expect(events.filter(message => message.event === EventNames.THOUGHT_PROCESSED).map(message => message.data.input?.thoughtNumber))
+        .toEqual([1, 2, undefined]);
+      expect(events.filter(message => message.event.startsWith('cache'))).toEqual([]);
+      cache.destroy();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Thought fixtures for the cue-based bias checks
+ *
+ * Each fixture is a thought that should be flagged for `bias`, and a close
+ * variant that should not, because it lacks a cue or states a counter-cue.
+ */
+
+import type { BiasType } from '../../services/bias-detector.service.js';
+
+export interface BiasFixture {
+  bias: BiasType;
+  language: 'en' | 'ko' | 'ja';
+  flagged: string;
+  clean: string;
+}
+
+export const BIAS_FIXTURES: BiasFixture[] = [
+  {
+    bias: 'framing effect',
+    language: 'en',
+    flagged: 'The new flow has 90% success on checkout, so we should ship it',
+    clean: 'The new flow has 90% success and 10% failure on checkout, so we should weigh both'
+  },
+  {
+    bias: 'framing effect',
+    language: 'ko',
+    flagged: '이 방식은 20% 손실이 생기니 포기해야 합니다',
+    clean: '이 방식은 20% 손실이 생기지만 80% 성공도 있으니 함께 봐야 합니다'
+  },
+  {
+    bias: 'framing effect',
+    language: 'ja',
+    flagged: '新しいフローは決済で90%の成功なので採用すべきです',
+    clean: '新しいフローは90%の成功と10%の失敗があるので両方を比べましょう'
+  },
+  {
+    bias: 'bandwagon/authority appeal',
+    language: 'en',
+    flagged: 'Kubernetes is the industry standard and everyone uses it, so we adopt it',
+    clean: 'Kubernetes cut our deploy time in half in the benchmark we measured, so we adopt it'
+  },
+  {
+    bias: 'bandwagon/authority appeal',
+    language: 'ko',
+    flagged: '다들 GraphQL을 쓰니까 우리도 도입합시다',
+    clean: 'GraphQL 도입 후 요청 수가 줄어든 데이터가 있으니 검토합시다'
+  },
+  {
+    bias: 'bandwagon/authority appeal',
+    language: 'ja',
+    flagged: 'みんなが使っているのでKubernetesを採用します',
+    clean: 'ベンチマークでデプロイ時間が半分になったのでKubernetesを採用します'
+  },
+  {
+    bias: 'hindsight bias',
+    language: 'en',
+    flagged: 'The outage was predictable; we should have known the cache would fail',
+    clean: 'The outage came from a cache failure that our alerts did not cover'
+  },
+  {
+    bias: 'hindsight bias',
+    language: 'ko',
+    flagged: '이번 장애는 처음부터 알 수 있었던 뻔했던 문제입니다',
+    clean: '이번 장애는 캐시 만료 설정에서 발생했습니다'
+  },
+  {
+    bias: 'hindsight bias',
+    language: 'ja',
+    flagged: '今回の障害は最初から分かっていた当然の結果です',
+    clean: '今回の障害はキャッシュの期限設定が原因でした'
+  },
+  {
+    bias: 'base-rate neglect',
+    language: 'en',
+    flagged: 'The fraud model is 95% accurate and this account was flagged, so it is likely fraud',
+    clean: 'The fraud model is 95% accurate and this account was flagged, but the base rate of fraud is 1 out of 1000'
+  },
+  {
+    bias: 'base-rate neglect',
+    language: 'ko',
+    flagged: '탐지기 정확도가 95%이고 이 사용자가 걸렸으니 사기일 확률이 높습니다',
+    clean: '탐지기 정확도가 95%지만 사기 기저율이 0.1%라 사기일 확률을 다시 계산해야 합니다'
+  },
+  {
+    bias: 'base-rate neglect',
+    language: 'ja',
+    flagged: '検知器の精度は95%で、このユーザーが引っかかったので詐欺の確率が高いです',
+    clean: '検知器の精度は95%ですが、詐欺の基準率は0.1%なので確率を計算し直します'
+  },
+  {
+    bias: 'false dichotomy',
+    language: 'en',
+    flagged: 'Either we rewrite the service in Go or we accept the outages',
+    clean: 'Either we rewrite the service in Go or we accept the outages; alternatively we could fix the hot path'
+  },
+  {
+    bias: 'false dichotomy',
+    language: 'ko',
+    flagged: '마이크로서비스로 전환하는 것 밖에 없습니다',
+    clean: '마이크로서비스 전환과 모듈화라는 대안을 비교해봅시다'
+  },
+  {
+    bias: 'false dichotomy',
+    language: 'ja',
+    flagged: 'マイクロサービスに移行するしかない',
+    clean: 'マイクロサービス移行とモジュール化という代替案を比較しましょう'
+  },
+  {
+    bias: 'planning fallacy',
+    language: 'en',
+    flagged: 'The migration is straightforward, we can finish it in two days',
+    clean: 'The migration should take two days; last time it took twice as long, so we add a buffer'
+  },
+  {
+    bias: 'planning fallacy',
+    language: 'ko',
+    flagged: '이 기능은 간단해서 하루면 끝납니다',
+    clean: '이 기능은 하루면 끝날 것 같지만 지난번 일정을 보면 버퍼를 두어야 합니다'
+  },
+  {
+    bias: 'planning fallacy',
+    language: 'ja',
+    flagged: 'この機能は簡単なので一日で終わります',
+    clean: 'この機能は一日で終わりそうですが、前回の実績を見るとバッファを取るべきです'
+  },
+  {
+    bias: 'survivorship bias',
+    language: 'en',
+    flagged: 'Successful startups all used a monorepo, so we should too',
+    clean: 'Successful startups used a monorepo, but many that failed used one as well'
+  },
+  {
+    bias: 'survivorship bias',
+    language: 'ko',
+    flagged: '성공한 스타트업은 모두 주 4일 근무를 했으니 그래서 우리도 도입합시다',
+    clean: '주 4일 근무를 한 성공한 스타트업과 실패한 스타트업을 함께 비교해봅시다'
+  },
+  {
+    bias: 'survivorship bias',
+    language: 'ja',
+    flagged: '成功したスタートアップは週4日勤務だったので、だからうちも導入しましょう',
+    clean: '週4日勤務の成功したスタートアップと失敗したスタートアップを比較しましょう'
+  }
+];
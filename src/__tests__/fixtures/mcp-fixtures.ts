@@ -0,0 +1,57 @@
+/**
+ * MCP server fixtures
+ *
+ * Handlers are registered on a real Server and exercised through an SDK
+ * Client over an in-memory transport pair.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ProcessorFactory } from '../../core/processor-factory.js';
+import { SessionManager } from '../../core/session-manager.js';
+import { InMemorySessionStore } from '../../core/session-store.js';
+import { EventBus } from '../../core/event-bus.js';
+import { Logger } from '../../utils/logger.js';
+import type { McpHandlerContext } from '../../mcp/context.js';
+
+/**
+ * Handler context backed by in-memory sessions
+ */
+export function createMcpContext(): McpHandlerContext {
+  const logger = new Logger(true, false);
+  const eventBus = new EventBus();
+  const sessionStore = new InMemorySessionStore();
+  const factory = new ProcessorFactory({ logger, eventBus, sessionStore, enableQueryRewriting: false });
+
+  return {
+    sessionManager: new SessionManager(factory, {}, eventBus, logger),
+    sessionStore,
+    eventBus,
+    logger
+  };
+}
+
+/**
+ * Connect a client to a server set up by `register`
+ */
+export async function connectClient(register: (server: Server) => void): Promise<{ client: Client; server: Server }> {
+  const server = new Server(
+    { name: 'test-server', version: '0.0.0' },
+    {
+      capabilities: {
+        tools: {},
+        prompts: {},
+        completions: {},
+        resources: { subscribe: true, listChanged: true }
+      }
+    }
+  );
+  register(server);
+
+  const client = new Client({ name: 'test-client', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { client, server };
+}
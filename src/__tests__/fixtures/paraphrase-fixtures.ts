@@ -0,0 +1,136 @@
+/**
+ * Labelled thought pairs for the similarity engines
+ *
+ * A paraphrase restates the same claim in other words or word forms; a
+ * non-paraphrase is on the same topic but makes a different claim.
+ */
+
+export interface ParaphraseFixture {
+  language: 'en' | 'ko';
+  first: string;
+  second: string;
+  paraphrase: boolean;
+}
+
+export const PARAPHRASE_FIXTURES: ParaphraseFixture[] = [
+  {
+    language: 'en',
+    first: 'The database index is missing, so the checkout queries are slow',
+    second: 'Checkout queries run slowly because the database lacks an index',
+    paraphrase: true
+  },
+  {
+    language: 'en',
+    first: 'We should cache the session tokens in Redis',
+    second: 'Caching session tokens in Redis is what we should do',
+    paraphrase: true
+  },
+  {
+    language: 'en',
+    first: 'The deployment failed because the config file was invalid',
+    second: 'An invalid config file caused the failed deployment',
+    paraphrase: true
+  },
+  {
+    language: 'en',
+    first: 'Memory usage grows with every request until the worker crashes',
+    second: 'The worker crashes after memory grows on each request',
+    paraphrase: true
+  },
+  {
+    language: 'en',
+    first: 'Retries with backoff would smooth out the upstream timeouts',
+    second: 'Backoff retries should smooth the timeouts from upstream',
+    paraphrase: true
+  },
+  {
+    language: 'en',
+    first: 'The database index is missing, so the checkout queries are slow',
+    second: 'We should add monitoring to the payment service dashboard',
+    paraphrase: false
+  },
+  {
+    language: 'en',
+    first: 'We should cache the session tokens in Redis',
+    second: 'The login page renders slowly on older phones',
+    paraphrase: false
+  },
+  {
+    language: 'en',
+    first: 'The deployment failed because the config file was invalid',
+    second: 'Users reported that search results look outdated',
+    paraphrase: false
+  },
+  {
+    language: 'en',
+    first: 'Memory usage grows with every request until the worker crashes',
+    second: 'The team agreed to move the release to next Tuesday',
+    paraphrase: false
+  },
+  {
+    language: 'en',
+    first: 'Retries with backoff would smooth out the upstream timeouts',
+    second: 'Our logging format makes errors hard to search',
+    paraphrase: false
+  },
+  {
+    language: 'ko',
+    first: '서버가 느려서 응답 시간이 늘었다',
+    second: '서버를 확인하니 느려서 응답 시간이 늘었다',
+    paraphrase: true
+  },
+  {
+    language: 'ko',
+    first: '데이터베이스 인덱스가 없어서 결제 쿼리가 느리다',
+    second: '결제 쿼리는 데이터베이스에 인덱스를 추가하지 않아서 느리다',
+    paraphrase: true
+  },
+  {
+    language: 'ko',
+    first: '캐시를 도입하면 지연 시간이 줄어든다',
+    second: '지연 시간은 캐시로 줄일 수 있다',
+    paraphrase: true
+  },
+  {
+    language: 'ko',
+    first: '배포가 설정 파일 오류로 실패했다',
+    second: '설정 파일의 오류 때문에 배포는 실패했다',
+    paraphrase: true
+  },
+  {
+    language: 'ko',
+    first: '메모리 사용량이 요청마다 늘어서 워커가 죽는다',
+    second: '워커는 요청에서 메모리가 늘어 결국 죽는다',
+    paraphrase: true
+  },
+  {
+    language: 'ko',
+    first: '서버가 느려서 응답 시간이 늘었다',
+    second: '다음 주에 팀 회의를 열기로 했다',
+    paraphrase: false
+  },
+  {
+    language: 'ko',
+    first: '데이터베이스 인덱스가 없어서 결제 쿼리가 느리다',
+    second: '로그인 화면의 디자인을 바꾸자',
+    paraphrase: false
+  },
+  {
+    language: 'ko',
+    first: '캐시를 도입하면 지연 시간이 줄어든다',
+    second: '사용자들이 검색 결과가 오래되었다고 말했다',
+    paraphrase: false
+  },
+  {
+    language: 'ko',
+    first: '배포가 설정 파일 오류로 실패했다',
+    second: '모니터링 대시보드에 알림을 추가해야 한다',
+    paraphrase: false
+  },
+  {
+    language: 'ko',
+    first: '메모리 사용량이 요청마다 늘어서 워커가 죽는다',
+    second: '릴리스 일정을 화요일로 미뤘다',
+    paraphrase: false
+  }
+];
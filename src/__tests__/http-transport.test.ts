@@ -0,0 +1,122 @@
+/**
+ * Tests for the Streamable HTTP and legacy SSE transports
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { startHttpTransport, HttpTransportHandle } from '../mcp/http-transport.js';
+import { registerPromptHandlers } from '../mcp/prompts.js';
+import { Logger } from '../utils/logger.js';
+
+function createServer(): Server {
+  const server = new Server({ name: 'test-server', version: '0.0.0' }, { capabilities: { prompts: {} } });
+  registerPromptHandlers(server);
+  return server;
+}
+
+/**
+ * Wait until a condition holds, for effects of a closed connection
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await sleep(10);
+  }
+}
+
+describe('HTTP transport', () => {
+  let handle: HttpTransportHandle;
+  let baseUrl: string;
+  let closed: string[];
+
+  beforeEach(async () => {
+    closed = [];
+    handle = await startHttpTransport(createServer, {
+      port: 0,
+      host: '127.0.0.1',
+      allowedOrigins: [],
+      onSessionClosed: sessionId => {
+        closed.push(sessionId);
+      }
+    }, new Logger(true, false));
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  const post = (path: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body
+    });
+
+  it('should serve a Streamable HTTP session until the client ends it', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(transport);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.length).toBeGreaterThan(0);
+    expect(handle.sessionCount).toBe(1);
+
+    const sessionId = transport.sessionId!;
+    await transport.terminateSession();
+    await client.close();
+
+    await waitFor(() => closed.length > 0);
+    expect(closed).toEqual([sessionId]);
+    expect(handle.sessionCount).toBe(0);
+  });
+
+  it('should serve legacy SSE clients', async () => {
+    const transport = new SSEClientTransport(new URL(`${baseUrl}/sse`));
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(transport);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.length).toBeGreaterThan(0);
+    expect(handle.sessionCount).toBe(1);
+
+    await client.close();
+    await waitFor(() => closed.length > 0);
+    expect(closed).toHaveLength(1);
+    expect(handle.sessionCount).toBe(0);
+  });
+
+  it('should report health with the number of sessions', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should reject requests without a usable session', async () => {
+    const notInitialize = await post('/mcp', JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+    expect(notInitialize.status).toBe(400);
+
+    const unknown = await post('/mcp', '{}', { 'Mcp-Session-Id': 'missing' });
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).error.code).toBe(-32001);
+
+    const orphan = await post('/messages?sessionId=missing', '{}');
+    expect(orphan.status).toBe(404);
+
+    const malformed = await post('/mcp', '{not json');
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe(-32700);
+  });
+
+  it('should only answer local browser origins by default', async () => {
+    const foreign = await fetch(`${baseUrl}/health`, { headers: { Origin: 'https://evil.example' } });
+    expect(foreign.status).toBe(403);
+
+    const local = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS', headers: { Origin: 'http://localhost:5173' } });
+    expect(local.status).toBe(204);
+    expect(local.headers.get('access-control-allow-origin')).toBe('http://localhost:5173');
+    expect(local.headers.get('access-control-expose-headers')).toBe('Mcp-Session-Id');
+  });
+});
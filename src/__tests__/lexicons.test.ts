@@ -0,0 +1,112 @@
+/**
+ * Tests for lexicons, their overrides and language detection
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LexiconService } from '../services/lexicon.service.js';
+import { BiasDetectorService } from '../services/bias-detector.service.js';
+import { QueryRewritingService } from '../services/query-rewriting.service.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { loadLexicons } from '../core/lexicon-loader.js';
+import { ConfigurationError } from '../core/errors.js';
+import { detectLanguage, detectLanguages } from '../utils/text-signals.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, thought: string, totalThoughts: number = 10): UltraThinkInput {
+  return { thought, thoughtNumber, totalThoughts, nextThoughtNeeded: true };
+}
+
+describe('Language detection', () => {
+  it('should name the dominant script of a text', () => {
+    expect(detectLanguage('The cache is stale')).toBe('en');
+    expect(detectLanguage('캐시가 오래되었습니다')).toBe('ko');
+    expect(detectLanguage('キャッシュが古くなっています')).toBe('ja');
+    expect(detectLanguage('Redis 캐시 서버')).toBe('mixed');
+  });
+
+  it('should list every language whose script appears', () => {
+    expect(detectLanguages('Kubernetes를 도입합시다')).toEqual(['en', 'ko']);
+    expect(detectLanguages('障害の原因')).toEqual(['ja']);
+    expect(detectLanguages('42')).toEqual(['en']);
+  });
+});
+
+describe('LexiconService', () => {
+  it('should validate and version the built-in lexicons', () => {
+    expect(new LexiconService().getVersions()).toEqual({ en: '1.1.0', ko: '1.1.0', ja: '1.1.0' });
+  });
+
+  it('should apply the lexicons of the languages in a text', () => {
+    const lexicons = new LexiconService();
+
+    expect(lexicons.forText('This is a sunk cost').languages).toEqual(['en']);
+    expect(lexicons.forText('지금까지 쓴 비용').languages).toEqual(['ko']);
+    expect(lexicons.forText('ここまで使ったコスト').languages).toEqual(['ja']);
+  });
+
+  it('should detect biases in Japanese thoughts', () => {
+    const detector = new BiasDetectorService(new SimilarityService());
+
+    const [finding] = detector.detectBiases(createInput(9, 'ここまで投資したのでこのまま続けましょう'), []);
+
+    expect(finding).toMatchObject({ type: 'sunk cost fallacy', evidence: ['ここまで', '続け'] });
+  });
+
+  it('should let an override replace a list and reject invalid patterns', () => {
+    const lexicons = new LexiconService([{ language: 'en', version: '1.1.0', bias: { recency: ['lately'] } }]);
+
+    expect(lexicons.getVersions().en).toBe('1.1.0');
+    expect(lexicons.getLexicon('en').bias.recency).toEqual(['lately']);
+    expect(lexicons.getLexicon('en').bias.anchoring).toEqual(['initially', 'originally']);
+    expect(() => new LexiconService([{ language: 'en', version: '1.1.0', bias: { recency: ['(unclosed'] } }]))
+      .toThrow('Invalid regular expression');
+  });
+});
+
+describe('Lexicon overrides from a directory', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lexicons-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load overrides that the services then use', async () => {
+    fs.writeFileSync(path.join(directory, 'en.json'), JSON.stringify({
+      language: 'en',
+      version: '2.0.0',
+      rewriting: { contractions: { "gonna": 'going to' } }
+    }));
+
+    const lexicons = loadLexicons(directory);
+    const result = await new QueryRewritingService(undefined, lexicons).rewriteQuery("We're gonna migrate the database schema today?");
+
+    expect(lexicons.getVersions().en).toBe('2.0.0');
+    expect(result.rewrittenQuery).toContain('going to migrate');
+    expect(result.rewrittenQuery).toContain("We're");
+  });
+
+  it('should fail with the file and the offending keys', () => {
+    fs.writeFileSync(path.join(directory, 'ja.json'), JSON.stringify({
+      language: 'ja',
+      version: '1.0',
+      bias: { recency: ['最近'], unknownCue: ['x'] }
+    }));
+
+    expect(() => loadLexicons(directory)).toThrow(ConfigurationError);
+    expect(() => loadLexicons(directory)).toThrow(/Invalid lexicon 'ja\.json': version: .*; bias: Unrecognized key/);
+  });
+
+  it('should reject two overrides of one language', () => {
+    const override = JSON.stringify({ language: 'ko', version: '1.0.1' });
+    fs.writeFileSync(path.join(directory, 'a.json'), override);
+    fs.writeFileSync(path.join(directory, 'b.json'), override);
+
+    expect(() => loadLexicons(directory)).toThrow("Lexicon 'b.json' overrides 'ko' a second time");
+  });
+});
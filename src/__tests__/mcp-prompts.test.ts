@@ -0,0 +1,116 @@
+/**
+ * Tests for the reasoning framework prompts and argument completion
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { registerPromptHandlers, REASONING_FRAMEWORKS } from '../mcp/prompts.js';
+import { registerCompletionHandler } from '../mcp/completions.js';
+import type { McpHandlerContext } from '../mcp/context.js';
+import { createMcpContext, connectClient } from './fixtures/mcp-fixtures.js';
+
+describe('Reasoning framework prompts', () => {
+  let context: McpHandlerContext;
+  let client: Client;
+
+  beforeEach(async () => {
+    context = createMcpContext();
+    ({ client } = await connectClient(server => {
+      registerPromptHandlers(server);
+      registerCompletionHandler(server, context);
+    }));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await context.sessionManager.shutdown();
+  });
+
+  const promptText = async (name: string, args?: Record<string, string>) => {
+    const result = await client.getPrompt({ name, arguments: args });
+    return result.messages[0].content.text as string;
+  };
+
+  it('should list every framework with its own and the common arguments', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(REASONING_FRAMEWORKS.map(framework => framework.name));
+    expect(prompts.find(prompt => prompt.name === 'five-whys')!.arguments).toEqual([
+      expect.objectContaining({ name: 'problem', required: true }),
+      expect.objectContaining({ name: 'context', required: false }),
+      expect.objectContaining({ name: 'sessionId', required: false }),
+      expect.objectContaining({ name: 'budgetMode', required: false })
+    ]);
+  });
+
+  it('should seed the session settings of the framework', async () => {
+    const text = await promptText('five-whys', {
+      problem: 'Checkout latency doubled',
+      context: 'Started after the Tuesday deploy',
+      sessionId: 'incident-42'
+    });
+
+    expect(text).toContain('Root cause analysis (5 whys) on: Checkout latency doubled');
+    expect(text).toContain('- context: Started after the Tuesday deploy');
+    expect(text).toContain('- sessionId: "incident-42"');
+    expect(text).toContain('- ultraThinkMode: "serial"');
+    expect(text).toContain('- budgetMode: "balanced"');
+    expect(text).toContain('- totalThoughts: 7');
+    expect(text).toContain('1. State the problem precisely');
+  });
+
+  it('should let the budget mode be overridden and name a fresh session otherwise', async () => {
+    const text = await promptText('pre-mortem', { plan: 'Migrate billing to the new provider', budgetMode: 'fast' });
+
+    expect(text).toContain('- budgetMode: "fast"');
+    expect(text).toMatch(/- sessionId: "pre-mortem-[0-9a-f]{8}"/);
+  });
+
+  it('should reject unknown prompts, missing subjects and unaccepted values', async () => {
+    await expect(promptText('six-hats', { topic: 'x' })).rejects.toThrow('Unknown prompt: six-hats');
+    await expect(promptText('swot', { subject: '  ' })).rejects.toThrow('Missing required argument: subject');
+    await expect(promptText('debugging-triage', { symptom: 'Crash on start', severity: 'urgent' }))
+      .rejects.toThrow("Invalid severity: 'urgent' (expected one of critical, high, medium, low)");
+  });
+
+  describe('Completion', () => {
+    const complete = async (ref: any, name: string, value: string, args?: Record<string, string>) => {
+      const result = await client.complete({ ref, argument: { name, value }, context: args && { arguments: args } });
+      return result.completion.values;
+    };
+
+    it('should complete enumerated prompt arguments by prefix', async () => {
+      const ref = { type: 'ref/prompt', name: 'debugging-triage' };
+
+      expect(await complete(ref, 'severity', 'h')).toEqual(['high']);
+      expect(await complete(ref, 'budgetMode', '')).toEqual(['fast', 'balanced', 'thorough', 'exhaustive']);
+      expect(await complete(ref, 'symptom', 'c')).toEqual([]);
+    });
+
+    it('should complete session and branch ids', async () => {
+      const processor = await context.sessionManager.acquire('incident-42');
+      await processor.process({
+        thought: 'The cache is cold after the deploy',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+        branchId: 'cache',
+        branchFromThought: 1
+      });
+      await context.sessionStore.append('archived', {
+        input: { thought: 'Old', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: false },
+        timestamp: Date.now()
+      });
+
+      expect(await complete({ type: 'ref/prompt', name: 'swot' }, 'sessionId', 'INC')).toEqual(['incident-42']);
+      expect(await complete({ type: 'ref/resource', uri: 'thinking://sessions/{sessionId}' }, 'sessionId', ''))
+        .toEqual(['incident-42', 'archived']);
+      expect(await complete(
+        { type: 'ref/resource', uri: 'thinking://sessions/{sessionId}/branches/{branchId}' },
+        'branchId',
+        'c',
+        { sessionId: 'incident-42' }
+      )).toEqual(['cache']);
+      expect(await complete({ type: 'ref/resource', uri: 'file:///{path}' }, 'sessionId', '')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for session resources and their subscriptions
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  registerResourceHandlers,
+  parseResourceUri,
+  sessionUri,
+  thoughtUri,
+  branchUri
+} from '../mcp/resources.js';
+import type { McpHandlerContext } from '../mcp/context.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+import { createMcpContext, connectClient } from './fixtures/mcp-fixtures.js';
+
+function createInput(thoughtNumber: number, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought: `Step ${thoughtNumber} of the rollout review`,
+    thoughtNumber,
+    totalThoughts: 3,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+describe('parseResourceUri', () => {
+  it('should round-trip encoded session and branch ids', () => {
+    expect(parseResourceUri(sessionUri('team/a b'))).toEqual({ kind: 'session', sessionId: 'team/a b' });
+    expect(parseResourceUri(thoughtUri('a', 3))).toEqual({ kind: 'thought', sessionId: 'a', thoughtNumber: 3 });
+    expect(parseResourceUri(branchUri('a', 'plan/b'))).toEqual({ kind: 'branch', sessionId: 'a', branchId: 'plan/b' });
+  });
+
+  it('should reject URIs that are not session resources', () => {
+    expect(parseResourceUri('thinking://sessions/a/thoughts/0')).toBeNull();
+    expect(parseResourceUri('thinking://sessions/a/notes/1')).toBeNull();
+    expect(parseResourceUri('thinking://sessions/%E0%A4%A')).toBeNull();
+    expect(parseResourceUri('file:///etc/passwd')).toBeNull();
+  });
+});
+
+describe('Session resources', () => {
+  let context: McpHandlerContext;
+  let client: Client;
+  let dispose: () => void;
+
+  beforeEach(async () => {
+    context = createMcpContext();
+    ({ client } = await connectClient(server => {
+      dispose = registerResourceHandlers(server, context);
+    }));
+
+    const processor = await context.sessionManager.acquire('review');
+    await processor.process(createInput(1));
+    await processor.process(createInput(2, { branchId: 'alt', branchFromThought: 1 }));
+  });
+
+  afterEach(async () => {
+    dispose();
+    await client.close();
+    await context.sessionManager.shutdown();
+  });
+
+  const read = async (uri: string) => {
+    const result = await client.readResource({ uri });
+    return JSON.parse(result.contents[0].text as string);
+  };
+
+  it('should list live and persisted sessions', async () => {
+    await context.sessionStore.append('archived', { input: createInput(1), timestamp: Date.now() });
+
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resources.map(resource => resource.uri)).toEqual([sessionUri('review'), sessionUri('archived')]);
+    expect(resourceTemplates).toHaveLength(3);
+  });
+
+  it('should read a session, a thought and a branch', async () => {
+    const session = await read(sessionUri('review'));
+    expect(session.thoughts.map((thought: any) => thought.thoughtNumber)).toEqual([1, 2]);
+    expect(session.branches).toEqual([{ branchId: 'alt', uri: branchUri('review', 'alt') }]);
+
+    const thought = await read(thoughtUri('review', 2));
+    expect(thought).toMatchObject({ sessionId: 'review', thoughtNumber: 2, branchId: 'alt' });
+    expect(thought.metadata).toBeDefined();
+
+    const branch = await read(branchUri('review', 'alt'));
+    expect(branch.thoughts).toHaveLength(1);
+  });
+
+  it('should reopen a persisted session without creating unknown ones', async () => {
+    await context.sessionManager.close('review');
+
+    expect((await read(sessionUri('review'))).thoughts).toHaveLength(2);
+    await expect(read(sessionUri('missing'))).rejects.toThrow('Unknown session: missing');
+    expect(context.sessionManager.has('missing')).toBe(false);
+  });
+
+  it('should report missing thoughts and branches', async () => {
+    await expect(read(thoughtUri('review', 9))).rejects.toThrow('Resource not found');
+    await expect(read(branchUri('review', 'none'))).rejects.toThrow('Resource not found');
+    await expect(read('thinking://other/review')).rejects.toThrow('Unknown resource');
+  });
+
+  it('should notify subscribers of the resources a thought touches', async () => {
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+
+    await client.subscribeResource({ uri: sessionUri('review') });
+    await client.subscribeResource({ uri: branchUri('review', 'alt') });
+    await client.subscribeResource({ uri: thoughtUri('review', 4) });
+    await expect(client.subscribeResource({ uri: 'thinking://other' })).rejects.toThrow('Unknown resource');
+
+    const processor = await context.sessionManager.acquire('review');
+    await processor.process(createInput(3, { branchId: 'alt', branchFromThought: 1 }));
+    await client.unsubscribeResource({ uri: sessionUri('review') });
+    await processor.process(createInput(4));
+
+    // A round trip flushes pending notifications
+    await client.listResourceTemplates();
+    expect(updated).toEqual([sessionUri('review'), branchUri('review', 'alt'), thoughtUri('review', 4)]);
+  });
+
+  it('should notify every subscribed resource of a session when it is reset', async () => {
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+    await client.subscribeResource({ uri: thoughtUri('review', 1) });
+    await client.subscribeResource({ uri: sessionUri('other') });
+
+    await (await context.sessionManager.acquire('review')).reset();
+
+    await client.listResourceTemplates();
+    expect(updated).toEqual([thoughtUri('review', 1)]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for the companion session tools
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { sessionTools, callSessionTool, isSessionTool } from '../mcp/tools.js';
+import type { McpHandlerContext } from '../mcp/context.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+import { createMcpContext, connectClient } from './fixtures/mcp-fixtures.js';
+
+function createInput(thoughtNumber: number, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought: `Step ${thoughtNumber}: compare the queue backends for the import job`,
+    thoughtNumber,
+    totalThoughts: 5,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+describe('Companion session tools', () => {
+  let context: McpHandlerContext;
+  let client: Client;
+
+  beforeEach(async () => {
+    context = createMcpContext();
+    ({ client } = await connectClient(server => {
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: sessionTools }));
+      server.setRequestHandler(CallToolRequestSchema, async request =>
+        callSessionTool(request.params.name, request.params.arguments, context)
+      );
+    }));
+
+    // The client checks structured results against the listed output schemas
+    await client.listTools();
+
+    const processor = await context.sessionManager.acquire('queues');
+    await processor.process(createInput(1));
+    await processor.process(createInput(2, { branchId: 'kafka', branchFromThought: 1 }));
+    await processor.process(createInput(3, { branchId: 'kafka', branchFromThought: 1 }));
+    await processor.process(createInput(4, { branchId: 'sqs', branchFromThought: 1 }));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await context.sessionManager.shutdown();
+  });
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return { ...result, data: result.structuredContent as any };
+  };
+
+  it('should declare an output schema for every tool', () => {
+    expect(sessionTools.map(tool => tool.name)).toEqual([
+      'get_thought_history',
+      'get_branch',
+      'reset_session',
+      'session_stats',
+      'list_sessions',
+      'converge_branches',
+      'cache_stats'
+    ]);
+    expect(sessionTools.every(tool => tool.outputSchema?.type === 'object')).toBe(true);
+    expect(isSessionTool('get_branch')).toBe(true);
+    expect(isSessionTool('toString')).toBe(false);
+  });
+
+  it('should filter the thought history by branch, range and limit', async () => {
+    const all = await call('get_thought_history', { sessionId: 'queues' });
+    expect(all.data.total).toBe(4);
+    expect(all.data.thoughts[0].qualityScore).toBeGreaterThan(0);
+
+    const kafka = await call('get_thought_history', { sessionId: 'queues', branchId: 'kafka' });
+    expect(kafka.data.thoughts.map((thought: any) => thought.thoughtNumber)).toEqual([2, 3]);
+
+    const ranged = await call('get_thought_history', { sessionId: 'queues', fromThought: 2, toThought: 4, limit: 1 });
+    expect(ranged.data.total).toBe(3);
+    expect(ranged.data.thoughts.map((thought: any) => thought.thoughtNumber)).toEqual([4]);
+  });
+
+  it('should coerce string arguments and reject invalid ones', async () => {
+    const coerced = await call('get_thought_history', { sessionId: 'queues', limit: '2' });
+    expect(coerced.data.thoughts).toHaveLength(2);
+
+    const invalid = await call('get_thought_history', { sessionId: 'queues', limit: 0 });
+    expect(invalid.isError).toBe(true);
+  });
+
+  it('should return a branch in order and report unknown ones', async () => {
+    const branch = await call('get_branch', { sessionId: 'queues', branchId: 'kafka' });
+    expect(branch.data).toMatchObject({ sessionId: 'queues', branchId: 'kafka', branchFromThought: 1 });
+    expect(branch.data.thoughts.map((thought: any) => thought.thoughtNumber)).toEqual([2, 3]);
+
+    const unknown = await call('get_branch', { sessionId: 'queues', branchId: 'redis' });
+    expect(unknown.isError).toBe(true);
+    expect((unknown.content as any)[0].text).toContain("Unknown branch 'redis' in session 'queues'");
+  });
+
+  it('should report session statistics and list sessions', async () => {
+    await context.sessionStore.append('archived', { input: createInput(1), timestamp: Date.now() });
+
+    const stats = await call('session_stats', { sessionId: 'queues' });
+    expect(stats.data).toMatchObject({ sessionId: 'queues', thoughtCount: 4, branchCount: 2, persistedRecords: 4 });
+
+    const listed = await call('list_sessions');
+    expect(listed.data.sessions).toEqual([
+      expect.objectContaining({ sessionId: 'queues', live: true, thoughtCount: 4, persistedRecords: 4 }),
+      expect.objectContaining({ sessionId: 'archived', live: false, persistedRecords: 1 })
+    ]);
+
+    const liveOnly = await call('list_sessions', { includePersisted: false });
+    expect(liveOnly.data.sessions.map((session: any) => session.sessionId)).toEqual(['queues']);
+  });
+
+  it('should reset a session including its persisted records', async () => {
+    const reset = await call('reset_session', { sessionId: 'queues' });
+    expect(reset.data).toEqual({ sessionId: 'queues', clearedThoughts: 4, clearedBranches: 2 });
+
+    expect((await call('get_thought_history', { sessionId: 'queues' })).data.total).toBe(0);
+    expect(await context.sessionStore.load('queues')).toEqual([]);
+  });
+
+  it('should refuse unknown sessions without creating them', async () => {
+    const result = await call('session_stats', { sessionId: 'missing' });
+
+    expect(result.isError).toBe(true);
+    expect(context.sessionManager.has('missing')).toBe(false);
+  });
+
+  it('should report a missing shared cache as an error', async () => {
+    const result = await call('cache_stats');
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain('No shared cache is configured');
+  });
+});
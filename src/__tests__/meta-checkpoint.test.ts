@@ -0,0 +1,194 @@
+/**
+ * Tests for meta-reasoning checkpoint reports
+ */
+
+import { MetaReasoningService } from '../services/meta-reasoning.service.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { Formatter } from '../core/formatter.js';
+import { EventBus, EventNames, MetaCheckpointEvent } from '../core/event-bus.js';
+import { Logger } from '../utils/logger.js';
+import { ThoughtRecord, UltraThinkInput } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, thought: string, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return { thought, thoughtNumber, totalThoughts: 10, nextThoughtNeeded: true, ...overrides };
+}
+
+/**
+ * Recorded thoughts with the given quality and bias
+ */
+function records(thoughts: Array<{ text?: string; quality?: number; bias?: string; branchId?: string }>): ThoughtRecord[] {
+  return thoughts.map((thought, index) => ({
+    thoughtNumber: index + 1,
+    input: createInput(index + 1, thought.text ?? `Step ${index + 1} of the migration plan`, { branchId: thought.branchId }),
+    metadata: {
+      qualityScore: thought.quality !== undefined ? { overall: thought.quality } : undefined,
+      biasDetected: thought.bias
+    } as ThoughtRecord['metadata']
+  }));
+}
+
+describe('MetaReasoningService', () => {
+  const service = new MetaReasoningService(new SimilarityService());
+  const report = (thoughtNumber: number, thoughts: ThoughtRecord[], branches = new Map<string, UltraThinkInput[]>()) =>
+    service.buildReport(createInput(thoughtNumber, 'Checkpoint'), thoughts, branches, 0.7);
+
+  describe('Quality trend', () => {
+    it('should compare the later half of recent scores with the earlier half', () => {
+      expect(report(4, records([{ quality: 0.6 }, { quality: 0.7 }, { quality: 0.8 }, { quality: 0.9 }])).qualityTrend)
+        .toEqual({ scores: [0.6, 0.7, 0.8, 0.9], average: 0.75, direction: 'improving', change: 0.2 });
+      expect(report(3, records([{ quality: 0.8 }, { quality: 0.9 }, { quality: 0.82 }])).qualityTrend)
+        .toMatchObject({ direction: 'stable', change: 0.02 });
+    });
+
+    it('should only consider the last ten scores', () => {
+      const thoughts = records([0.1, 0.1, 0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.8].map(quality => ({ quality })));
+
+      expect(report(12, thoughts).qualityTrend).toMatchObject({ average: 0.8, direction: 'stable' });
+    });
+
+    it('should leave the direction unknown without two scores', () => {
+      expect(report(1, records([{}])).qualityTrend)
+        .toEqual({ scores: [], average: null, direction: 'unknown', change: 0 });
+      expect(report(2, records([{}, { quality: 0.8 }])).qualityTrend)
+        .toEqual({ scores: [0.8], average: 0.8, direction: 'unknown', change: 0 });
+    });
+  });
+
+  it('should count biases by type, most frequent first', () => {
+    const thoughts = records([{ bias: 'anchoring bias' }, { bias: 'confirmation bias' }, {}, { bias: 'confirmation bias' }]);
+
+    expect(report(4, thoughts).biases).toEqual([
+      { type: 'confirmation bias', count: 2, thoughts: [2, 4] },
+      { type: 'anchoring bias', count: 1, thoughts: [1] }
+    ]);
+  });
+
+  it('should cover branches and the main line', () => {
+    const thoughts = records([{}, { branchId: 'blue-green' }, { branchId: 'blue-green' }, { branchId: 'canary' }]);
+    const branches = new Map([
+      ['blue-green', [thoughts[1].input, thoughts[2].input].map(input => ({ ...input, branchFromThought: 1 }))],
+      ['canary', [{ ...thoughts[3].input, branchFromThought: 1 }]]
+    ]);
+
+    expect(report(4, thoughts, branches).branchCoverage).toEqual({
+      branchCount: 2,
+      branches: [
+        { branchId: 'blue-green', branchFromThought: 1, thoughtCount: 2 },
+        { branchId: 'canary', branchFromThought: 1, thoughtCount: 1 }
+      ],
+      mainLineThoughts: 1
+    });
+  });
+
+  describe('Open questions', () => {
+    it('should keep questions no later thought addresses', () => {
+      const thoughts = records([
+        { text: 'Should we shard the orders database? What is the rollback budget?' },
+        { text: 'Shard the orders database by tenant' }
+      ]);
+
+      expect(report(2, thoughts).openQuestions).toEqual([
+        { thoughtNumber: 1, question: 'What is the rollback budget?' }
+      ]);
+    });
+
+    it('should report the five latest open questions', () => {
+      const questions = ['Who?', 'What?', 'When?', 'Where?', 'Why?', 'How?', 'Which?'];
+
+      const open = report(1, records([{ text: questions.join(' ') }])).openQuestions;
+
+      expect(open.map(entry => entry.question)).toEqual(questions.slice(-5));
+    });
+  });
+
+  describe('Recommendation', () => {
+    it('should pivot when quality declines below the threshold', () => {
+      const checkpoint = report(4, records([{ quality: 0.8 }, { quality: 0.7 }, { quality: 0.5 }, { quality: 0.4 }]));
+
+      expect(checkpoint.recommendation).toBe('pivot');
+      expect(checkpoint.rationale).toBe(
+        'Quality is declining (-0.30) and below 0.7; revisit the approach or branch from an earlier thought'
+      );
+    });
+
+    it('should pivot when half of the thoughts show bias', () => {
+      const checkpoint = report(4, records([
+        { quality: 0.8, bias: 'anchoring bias' },
+        { quality: 0.8 },
+        { quality: 0.8, bias: 'anchoring bias' },
+        { quality: 0.8 }
+      ]));
+
+      expect(checkpoint.recommendation).toBe('pivot');
+      expect(checkpoint.rationale).toBe('2 of 4 thoughts show bias (anchoring bias); challenge the current assumptions');
+    });
+
+    it('should stop late in the plan when quality holds and nothing is open', () => {
+      const thoughts = records(Array.from({ length: 8 }, () => ({ quality: 0.8 })));
+
+      expect(report(8, thoughts)).toMatchObject({ progress: 0.8, recommendation: 'stop' });
+    });
+
+    it('should continue otherwise and say why', () => {
+      const early = report(3, records([{ quality: 0.8 }, { quality: 0.8 }, { text: 'Which queue handles retries?', quality: 0.8 }]));
+      expect(early.recommendation).toBe('continue');
+      expect(early.rationale).toBe('30% complete, 1 open question(s), quality stable');
+
+      const weak = report(8, records(Array.from({ length: 8 }, () => ({ quality: 0.5 }))));
+      expect(weak.recommendation).toBe('continue');
+      expect(weak.rationale).toBe('80% complete, quality stable');
+    });
+  });
+});
+
+describe('Checkpoints in the processor', () => {
+  let eventBus: EventBus;
+  let events: MetaCheckpointEvent[];
+
+  const createProcessor = () => new ProcessorFactory({
+    logger: new Logger(true, false),
+    eventBus,
+    enableQueryRewriting: false
+  }).createProcessor('checkpoints');
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    events = [];
+    eventBus.on<MetaCheckpointEvent>(EventNames.META_CHECKPOINT, event => {
+      events.push(event);
+    });
+  });
+
+  it('should fire on the thoughts that reach each checkpoint, short of the end', async () => {
+    const processor = createProcessor();
+    const checkpoints: number[] = [];
+
+    for (let i = 1; i <= 10; i++) {
+      const response = await processor.process(createInput(i, `Step ${i}: move the orders table to the new cluster`));
+      if (response.metadata?.metaCheckpoint) {
+        checkpoints.push(response.metadata.metaCheckpoint.thoughtNumber);
+      }
+    }
+
+    expect(checkpoints).toEqual([3, 5, 8]);
+    expect(events.map(event => [event.thoughtNumber, event.progress])).toEqual([[3, 0.3], [5, 0.5], [8, 0.8]]);
+    expect(events.every(event => event.sessionId === 'checkpoints')).toBe(true);
+  });
+
+  it('should report on request and include the current thought', async () => {
+    const processor = createProcessor();
+    await processor.process(createInput(1, 'Move the orders table to the new cluster'));
+
+    const response = await processor.process(createInput(2, 'Which replica lags behind?', { metaCheckpoint: true }));
+    const report = response.metadata!.metaCheckpoint!;
+
+    expect(report.thoughtNumber).toBe(2);
+    expect(report.qualityTrend.scores).toHaveLength(2);
+    expect(report.openQuestions).toEqual([{ thoughtNumber: 2, question: 'Which replica lags behind?' }]);
+    expect(events).toEqual([expect.objectContaining({ thoughtNumber: 2, recommendation: report.recommendation, report })]);
+    expect(Formatter.formatResponse(response)).toContain(
+      `🧠 Meta Checkpoint (20%): ${report.recommendation} - ${report.rationale}`
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for history-aware quality scoring
+ */
+
+import { QualityMetricsService } from '../services/quality-metrics.service.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput, QualityScore } from '../types/interfaces.js';
+
+function createInput(thought: string, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought,
+    thoughtNumber: 2,
+    totalThoughts: 5,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+/**
+ * Dimensions whose scores differ between two results
+ */
+function changedMetrics(a: QualityScore, b: QualityScore): string[] {
+  return (Object.keys(a.metrics) as Array<keyof QualityScore['metrics']>)
+    .filter(metric => a.metrics[metric] !== b.metrics[metric]);
+}
+
+describe('QualityMetricsService', () => {
+  const service = new QualityMetricsService(new SimilarityService());
+
+  it('should score consistency from the connection to earlier thoughts', () => {
+    const thought = 'The cache invalidation bug appears when the session cache expires during writes';
+    const related = [createInput('Users report stale session cache data after writes', { thoughtNumber: 1 })];
+    const unrelated = [createInput('Marketing wants a new landing page color', { thoughtNumber: 1 })];
+
+    const connected = service.calculateQuality(createInput(thought), related);
+    const disconnected = service.calculateQuality(createInput(thought), unrelated);
+
+    expect(connected.metrics.consistency).toBeGreaterThan(disconnected.metrics.consistency);
+    expect(changedMetrics(connected, disconnected)).toEqual(['consistency']);
+  });
+
+  it('should penalize revisions of thoughts that were never recorded', () => {
+    const history = [createInput('Users report stale session cache data', { thoughtNumber: 1 })];
+    const thought = 'Stale session cache data comes from a missing invalidation';
+
+    const valid = service.calculateQuality(createInput(thought, { isRevision: true, revisesThought: 1 }), history);
+    const dangling = service.calculateQuality(createInput(thought, { isRevision: true, revisesThought: 4 }), history);
+
+    expect(valid.metrics.consistency).toBeGreaterThan(dangling.metrics.consistency);
+    expect(changedMetrics(valid, dangling)).toEqual(['consistency']);
+  });
+
+  it('should score completeness from the points and considerations covered', () => {
+    const thin = service.calculateQuality(createInput('The migration looks fine'), []);
+    const thorough = service.calculateQuality(createInput(
+      'The migration looks fine. Rollback risk is low. The main constraint is the lock on the orders table. ' +
+      'An alternative is a dual-write period.'
+    ), []);
+
+    expect(thorough.metrics.completeness).toBeGreaterThan(thin.metrics.completeness);
+    expect(changedMetrics(thin, thorough)).toEqual(['completeness']);
+  });
+
+  it('should score objectivity from absolute claims, evidence and detected bias', () => {
+    const absolute = service.calculateQuality(createInput('This design is obviously always faster for everyone'), []);
+    const grounded = service.calculateQuality(createInput('Benchmarks suggest this design is probably faster here'), []);
+    const biased = service.calculateQuality(createInput('Benchmarks suggest this design is probably faster here', {
+      biasDetected: 'confirmation bias'
+    }), []);
+
+    expect(grounded.metrics.objectivity).toBeGreaterThan(absolute.metrics.objectivity);
+    expect(biased.metrics.objectivity).toBeLessThan(grounded.metrics.objectivity);
+    expect(changedMetrics(absolute, grounded)).toEqual(['objectivity']);
+    expect(changedMetrics(grounded, biased)).toEqual(['objectivity']);
+  });
+
+  it('should score practicality from actionable and concrete content', () => {
+    const abstract = service.calculateQuality(createInput('The latency problem is about the overall architecture'), []);
+    const concrete = service.calculateQuality(createInput('Implement batching in `flushQueue` to cut latency by 40 ms'), []);
+
+    expect(concrete.metrics.practicality).toBeGreaterThan(abstract.metrics.practicality);
+    expect(changedMetrics(abstract, concrete)).toEqual(['practicality']);
+  });
+
+  it('should let stated confidence move practicality only', () => {
+    const thought = 'Deploy the fix behind a feature flag';
+    const unsure = service.calculateQuality(createInput(thought, { confidence: 0.2 }), []);
+    const sure = service.calculateQuality(createInput(thought, { confidence: 0.9 }), []);
+
+    expect(sure.metrics.practicality).toBeGreaterThan(unsure.metrics.practicality);
+    expect(changedMetrics(unsure, sure)).toEqual(['practicality']);
+  });
+
+  it('should score Korean text and expose the signals behind the score', () => {
+    const vague = service.calculateQuality(createInput('무조건 이 방법이 맞습니다'), []);
+    const grounded = service.calculateQuality(createInput(
+      '측정 결과상 응답 시간이 200ms 늘었기 때문에 인덱스를 추가해야 합니다. 다만 쓰기 비용이 늘어날 가능성이 있습니다.'
+    ), []);
+
+    expect(grounded.overall).toBeGreaterThan(vague.overall);
+    expect(vague.signals).toMatchObject({ language: 'ko', overclaiming: 1 });
+    expect(grounded.signals).toMatchObject({ language: 'ko', evidence: 2, hedging: 1, considerations: 1 });
+  });
+
+  it('should prefer manual ratings over calculated scores', () => {
+    const score = service.calculateQuality(createInput('The migration looks fine', {
+      qualityMetrics: { logicalConsistency: 5, completeness: 1 }
+    }), []);
+
+    expect(score.metrics.consistency).toBe(1);
+    expect(score.metrics.completeness).toBe(0.2);
+  });
+});
+
+describe('Quality analysis in the processor', () => {
+  it('should score each thought against the session history', async () => {
+    const processor = new ProcessorFactory({
+      logger: new Logger(true, false),
+      enableQueryRewriting: false
+    }).createProcessor();
+
+    await processor.process(createInput('Users report stale session cache data after writes', { thoughtNumber: 1 }));
+    const connected = await processor.process(createInput(
+      'The stale session cache data comes from writes that skip invalidation', { thoughtNumber: 2 }
+    ));
+    const disconnected = await processor.process(createInput(
+      'Marketing wants a new landing page color', { thoughtNumber: 3 }
+    ));
+
+    expect(connected.metadata?.qualityScore?.metrics.consistency)
+      .toBeGreaterThan(disconnected.metadata?.qualityScore?.metrics.consistency ?? 1);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for quality trend tracking
+ */
+
+import { QualityTrendTracker, sparkline } from '../core/quality-trend.js';
+import { Formatter } from '../core/formatter.js';
+import { QualityAnalysisStage } from '../core/pipeline-stages.js';
+import { EventBus, EventNames } from '../core/event-bus.js';
+import { IQualityMetricsService } from '../core/interfaces/index.js';
+import { QualityScore } from '../types/interfaces.js';
+
+function createScore(overall: number, metrics?: Partial<QualityScore['metrics']>): QualityScore {
+  return {
+    overall,
+    metrics: {
+      consistency: overall,
+      completeness: overall,
+      objectivity: overall,
+      practicality: overall,
+      ...metrics
+    }
+  };
+}
+
+describe('QualityTrendTracker', () => {
+  it('should compute the moving average and slope over recent thoughts', () => {
+    const tracker = new QualityTrendTracker(0.6);
+    [0.5, 0.6, 0.7, 0.8].forEach((score, index) => tracker.record(index + 1, createScore(score)));
+
+    const trend = tracker.getTrend();
+
+    expect(trend).toMatchObject({ samples: 4, movingAverage: 0.65, slope: 0.1, direction: 'improving' });
+    expect(trend.window).toEqual([0.5, 0.6, 0.7, 0.8]);
+  });
+
+  it('should only average the moving window', () => {
+    const tracker = new QualityTrendTracker(0.6);
+    [0.2, 0.8, 0.8, 0.8, 0.8, 0.8].forEach((score, index) => tracker.record(index + 1, createScore(score)));
+
+    expect(tracker.getTrend()).toMatchObject({ samples: 6, movingAverage: 0.8, slope: 0, direction: 'stable' });
+  });
+
+  it('should follow each dimension separately', () => {
+    const tracker = new QualityTrendTracker(0.6);
+    tracker.record(1, createScore(0.7, { objectivity: 0.9, practicality: 0.5 }));
+    tracker.record(2, createScore(0.7, { objectivity: 0.7, practicality: 0.7 }));
+    tracker.record(3, createScore(0.7, { objectivity: 0.5, practicality: 0.9 }));
+
+    const { dimensions } = tracker.getTrend();
+
+    expect(dimensions.objectivity.direction).toBe('declining');
+    expect(dimensions.practicality.direction).toBe('improving');
+    expect(dimensions.consistency.direction).toBe('stable');
+  });
+
+  it('should flag a sharp drop and the recovery after it', () => {
+    const tracker = new QualityTrendTracker(0.6);
+    tracker.record(1, createScore(0.8));
+    tracker.record(2, createScore(0.8));
+
+    expect(tracker.record(3, createScore(0.5)).change).toBe('regressed');
+    expect(tracker.record(4, createScore(0.55)).change).toBeUndefined();
+    expect(tracker.record(5, createScore(0.7)).change).toBe('improved');
+    expect(tracker.record(6, createScore(0.75)).change).toBeUndefined();
+  });
+
+  it('should count climbing back above the threshold as a recovery', () => {
+    const tracker = new QualityTrendTracker(0.6);
+
+    expect(tracker.record(1, createScore(0.5)).change).toBeUndefined();
+    expect(tracker.record(2, createScore(0.65)).change).toBe('improved');
+  });
+
+  it('should start over when cleared', () => {
+    const tracker = new QualityTrendTracker(0.6);
+    tracker.record(1, createScore(0.8));
+    tracker.clear();
+
+    expect(tracker.getTrend()).toMatchObject({ samples: 0, window: [], direction: 'unknown', sparkline: '' });
+  });
+});
+
+describe('Quality trend in the pipeline', () => {
+  it('should emit regression and improvement events', async () => {
+    const scores = [0.8, 0.8, 0.4, 0.7];
+    const qualityMetrics: IQualityMetricsService = {
+      calculateQuality: input => createScore(scores[input.thoughtNumber - 1])
+    };
+    const eventBus = new EventBus();
+    const events: Array<[string, number]> = [];
+    eventBus.on('quality.*', (data, event) => {
+      events.push([event, data.thoughtNumber]);
+    });
+
+    const stage = new QualityAnalysisStage(
+      qualityMetrics, new Map(), true, 0.6, new QualityTrendTracker(0.6), eventBus
+    );
+    for (let thoughtNumber = 1; thoughtNumber <= scores.length; thoughtNumber++) {
+      await stage.execute({
+        input: { thought: `Thought ${thoughtNumber}`, thoughtNumber, totalThoughts: 4, nextThoughtNeeded: true },
+        metadata: { startTime: Date.now() }
+      });
+    }
+
+    expect(events).toEqual([
+      [EventNames.QUALITY_WARNING, 3],
+      [EventNames.QUALITY_REGRESSED, 3],
+      [EventNames.QUALITY_IMPROVED, 4]
+    ]);
+  });
+});
+
+describe('Quality trend formatting', () => {
+  it('should render scores as a sparkline', () => {
+    expect(sparkline([0, 0.5, 1])).toBe('▁▅█');
+  });
+
+  it('should summarize the trend in the formatted response', () => {
+    const tracker = new QualityTrendTracker(0.6);
+    tracker.record(1, createScore(0.8));
+    tracker.record(2, createScore(0.8));
+    const trend = tracker.record(3, createScore(0.5, {
+      consistency: 0.8, completeness: 0.8, objectivity: 0.2, practicality: 0.8
+    }));
+
+    const output = Formatter.formatResponse({
+      thought: 'Third thought',
+      thoughtNumber: 3,
+      totalThoughts: 5,
+      nextThoughtNeeded: true,
+      metadata: { qualityTrend: trend }
+    });
+
+    expect(output).toContain('📉 Trend: ▇▇▅ avg 70%, declining (-0.15/thought); declining: objectivity (⚠️ Sharp drop)');
+  });
+});
@@ -5,7 +5,6 @@
 import { QueryRewritingService } from '../services/query-rewriting.service.js';
 import { QueryOptimizationStage } from '../core/pipeline-stages.js';
 import { ProcessingContext } from '../core/processing-pipeline.js';
-import { UltraThinkInput } from '../types/interfaces.js';
 
 describe('QueryRewritingService', () => {
   let service: QueryRewritingService;
@@ -0,0 +1,95 @@
+/**
+ * Tests for revision chains
+ */
+
+import { RevisionTracker } from '../core/revision-tracker.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, thought: string, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return { thought, thoughtNumber, totalThoughts: 10, nextThoughtNeeded: true, ...overrides };
+}
+
+function revision(thoughtNumber: number, revisesThought: number, thought: string): UltraThinkInput {
+  return createInput(thoughtNumber, thought, { isRevision: true, revisesThought });
+}
+
+describe('RevisionTracker', () => {
+  let tracker: RevisionTracker;
+  let history: Map<number, UltraThinkInput>;
+
+  /**
+   * Track a thought and add it to history, as the pipeline does
+   */
+  const add = (input: UltraThinkInput) => {
+    const info = tracker.track(input, history);
+    history.set(input.thoughtNumber, input);
+    return info;
+  };
+
+  beforeEach(() => {
+    tracker = new RevisionTracker(new SimilarityService());
+    history = new Map();
+  });
+
+  it('should ignore thoughts that are no revisions', () => {
+    expect(add(createInput(1, 'The import job is slow'))).toBeUndefined();
+    expect(tracker.getChain(1)).toBeUndefined();
+  });
+
+  it('should chain revisions of revisions back to the original', () => {
+    add(createInput(1, 'The import job is slow because of the network'));
+    add(createInput(2, 'Measure the transfer time'));
+    const first = add(revision(3, 1, 'The import job is slow because of the database'));
+    const second = add(revision(4, 3, 'The import job is slow because of missing indexes'));
+
+    expect(first).toMatchObject({ originalThought: 1, revisesThought: 1, version: 2 });
+    expect(second).toMatchObject({ originalThought: 1, revisesThought: 3, version: 3 });
+    expect(second!.chain.map(version => version.thoughtNumber)).toEqual([1, 3, 4]);
+    expect(tracker.getChain(4)).toEqual(tracker.getChain(1));
+  });
+
+  it('should diff against the version being revised', () => {
+    add(createInput(1, 'Use a queue for the import'));
+    add(revision(2, 1, 'Use a stream for the import'));
+    const info = add(revision(3, 1, 'Use a queue for the nightly import'));
+
+    expect(info!.diff.added).toBe(1);
+    expect(info!.diff.removed).toBe(0);
+  });
+
+  it('should flag later thoughts that build on the replaced version', () => {
+    add(createInput(1, 'The import job fails because the network drops connections'));
+    add(createInput(2, 'Retry the import job when the network drops connections'));
+    add(createInput(3, 'Schedule a meeting for Friday'));
+    const info = add(revision(4, 1, 'The import job fails because the disk fills up'));
+
+    expect(info!.possiblyStale.map(stale => stale.thoughtNumber)).toEqual([2]);
+    expect(info!.possiblyStale[0].similarity).toBeGreaterThan(0.4);
+  });
+
+  it('should keep the original and the latest versions of a long chain', () => {
+    add(createInput(1, 'Draft 0'));
+    let info;
+    for (let i = 1; i <= 60; i++) {
+      info = add(revision(i + 1, i, `Draft ${i}`));
+    }
+
+    const chain = tracker.getChain(1)!;
+    expect(chain).toHaveLength(50);
+    expect(chain[0]).toEqual({ version: 1, thoughtNumber: 1, thought: 'Draft 0' });
+    expect(chain[1].version).toBe(13);
+    expect(chain[49]).toEqual({ version: 61, thoughtNumber: 61, thought: 'Draft 60' });
+    expect(info!.version).toBe(61);
+  });
+
+  it('should forget chains when cleared', () => {
+    add(createInput(1, 'Draft'));
+    add(revision(2, 1, 'Better draft'));
+
+    tracker.clear();
+
+    expect(tracker.getChain(1)).toBeUndefined();
+    expect(tracker.getChain(2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for session-aware sequence validation
+ */
+
+import { SequenceValidator, SequenceState } from '../core/sequence-validator.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { ValidationError } from '../core/errors.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought: `Step ${thoughtNumber} of the migration analysis`,
+    thoughtNumber,
+    totalThoughts: 10,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+function createState(inputs: UltraThinkInput[]): SequenceState {
+  const thoughts = new Map<number, UltraThinkInput>();
+  const branches = new Map<string, UltraThinkInput[]>();
+
+  for (const input of inputs) {
+    thoughts.set(input.thoughtNumber, input);
+    if (input.branchId) {
+      branches.set(input.branchId, [...(branches.get(input.branchId) || []), input]);
+    }
+  }
+
+  return { thoughts, branches };
+}
+
+describe('SequenceValidator', () => {
+  const strict = new SequenceValidator('strict');
+  const history = createState([createInput(1), createInput(2), createInput(3)]);
+
+  it('should accept the next thought in sequence', () => {
+    const result = strict.validate(createInput(4), history);
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should reject references to thoughts that do not exist', () => {
+    const revision = strict.validate(createInput(4, { isRevision: true, revisesThought: 7 }), history);
+    const branch = strict.validate(createInput(4, { branchId: 'alt', branchFromThought: 9 }), history);
+
+    expect(revision.errors).toEqual(['Revised thought 7 does not exist']);
+    expect(branch.errors).toEqual(['Branch point thought 9 does not exist']);
+  });
+
+  it('should not check references older than a trimmed history', () => {
+    const trimmed = { ...createState([createInput(5), createInput(6)]), historyTrimmed: true };
+
+    const result = strict.validate(createInput(7, { isRevision: true, revisesThought: 2 }), trimmed);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report gaps and duplicates in thought numbers', () => {
+    expect(strict.validate(createInput(6), history).errors[0]).toContain('skips ahead; expected 4');
+    expect(strict.validate(createInput(2), history).errors[0]).toContain('already exists');
+  });
+
+  it('should allow revisions to reuse thought numbers', () => {
+    const result = strict.validate(createInput(2, { isRevision: true, revisesThought: 2 }), history);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should allow branch thoughts numbered from their fork point', () => {
+    const state = createState([
+      createInput(1),
+      createInput(2),
+      createInput(3, { branchId: 'a', branchFromThought: 2 }),
+      createInput(4, { branchId: 'a', branchFromThought: 2 })
+    ]);
+
+    const result = strict.validate(createInput(3, { branchId: 'b', branchFromThought: 2 }), state);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject reusing a branch id with a different fork point', () => {
+    const state = createState([
+      createInput(1),
+      createInput(2),
+      createInput(3, { branchId: 'a', branchFromThought: 1 })
+    ]);
+
+    const result = strict.validate(createInput(4, { branchId: 'a', branchFromThought: 2 }), state);
+
+    expect(result.errors).toEqual([
+      "Branch 'a' forks from thought 1, not 2; use a new branch id"
+    ]);
+  });
+
+  it('should check serial depth progression', () => {
+    const state = createState([
+      createInput(1, { ultraThinkMode: 'serial', depthLevel: 1 }),
+      createInput(2, { ultraThinkMode: 'serial', depthLevel: 2 })
+    ]);
+
+    expect(strict.validate(createInput(3, { ultraThinkMode: 'serial', depthLevel: 3 }), state).valid).toBe(true);
+    expect(strict.validate(createInput(3, { ultraThinkMode: 'serial', depthLevel: 1 }), state).valid).toBe(true);
+    expect(strict.validate(createInput(3, { ultraThinkMode: 'serial', depthLevel: 4 }), state).errors[0])
+      .toContain('Invalid depth progression: 2 -> 4');
+  });
+
+  it('should report findings as warnings in lenient mode', () => {
+    const result = new SequenceValidator('lenient').validate(createInput(6), history);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('Sequence validation in the processor', () => {
+  function createProcessor(sequenceValidation: 'strict' | 'lenient' | 'off') {
+    return new ProcessorFactory({
+      logger: new Logger(true, false),
+      enableQueryRewriting: false,
+      sequenceValidation
+    }).createProcessor();
+  }
+
+  it('should reject out-of-sequence thoughts in strict mode without recording them', async () => {
+    const processor = createProcessor('strict');
+    await processor.process(createInput(1));
+
+    await expect(processor.process(createInput(3))).rejects.toThrow(ValidationError);
+    expect(processor.getThoughts().map(record => record.thoughtNumber)).toEqual([1]);
+  });
+
+  it('should attach warnings to the response in lenient mode', async () => {
+    const processor = createProcessor('lenient');
+    await processor.process(createInput(1));
+
+    const response = await processor.process(createInput(3));
+
+    expect(response.metadata?.validationWarnings).toEqual(['Thought number 3 skips ahead; expected 2']);
+  });
+
+  it('should skip validation when turned off', async () => {
+    const processor = createProcessor('off');
+    await processor.process(createInput(1));
+
+    const response = await processor.process(createInput(3));
+
+    expect(response.metadata?.validationWarnings).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for session-scoped processors
+ */
+
+import { SessionManager } from '../core/session-manager.js';
+import { DEFAULT_SESSION_ID } from '../config/constants.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { EventBus, EventNames } from '../core/event-bus.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+
+function createInput(thoughtNumber: number, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought: `Thought number ${thoughtNumber} about the caching strategy`,
+    thoughtNumber,
+    totalThoughts: 5,
+    nextThoughtNeeded: true,
+    enableQueryRewriting: false,
+    ...overrides
+  };
+}
+
+describe('SessionManager', () => {
+  let eventBus: EventBus;
+  let factory: ProcessorFactory;
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    factory = new ProcessorFactory({
+      logger: new Logger(true, false),
+      eventBus,
+      enableQueryRewriting: false
+    });
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  it('should reuse one processor per session', async () => {
+    manager = new SessionManager(factory, {}, eventBus);
+
+    const first = await manager.acquire('alpha');
+    await first.process(createInput(1));
+    const second = await manager.acquire('alpha');
+    await second.process(createInput(2));
+
+    expect(second).toBe(first);
+    expect(second.getHistoryStats().thoughtCount).toBe(2);
+  });
+
+  it('should isolate history between sessions', async () => {
+    manager = new SessionManager(factory, {}, eventBus);
+
+    const alpha = await manager.acquire('alpha');
+    await alpha.process(createInput(1));
+    const beta = await manager.acquire('beta');
+
+    expect(beta).not.toBe(alpha);
+    expect(beta.getHistoryStats().thoughtCount).toBe(0);
+    expect(beta.sessionId).toBe('beta');
+  });
+
+  it('should fall back to the default session', async () => {
+    manager = new SessionManager(factory, {}, eventBus);
+
+    const processor = await manager.acquire();
+
+    expect(processor.sessionId).toBe(DEFAULT_SESSION_ID);
+    expect(manager.has(DEFAULT_SESSION_ID)).toBe(true);
+  });
+
+  it('should evict the least recently used session at capacity', async () => {
+    manager = new SessionManager(factory, { maxSessions: 2 }, eventBus);
+    const expired: string[] = [];
+    eventBus.on(EventNames.SESSION_EXPIRED, (event) => expired.push(event.sessionId));
+
+    await manager.acquire('alpha');
+    await sleep(5);
+    await manager.acquire('beta');
+    await sleep(5);
+    await manager.acquire('alpha');
+    await manager.acquire('gamma');
+
+    expect(manager.size).toBe(2);
+    expect(manager.has('beta')).toBe(false);
+    expect(expired).toEqual(['beta']);
+  });
+
+  it('should expire idle sessions', async () => {
+    manager = new SessionManager(factory, { idleTimeoutMs: 20 }, eventBus);
+
+    const processor = await manager.acquire('alpha');
+    await processor.process(createInput(1));
+    await sleep(40);
+
+    expect(manager.get('alpha')).toBeUndefined();
+    expect(await manager.sweep()).toBe(1);
+    expect(manager.size).toBe(0);
+
+    const fresh = await manager.acquire('alpha');
+    expect(fresh).not.toBe(processor);
+    expect(fresh.getHistoryStats().thoughtCount).toBe(0);
+  });
+
+  it('should tag emitted events with the session id', async () => {
+    manager = new SessionManager(factory, {}, eventBus);
+    const processed: Array<{ sessionId?: string }> = [];
+    eventBus.on(EventNames.THOUGHT_PROCESSED, (event) => processed.push(event));
+
+    const processor = await manager.acquire('alpha');
+    await processor.process(createInput(1));
+
+    expect(processed).toHaveLength(1);
+    expect(processed[0].sessionId).toBe('alpha');
+  });
+
+  it('should list and close sessions', async () => {
+    manager = new SessionManager(factory, {}, eventBus);
+
+    await manager.acquire('alpha');
+    await manager.acquire('beta');
+
+    expect(manager.list().map(s => s.id).sort()).toEqual(['alpha', 'beta']);
+    expect(await manager.close('alpha')).toBe(true);
+    expect(await manager.close('alpha')).toBe(false);
+    expect(manager.list().map(s => s.id)).toEqual(['beta']);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for session persistence and resume
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSessionStore, InMemorySessionStore } from '../core/session-store.js';
+import { SessionManager } from '../core/session-manager.js';
+import { ProcessorFactory } from '../core/processor-factory.js';
+import { EventBus } from '../core/event-bus.js';
+import { Logger } from '../utils/logger.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+import type { ISessionStore } from '../core/interfaces/index.js';
+
+function createInput(thoughtNumber: number, overrides?: Partial<UltraThinkInput>): UltraThinkInput {
+  return {
+    thought: `Thought number ${thoughtNumber} about the deployment plan`,
+    thoughtNumber,
+    totalThoughts: 5,
+    nextThoughtNeeded: true,
+    ...overrides
+  };
+}
+
+function createManager(store: ISessionStore): SessionManager {
+  const factory = new ProcessorFactory({
+    logger: new Logger(true, false),
+    eventBus: new EventBus(),
+    enableQueryRewriting: false,
+    sessionStore: store
+  });
+  return new SessionManager(factory);
+}
+
+describe('FileSessionStore', () => {
+  let directory: string;
+  let store: FileSessionStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ultra-think-sessions-'));
+    store = new FileSessionStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append and load records in order', async () => {
+    await Promise.all([1, 2, 3].map(n => store.append('alpha', { input: createInput(n), timestamp: n })));
+
+    const records = await store.load('alpha');
+
+    expect(records.map(r => r.input.thoughtNumber)).toEqual([1, 2, 3]);
+    expect(await store.list()).toEqual(['alpha']);
+  });
+
+  it('should write a manifest atomically', async () => {
+    await store.append('alpha', { input: createInput(1), timestamp: 100 });
+    await store.append('alpha', { input: createInput(2), timestamp: 200 });
+
+    const manifest = JSON.parse(await fs.readFile(path.join(directory, 'alpha.json'), 'utf-8'));
+    const files = await fs.readdir(directory);
+
+    expect(manifest).toMatchObject({ sessionId: 'alpha', createdAt: 100, updatedAt: 200, recordCount: 2 });
+    expect(files.some(f => f.endsWith('.tmp'))).toBe(false);
+  });
+
+  it('should skip a torn trailing record', async () => {
+    await store.append('alpha', { input: createInput(1), timestamp: 1 });
+    await fs.appendFile(path.join(directory, 'alpha.jsonl'), '{"input":{"thou');
+
+    const records = await new FileSessionStore(directory).load('alpha');
+
+    expect(records).toHaveLength(1);
+  });
+
+  it('should encode session ids into safe file names', async () => {
+    await store.append('team:review/1', { input: createInput(1), timestamp: 1 });
+
+    expect(await store.list()).toEqual(['team:review/1']);
+    expect(await store.delete('team:review/1')).toBe(true);
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('InMemorySessionStore', () => {
+  const record = (thoughtNumber: number) => ({ input: createInput(thoughtNumber), timestamp: Date.now() });
+
+  it('should drop the least recently written session beyond its cap', async () => {
+    const store = new InMemorySessionStore(2);
+
+    await store.append('alpha', record(1));
+    await store.append('beta', record(1));
+    await store.append('alpha', record(2));
+    await store.append('gamma', record(1));
+
+    expect((await store.list()).sort()).toEqual(['alpha', 'gamma']);
+    expect(await store.load('beta')).toEqual([]);
+    expect(await store.getManifest('beta')).toBeNull();
+    expect(await store.load('alpha')).toHaveLength(2);
+  });
+});
+
+describe('Session resume', () => {
+  it('should replay history after a restart', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ultra-think-resume-'));
+
+    try {
+      const before = createManager(new FileSessionStore(directory));
+      const processor = await before.acquire('alpha');
+      await processor.process(createInput(1));
+      await processor.process(createInput(2, { branchId: 'b1', branchFromThought: 1 }));
+      await before.shutdown();
+
+      // Simulate a server restart with a fresh store and registry
+      const after = createManager(new FileSessionStore(directory));
+      const resumed = await after.acquire('alpha');
+      const stats = resumed.getHistoryStats();
+      await after.shutdown();
+
+      expect(stats.thoughtCount).toBe(2);
+      expect(stats.branchCount).toBe(1);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should resume an expired session from memory', async () => {
+    const store = new InMemorySessionStore();
+    const manager = createManager(store);
+
+    const processor = await manager.acquire('alpha');
+    await processor.process(createInput(1));
+    await manager.close('alpha');
+
+    const reopened = await manager.acquire('alpha');
+    const stats = reopened.getHistoryStats();
+    const records = await store.load('alpha');
+    await manager.shutdown();
+
+    expect(reopened).not.toBe(processor);
+    expect(stats.thoughtCount).toBe(1);
+    expect(records[0].metadata?.qualityScore).toBeDefined();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for the similarity engines against labelled paraphrases
+ */
+
+import { SimilarityService } from '../services/similarity.service.js';
+import type { SimilarityOptions } from '../services/similarity.service.js';
+import { PARAPHRASE_FIXTURES } from './fixtures/paraphrase-fixtures.js';
+
+const THRESHOLD = 0.4;
+
+function score(options: SimilarityOptions): { accuracy: number; gap: number } {
+  const service = new SimilarityService(100, undefined, options);
+  for (const fixture of PARAPHRASE_FIXTURES) {
+    service.addDocument(fixture.first);
+    service.addDocument(fixture.second);
+  }
+
+  const scored = PARAPHRASE_FIXTURES.map(fixture => ({
+    paraphrase: fixture.paraphrase,
+    similarity: service.calculateSimilarity(fixture.first, fixture.second)
+  }));
+  const correct = scored.filter(({ paraphrase, similarity }) => (similarity >= THRESHOLD) === paraphrase);
+  const lowestParaphrase = Math.min(...scored.filter(s => s.paraphrase).map(s => s.similarity));
+  const highestOther = Math.max(...scored.filter(s => !s.paraphrase).map(s => s.similarity));
+
+  return { accuracy: correct.length / scored.length, gap: lowestParaphrase - highestOther };
+}
+
+describe('Similarity engines', () => {
+  it('should separate every labelled paraphrase with the tfidf engine', () => {
+    const term = score({ engine: 'term' });
+    const tfidf = score({ engine: 'tfidf' });
+
+    expect(tfidf.accuracy).toBe(1);
+    expect(tfidf.gap).toBeGreaterThan(0.2);
+    expect(term.accuracy).toBeLessThan(tfidf.accuracy);
+    expect(term.gap).toBeLessThan(0);
+  });
+
+  it('should match Korean words that differ only in their particle', () => {
+    const term = new SimilarityService();
+    const tfidf = new SimilarityService(100, undefined, { engine: 'tfidf' });
+
+    expect(term.calculateSimilarity('서버가 느리다', '서버를 느리다')).toBeLessThan(0.6);
+    expect(tfidf.calculateSimilarity('서버가 느리다', '서버를 느리다')).toBeCloseTo(1);
+    expect(tfidf.extractKeyTerms('서버가 죽고 서버를 재시작했다')).toEqual(['서버', '죽고', '재시작했다']);
+  });
+
+  it('should keep stems of one character intact', () => {
+    const tfidf = new SimilarityService(100, undefined, { engine: 'tfidf', features: ['josa'] });
+
+    expect(tfidf.extractKeyTerms('나는 책을 읽었다')).toEqual(['나는', '책을', '읽었다']);
+  });
+
+  it('should weigh down terms the session keeps repeating', () => {
+    const tfidf = new SimilarityService(100, undefined, { engine: 'tfidf' });
+    const before = tfidf.calculateSimilarity('checkout latency after the release', 'checkout errors in the mobile app');
+
+    for (let i = 0; i < 10; i++) {
+      tfidf.addDocument(`checkout observation ${i}`);
+    }
+    const after = tfidf.calculateSimilarity('checkout latency after the release', 'checkout errors in the mobile app');
+
+    expect(after).toBeLessThan(before);
+
+    tfidf.resetDocuments();
+    expect(tfidf.calculateSimilarity('checkout latency after the release', 'checkout errors in the mobile app'))
+      .toBeCloseTo(before);
+  });
+
+  it('should drop stopwords only when the feature is on', () => {
+    const withStopwords = new SimilarityService(100, undefined, { engine: 'tfidf', features: [] });
+    const withoutStopwords = new SimilarityService(100, undefined, { engine: 'tfidf', features: ['stopwords'] });
+
+    expect(withStopwords.calculateSimilarity('the cache and the queue', 'the disk and the network')).toBeGreaterThan(0);
+    expect(withoutStopwords.calculateSimilarity('the cache and the queue', 'the disk and the network')).toBe(0);
+  });
+});
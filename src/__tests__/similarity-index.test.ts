@@ -0,0 +1,152 @@
+/**
+ * Tests for the MinHash/LSH index of similar thoughts
+ */
+
+import { MinHashIndex } from '../utils/minhash.js';
+import { SimilarityService } from '../services/similarity.service.js';
+import { BiasDetectorService } from '../services/bias-detector.service.js';
+import { contentHash } from '../utils/content-hash.js';
+import { HISTORY_LIMITS } from '../config/constants.js';
+import { UltraThinkInput } from '../types/interfaces.js';
+
+const VOCABULARY = Array.from({ length: 400 }, (_, i) => `term${i.toString(36)}x`);
+
+/**
+ * Thoughts of eight words drawn from a fixed vocabulary, reproducibly
+ */
+function generatedHistory(size: number): string[] {
+  let state = 42;
+  const next = () => ((state = (Math.imul(state, 1103515245) + 12345) >>> 0) >>> 16) % VOCABULARY.length;
+  return Array.from({ length: size }, () => Array.from({ length: 8 }, () => VOCABULARY[next()]).join(' '));
+}
+
+function createInput(thoughtNumber: number, thought: string): UltraThinkInput {
+  return { thought, thoughtNumber, totalThoughts: 12, nextThoughtNeeded: true };
+}
+
+describe('MinHashIndex', () => {
+  it('should return overlapping entries as candidates and forget removed ones', () => {
+    const index = new MinHashIndex();
+    index.add('a', ['cache', 'miss', 'rate', 'rises', 'after', 'deploy']);
+    index.add('b', ['cache', 'miss', 'rate', 'rises', 'after', 'release']);
+    index.add('c', ['team', 'meeting', 'moved', 'tuesday']);
+
+    const candidates = index.query(['cache', 'miss', 'rate', 'rises', 'after', 'deploy']);
+
+    expect(candidates.map(candidate => candidate.key)).toEqual(['a', 'b']);
+    expect(candidates[0].estimate).toBe(1);
+    expect(candidates[1].estimate).toBeGreaterThan(0.4);
+
+    index.remove('a');
+    expect(index.query(['cache', 'miss', 'rate', 'rises', 'after', 'deploy']).map(c => c.key)).toEqual(['b']);
+    expect(index.size).toBe(2);
+  });
+});
+
+describe('SimilarityService.findSimilar', () => {
+  it('should return the top matches of a 1000-thought session while scoring only candidates', () => {
+    const service = new SimilarityService();
+    const history = generatedHistory(1000);
+    const words = history[421].split(' ');
+    history[900] = [...words.slice(0, 6), 'unrelated', 'words'].join(' ');
+    const score = jest.spyOn(service, 'calculateSimilarity');
+
+    const matches = service.findSimilar(history[421], history, 2);
+
+    expect(matches[0]).toEqual({ index: 421, score: 1 });
+    expect(matches[1].index).toBe(900);
+    expect(matches[1].score).toBeGreaterThan(0.7);
+    expect(score.mock.calls.length).toBeLessThan(history.length / 10);
+  });
+
+  it('should only index the thoughts added since the last search', () => {
+    const service = new SimilarityService();
+    const history = generatedHistory(1001);
+    const session = history.slice(0, 1000);
+    service.findSimilar(history[1000], session);
+    const lookups = jest.spyOn(MinHashIndex.prototype, 'has');
+
+    session.push(history[1000]);
+    const matches = service.findSimilar(history[421], session, 1);
+
+    expect(matches).toEqual([{ index: 421, score: 1 }]);
+    expect(lookups).toHaveBeenCalledTimes(1);
+    lookups.mockRestore();
+  });
+
+  it('should keep the index once the history is trimmed at its size limit', () => {
+    const service = new SimilarityService();
+    const history = generatedHistory(HISTORY_LIMITS.MAX_HISTORY_SIZE + 3);
+    const session = history.slice(0, HISTORY_LIMITS.MAX_HISTORY_SIZE);
+    service.findSimilar(history[0], session);
+    const lookups = jest.spyOn(MinHashIndex.prototype, 'has');
+    const removals = jest.spyOn(MinHashIndex.prototype, 'remove');
+
+    for (let next = HISTORY_LIMITS.MAX_HISTORY_SIZE; next < history.length; next++) {
+      session.shift();
+      session.push(history[next]);
+      service.findSimilar(history[next], session, 1);
+    }
+
+    // Only the new thoughts are hashed, and the trimmed ones leave the index
+    expect(lookups).toHaveBeenCalledTimes(3);
+    expect(removals.mock.calls.map(([key]) => key)).toEqual(expect.arrayContaining(history.slice(0, 3).map(contentHash)));
+    expect(service.findSimilar(history[421], session, 1)).toEqual([{ index: 418, score: 1 }]);
+    lookups.mockRestore();
+    removals.mockRestore();
+  });
+
+  it('should re-index a history that no longer extends the indexed one', () => {
+    const service = new SimilarityService();
+    const history = generatedHistory(10);
+    service.findSimilar(history[3], history);
+
+    const trimmed = history.slice(2);
+    expect(service.findSimilar(history[3], trimmed, 1)).toEqual([{ index: 1, score: 1 }]);
+
+    const revised = [...trimmed];
+    revised[1] = history[9];
+    expect(service.findSimilar(history[9], revised, 2)).toEqual([
+      { index: 1, score: 1 },
+      { index: 7, score: 1 }
+    ]);
+  });
+
+  it('should keep scores of long texts that share a prefix apart', () => {
+    const service = new SimilarityService();
+    const prefix = 'The checkout service times out under load when the payment provider responds slowly and';
+    const first = `${prefix} retries pile up in the queue`;
+    const second = `${prefix} the database connection pool runs dry`;
+
+    expect(service.calculateSimilarity(first, first)).toBe(1);
+    expect(service.calculateSimilarity(first, second)).toBeLessThan(1);
+  });
+
+  it('should still report repetitive patterns', () => {
+    const service = new SimilarityService();
+    const thought = 'The database index is the cause of the slow checkout queries';
+
+    expect(service.detectPatterns(thought, [thought, thought])).toBe('repetitive_pattern');
+    expect(service.detectPatterns(thought, [thought, 'The team meets on Tuesday to plan the release'])).toBeNull();
+  });
+});
+
+describe('Confirmation bias over the whole session', () => {
+  it('should find repeated conclusions beyond the most recent thoughts', () => {
+    const detector = new BiasDetectorService(new SimilarityService());
+    const repeated = 'The database index is the cause of the slow checkout queries';
+    const history = [
+      createInput(1, 'Checkout latency rose after the release'),
+      createInput(2, repeated),
+      createInput(3, repeated),
+      createInput(4, 'Traffic doubled during the marketing campaign'),
+      createInput(5, 'The payment provider reported no incidents'),
+      createInput(6, 'Cache hit rates stayed flat all week')
+    ];
+
+    const finding = detector.detectBiases(createInput(7, repeated), history)
+      .find(bias => bias.type === 'confirmation bias');
+
+    expect(finding?.relatedThoughts).toEqual([2, 3]);
+  });
+});
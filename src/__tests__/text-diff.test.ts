@@ -0,0 +1,76 @@
+/**
+ * Tests for the word-level text diff
+ */
+
+import { diffWords, formatDiff } from '../utils/text-diff.js';
+
+/**
+ * `count` distinct words with a prefix
+ */
+function words(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`);
+}
+
+describe('diffWords', () => {
+  it('should align changed words and merge adjacent ones', () => {
+    const diff = diffWords(
+      'The cache misses because the TTL is too short',
+      'The cache misses because the key includes a timestamp'
+    );
+
+    expect(diff).toEqual({
+      added: 4,
+      removed: 4,
+      unchanged: 5,
+      segments: [
+        { type: 'equal', text: 'The cache misses because the' },
+        { type: 'removed', text: 'TTL is too short' },
+        { type: 'added', text: 'key includes a timestamp' }
+      ]
+    });
+  });
+
+  it('should keep words common to both sides of a change', () => {
+    const diff = diffWords('retry the upload twice', 'retry only the failed upload');
+
+    expect(formatDiff(diff)).toBe('retry {+only+} the {+failed+} upload [-twice-]');
+    expect([diff.added, diff.removed, diff.unchanged]).toEqual([2, 1, 3]);
+  });
+
+  it('should ignore differences in whitespace', () => {
+    const diff = diffWords('  split\tthe   job ', 'split the\njob');
+
+    expect(diff.segments).toEqual([{ type: 'equal', text: 'split the job' }]);
+  });
+
+  it('should diff against an empty text', () => {
+    expect(diffWords('', 'first draft')).toMatchObject({ added: 2, removed: 0, segments: [{ type: 'added', text: 'first draft' }] });
+    expect(diffWords('first draft', '')).toMatchObject({ added: 0, removed: 2, segments: [{ type: 'removed', text: 'first draft' }] });
+  });
+
+  describe('Large changes', () => {
+    // The middle shares one word, which only the LCS alignment can match
+    const diffMiddle = (size: number) => diffWords(
+      ['start', ...words('x', size), 'shared', 'end'].join(' '),
+      ['start', 'shared', ...words('y', size), 'end'].join(' ')
+    );
+
+    it('should align a middle whose table stays within the cell limit', () => {
+      // (1999 + 1) * (1999 + 1) = 4,000,000 cells
+      const diff = diffMiddle(1998);
+
+      expect(diff.segments.map(segment => segment.type)).toEqual(['equal', 'removed', 'equal', 'added', 'equal']);
+      expect(diff.segments[2].text).toBe('shared');
+      expect([diff.added, diff.removed, diff.unchanged]).toEqual([1998, 1998, 3]);
+    });
+
+    it('should report a larger middle as one removal and one addition', () => {
+      const diff = diffMiddle(1999);
+
+      expect(diff.segments.map(segment => segment.type)).toEqual(['equal', 'removed', 'added', 'equal']);
+      expect(diff.segments[1].text.endsWith('x1998 shared')).toBe(true);
+      expect(diff.segments[2].text.startsWith('shared y0')).toBe(true);
+      expect([diff.added, diff.removed, diff.unchanged]).toEqual([2000, 2000, 2]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for content signals of thought text
+ */
+
+import { analyzeTextSignals } from '../utils/text-signals.js';
+
+describe('analyzeTextSignals', () => {
+  it('should separate evidence and hedging from overclaiming', () => {
+    const grounded = analyzeTextSignals('The data shows p99 latency doubled because the pool is small, so it is likely the cause');
+    const overclaimed = analyzeTextSignals('This is obviously the cause and it will always fail');
+
+    expect(grounded).toMatchObject({ evidence: 2, hedging: 1, overclaiming: 0 });
+    expect(overclaimed).toMatchObject({ evidence: 0, hedging: 0, overclaiming: 2 });
+  });
+
+  it('should count numbers, named entities and code identifiers as specificity', () => {
+    const specific = analyzeTextSignals('Move sessions from Redis to PostgreSQL and call `flushQueue` every 30 s in worker.ts');
+    const vague = analyzeTextSignals('Some parts of the system are slow sometimes');
+
+    expect(specific.specificity).toBe(5);
+    expect(vague.specificity).toBe(0);
+  });
+
+  it('should measure actionable verbs per sentence', () => {
+    const signals = analyzeTextSignals('Deploy the fix. Measure the error rate. The dashboard is noisy. It needs work');
+
+    expect(signals.actionDensity).toBe(0.5);
+  });
+
+  it('should count list items and step markers as structure', () => {
+    const signals = analyzeTextSignals('Plan:\n- add the index\n- backfill rows\n1. then verify counts');
+
+    expect(signals.structure).toBe(4);
+    expect(signals.specificity).toBe(0);
+  });
+
+  it('should analyze Korean text', () => {
+    const signals = analyzeTextSignals(
+      '로그상 오류율이 3배 증가했기 때문에 캐시 설정을 변경해야 합니다. 아마 연결 풀이 원인일 것 같습니다. 다만 롤백 위험이 있습니다.'
+    );
+
+    expect(signals).toMatchObject({
+      language: 'ko',
+      evidence: 2,
+      hedging: 2,
+      overclaiming: 0,
+      nextSteps: 1,
+      considerations: 1,
+      sentences: 3
+    });
+    expect(signals.specificity).toBe(1);
+    expect(signals.actionDensity).toBeCloseTo(0.67);
+  });
+
+  it('should flag Korean overclaiming', () => {
+    const signals = analyzeTextSignals('이 방법이 무조건 맞고 항상 빠릅니다');
+
+    expect(signals.overclaiming).toBe(2);
+  });
+});
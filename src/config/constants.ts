@@ -0,0 +1,48 @@
+/**
+ * Application constants
+ * Tuning values shared by the processor and services
+ */
+
+export const LOGGING = {
+  SEPARATOR: '─',
+  SEPARATOR_LENGTH: 50
+} as const;
+
+export const TEXT_PROCESSING = {
+  LENGTH_RATIO_THRESHOLD: 0.3,  // Texts shorter than this ratio of each other are not similar
+  MIN_TOKEN_LENGTH: 2           // Terms of this length or shorter are ignored
+} as const;
+
+export const PERFORMANCE = {
+  CACHE_SIZE: 100               // Similarity scores kept per service
+} as const;
+
+export const BIAS_THRESHOLDS = {
+  HIGH_CONFIDENCE_THRESHOLD: 0.9, // Confidence above this early on suggests overconfidence
+  PROGRESS_THRESHOLD: 0.7,        // Sunk cost is only considered past this share of the thoughts
+  RECENT_THOUGHTS_COUNT: 3,       // Similar earlier thoughts needed for confirmation bias
+  SIMILARITY_THRESHOLD: 0.8       // Similarity at which a thought counts as a repeat
+} as const;
+
+export const QUALITY_THRESHOLDS = {
+  COMPLETENESS_BASE: 0.7,
+  CONSISTENCY_BASE: 0.7,
+  MIN_QUALITY_SCORE: 0.6,       // Below this the response carries a quality warning
+  OBJECTIVITY_BASE: 0.7,
+  PRACTICALITY_BASE: 0.7
+} as const;
+
+export const HISTORY_LIMITS = {
+  MAX_BRANCHES: 50,
+  MAX_BRANCH_SIZE: 100,
+  MAX_HISTORY_SIZE: 1000
+} as const;
+
+export const META_REASONING = {
+  DEFAULT_CHECKPOINT_FREQUENCY: 25
+} as const;
+
+/**
+ * Session used when a tool call does not specify one
+ */
+export const DEFAULT_SESSION_ID = 'default';
@@ -12,14 +12,56 @@ export interface EnvironmentConfig {
   defaultBudgetMode: 'fast' | 'balanced' | 'thorough' | 'exhaustive';
   metaCheckpointFrequency: number;
   qualityThreshold: number;
+  sequenceValidation: 'strict' | 'lenient' | 'off';
+  budgetEnforcement: 'strict' | 'warn';
+  budgetWarningThresholds: number[];
   debugMode: boolean;
   isProduction: boolean;
+  sessionIdleTimeout: number;
+  maxSessions: number;
+  sessionStoreType: 'memory' | 'file';
+  sessionDirectory?: string;
+  transport: 'stdio' | 'http';
+  httpPort: number;
+  httpHost: string;
+  allowedOrigins: string[];
+  eventStreamEnabled: boolean;
+  eventStreamPort: number;
+  eventStreamHost: string;
+  eventStreamToken?: string;
+  eventReplaySize: number;
+  lexiconDirectory?: string;
+  similarityEngine: 'term' | 'tfidf';
+  similarityFeatures: Array<'idf' | 'ngrams' | 'josa' | 'stopwords'>;
+  similarityNgramSize: number;
+  embeddingMode: 'off' | 'hashed' | 'openai';
+  embeddingUrl: string;
+  embeddingModel?: string;
+  embeddingApiKey?: string;
+  embeddingTimeout: number;
+  cacheL1Size: number;
+  cacheL2Size: number;
+  cacheL3Size: number;
+  cacheL1Bytes: number;
+  cacheL2Bytes: number;
+  cacheL3Bytes: number;
+  cacheMemoryBytes: number;
+  cacheDirectory?: string;
+  cacheEvictionPolicy: 'lru' | 'lfu' | 'fifo' | 'filo' | 'adaptive';
+  cacheTtl: number;
+  cacheCompression: boolean;
 }
 
+const SIMILARITY_FEATURES = ['idf', 'ngrams', 'josa', 'stopwords'] as const;
+const CACHE_POLICIES = ['lru', 'lfu', 'fifo', 'filo', 'adaptive'] as const;
+
 /**
  * Parse environment variables with proper defaults
+ * @param argv - Command line arguments; `--transport`, `--port` and `--host` override the environment
  */
-export function loadEnvironmentConfig(): EnvironmentConfig {
+export function loadEnvironmentConfig(argv: string[] = process.argv.slice(2)): EnvironmentConfig {
+  const cli = parseCliOptions(argv);
+  
   return {
     enableAutoLabeling: parseBoolean(process.env.ULTRA_THINK_AUTO_LABEL, true),
     enableQualityValidation: parseBoolean(process.env.ULTRA_THINK_QUALITY, true),
@@ -29,11 +71,88 @@ export function loadEnvironmentConfig(): EnvironmentConfig {
     defaultBudgetMode: parseBudgetMode(process.env.DEFAULT_BUDGET_MODE),
     metaCheckpointFrequency: parseInt(process.env.META_CHECKPOINT_FREQ || '25', 10),
     qualityThreshold: parseFloat(process.env.QUALITY_THRESHOLD || '0.6'),
+    sequenceValidation: parseSequenceValidation(process.env.ULTRA_THINK_SEQUENCE_VALIDATION),
+    budgetEnforcement: process.env.ULTRA_THINK_BUDGET_ENFORCEMENT === 'strict' ? 'strict' : 'warn',
+    budgetWarningThresholds: parseList(process.env.ULTRA_THINK_BUDGET_WARNINGS || '50,80')
+      .map(percent => parseFloat(percent) / 100),
     debugMode: parseBoolean(process.env.DEBUG_MODE, false),
-    isProduction: process.env.NODE_ENV === 'production'
+    isProduction: process.env.NODE_ENV === 'production',
+    sessionIdleTimeout: parseInt(process.env.ULTRA_THINK_SESSION_IDLE_TIMEOUT || '1800000', 10),
+    maxSessions: parseInt(process.env.ULTRA_THINK_MAX_SESSIONS || '100', 10),
+    sessionStoreType: process.env.ULTRA_THINK_SESSION_STORE === 'file' ? 'file' : 'memory',
+    sessionDirectory: process.env.ULTRA_THINK_SESSION_DIR || undefined,
+    transport: (cli.transport || process.env.ULTRA_THINK_TRANSPORT) === 'http' ? 'http' : 'stdio',
+    httpPort: parseInt(cli.port || process.env.ULTRA_THINK_HTTP_PORT || '3000', 10),
+    httpHost: cli.host || process.env.ULTRA_THINK_HTTP_HOST || '127.0.0.1',
+    allowedOrigins: parseList(process.env.ULTRA_THINK_ALLOWED_ORIGINS),
+    eventStreamEnabled: parseBoolean(process.env.ULTRA_THINK_EVENT_STREAM, false),
+    eventStreamPort: parseInt(process.env.ULTRA_THINK_EVENT_STREAM_PORT || '3001', 10),
+    eventStreamHost: process.env.ULTRA_THINK_EVENT_STREAM_HOST || '127.0.0.1',
+    eventStreamToken: process.env.ULTRA_THINK_EVENT_STREAM_TOKEN || undefined,
+    eventReplaySize: parseInt(process.env.ULTRA_THINK_EVENT_REPLAY || '100', 10),
+    lexiconDirectory: process.env.ULTRA_THINK_LEXICON_DIR || undefined,
+    similarityEngine: process.env.ULTRA_THINK_SIMILARITY === 'tfidf' ? 'tfidf' : 'term',
+    similarityFeatures: parseList(process.env.ULTRA_THINK_SIMILARITY_FEATURES ?? SIMILARITY_FEATURES.join(','))
+      .map(feature => feature.toLowerCase()) as EnvironmentConfig['similarityFeatures'],
+    similarityNgramSize: parseInt(process.env.ULTRA_THINK_SIMILARITY_NGRAM || '3', 10),
+    embeddingMode: parseEmbeddingMode(process.env.ULTRA_THINK_EMBEDDINGS),
+    embeddingUrl: process.env.ULTRA_THINK_EMBEDDINGS_URL || 'http://127.0.0.1:8080/v1',
+    embeddingModel: process.env.ULTRA_THINK_EMBEDDINGS_MODEL || undefined,
+    embeddingApiKey: process.env.ULTRA_THINK_EMBEDDINGS_API_KEY || undefined,
+    embeddingTimeout: parseInt(process.env.ULTRA_THINK_EMBEDDINGS_TIMEOUT || '5000', 10),
+    cacheL1Size: parseInt(process.env.ULTRA_THINK_CACHE_L1_SIZE || '1000', 10),
+    cacheL2Size: parseInt(process.env.ULTRA_THINK_CACHE_L2_SIZE || '5000', 10),
+    cacheL3Size: parseInt(process.env.ULTRA_THINK_CACHE_L3_SIZE || '10000', 10),
+    cacheL1Bytes: parseMegabytes(process.env.ULTRA_THINK_CACHE_L1_MB, 64),
+    cacheL2Bytes: parseMegabytes(process.env.ULTRA_THINK_CACHE_L2_MB, 64),
+    cacheL3Bytes: parseMegabytes(process.env.ULTRA_THINK_CACHE_L3_MB, 512),
+    cacheMemoryBytes: parseMegabytes(process.env.ULTRA_THINK_CACHE_MEMORY_MB, 96),
+    cacheDirectory: process.env.ULTRA_THINK_CACHE_DIR || undefined,
+    cacheEvictionPolicy: (process.env.ULTRA_THINK_CACHE_POLICY || 'lru').toLowerCase() as EnvironmentConfig['cacheEvictionPolicy'],
+    cacheTtl: parseInt(process.env.ULTRA_THINK_CACHE_TTL || '3600000', 10),
+    cacheCompression: parseBoolean(process.env.ULTRA_THINK_CACHE_COMPRESSION, true)
   };
 }
 
+/**
+ * Parse `--name value` / `--name=value` options; `--http` is shorthand for `--transport http`
+ */
+function parseCliOptions(argv: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--http') {
+      options.transport = 'http';
+      continue;
+    }
+    
+    const match = arg.match(/^--(transport|port|host)(?:=(.*))?$/);
+    if (!match) continue;
+    
+    const value = match[2] ?? argv[++i];
+    if (value !== undefined) {
+      options[match[1]] = value;
+    }
+  }
+  
+  return options;
+}
+
+/**
+ * Parse comma-separated list variables
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a size in megabytes into bytes
+ */
+function parseMegabytes(value: string | undefined, defaultValue: number): number {
+  return Math.floor(parseFloat(value || String(defaultValue)) * 1024 * 1024);
+}
+
 /**
  * Parse boolean environment variables
  */
@@ -56,6 +175,22 @@ function parseBudgetMode(value: string | undefined): 'fast' | 'balanced' | 'thor
   return 'balanced';
 }
 
+/**
+ * Parse sequence validation mode; anything unknown falls back to lenient
+ */
+function parseSequenceValidation(value: string | undefined): 'strict' | 'lenient' | 'off' {
+  const mode = value?.toLowerCase();
+  return mode === 'strict' || mode === 'off' ? mode : 'lenient';
+}
+
+/**
+ * Parse the embedding provider; anything unknown turns embeddings off
+ */
+function parseEmbeddingMode(value: string | undefined): 'off' | 'hashed' | 'openai' {
+  const mode = value?.toLowerCase();
+  return mode === 'hashed' || mode === 'openai' ? mode : 'off';
+}
+
 /**
  * Validate configuration values
  */
@@ -70,5 +205,75 @@ export function validateConfig(config: EnvironmentConfig): string[] {
     errors.push('QUALITY_THRESHOLD must be between 0 and 1');
   }
   
+  if (config.budgetWarningThresholds.some(threshold => isNaN(threshold) || threshold <= 0 || threshold > 1)) {
+    errors.push('ULTRA_THINK_BUDGET_WARNINGS must be percentages between 1 and 100');
+  }
+  
+  if (isNaN(config.sessionIdleTimeout) || config.sessionIdleTimeout < 1000) {
+    errors.push('ULTRA_THINK_SESSION_IDLE_TIMEOUT must be at least 1000 ms');
+  }
+  
+  if (isNaN(config.maxSessions) || config.maxSessions < 1) {
+    errors.push('ULTRA_THINK_MAX_SESSIONS must be at least 1');
+  }
+  
+  if (isNaN(config.httpPort) || config.httpPort < 0 || config.httpPort > 65535) {
+    errors.push('ULTRA_THINK_HTTP_PORT must be between 0 and 65535');
+  }
+  
+  if (isNaN(config.eventStreamPort) || config.eventStreamPort < 0 || config.eventStreamPort > 65535) {
+    errors.push('ULTRA_THINK_EVENT_STREAM_PORT must be between 0 and 65535');
+  }
+  
+  if (isNaN(config.eventReplaySize) || config.eventReplaySize < 0) {
+    errors.push('ULTRA_THINK_EVENT_REPLAY must be 0 or more');
+  }
+  
+  const unknownFeatures = config.similarityFeatures.filter(feature => !SIMILARITY_FEATURES.includes(feature));
+  if (unknownFeatures.length > 0) {
+    errors.push(`ULTRA_THINK_SIMILARITY_FEATURES has unknown features: ${unknownFeatures.join(', ')}`);
+  }
+  
+  if (isNaN(config.similarityNgramSize) || config.similarityNgramSize < 2 || config.similarityNgramSize > 5) {
+    errors.push('ULTRA_THINK_SIMILARITY_NGRAM must be between 2 and 5');
+  }
+  
+  if (config.embeddingMode === 'openai' && !config.embeddingModel) {
+    errors.push('ULTRA_THINK_EMBEDDINGS_MODEL is required when ULTRA_THINK_EMBEDDINGS is openai');
+  }
+  
+  if (isNaN(config.embeddingTimeout) || config.embeddingTimeout < 100) {
+    errors.push('ULTRA_THINK_EMBEDDINGS_TIMEOUT must be at least 100 ms');
+  }
+  
+  for (const [name, size] of [
+    ['ULTRA_THINK_CACHE_L1_SIZE', config.cacheL1Size],
+    ['ULTRA_THINK_CACHE_L2_SIZE', config.cacheL2Size],
+    ['ULTRA_THINK_CACHE_L3_SIZE', config.cacheL3Size]
+  ] as const) {
+    if (isNaN(size) || size < 1) {
+      errors.push(`${name} must be at least 1`);
+    }
+  }
+  
+  for (const [name, bytes] of [
+    ['ULTRA_THINK_CACHE_L1_MB', config.cacheL1Bytes],
+    ['ULTRA_THINK_CACHE_L2_MB', config.cacheL2Bytes],
+    ['ULTRA_THINK_CACHE_L3_MB', config.cacheL3Bytes],
+    ['ULTRA_THINK_CACHE_MEMORY_MB', config.cacheMemoryBytes]
+  ] as const) {
+    if (isNaN(bytes) || bytes <= 0) {
+      errors.push(`${name} must be a positive number of megabytes`);
+    }
+  }
+  
+  if (!CACHE_POLICIES.includes(config.cacheEvictionPolicy)) {
+    errors.push(`ULTRA_THINK_CACHE_POLICY must be one of: ${CACHE_POLICIES.join(', ')}`);
+  }
+  
+  if (isNaN(config.cacheTtl) || config.cacheTtl < 1000) {
+    errors.push('ULTRA_THINK_CACHE_TTL must be at least 1000 ms');
+  }
+  
   return errors;
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * Bias mitigation tracking
+ *
+ * @module bias-mitigation
+ * @description Turns detected biases into mitigation prompts and follows them
+ * through the session:
+ * - Each bias found in a thought opens a mitigation with a concrete prompt
+ * - A later thought addresses it by revising or branching from the biased
+ *   thought, or by stating cues that counter the bias, as long as it does not
+ *   repeat the bias itself
+ * - Mitigations no thought addressed within a few thoughts are dropped as unaddressed
+ */
+
+import type { UltraThinkInput, BiasFinding, BiasMitigation, BiasMitigationReport } from '../types/interfaces.js';
+import type { IBiasDetectorService } from './interfaces/index.js';
+
+/**
+ * Later thoughts a mitigation stays open for
+ */
+const DEFAULT_MITIGATION_WINDOW = 5;
+
+/**
+ * Evidence of a finding quoted in its prompt
+ */
+const PROMPT_EVIDENCE = 3;
+
+const DEFAULT_SUGGESTION = '객관적인 관점을 유지하세요.';
+
+/**
+ * Tracks open bias mitigations of one session
+ * @class BiasMitigationTracker
+ * @public
+ */
+export class BiasMitigationTracker {
+  private open: BiasMitigation[] = [];
+
+  constructor(
+    private biasDetector: IBiasDetectorService,
+    private window: number = DEFAULT_MITIGATION_WINDOW
+  ) {}
+
+  /**
+   * Check a thought against the open mitigations and open new ones for its biases
+   * @param {UltraThinkInput} input - The thought just processed
+   * @param {BiasFinding[]} findings - Biases found in it, most confident first
+   * @returns {BiasMitigationReport} Open, corrected and unaddressed mitigations
+   */
+  update(input: UltraThinkInput, findings: BiasFinding[]): BiasMitigationReport {
+    const repeated = new Set(findings.map(finding => finding.type));
+    const corrected: BiasMitigation[] = [];
+    const unaddressed: BiasMitigation[] = [];
+
+    this.open = this.open.filter(mitigation => {
+      if (mitigation.detectedIn === input.thoughtNumber || repeated.has(mitigation.bias)) {
+        return true;
+      }
+
+      const evidence = this.findResolution(mitigation, input);
+      if (evidence.length > 0) {
+        corrected.push({ ...mitigation, status: 'addressed', addressedBy: input.thoughtNumber, evidence });
+        return false;
+      }
+      if (input.thoughtNumber - mitigation.detectedIn >= this.window) {
+        unaddressed.push({ ...mitigation, status: 'unaddressed' });
+        return false;
+      }
+      return true;
+    });
+
+    // A bias that is still open keeps the thought it was first found in
+    let prompt: string | undefined;
+    for (const finding of findings) {
+      const existing = this.open.find(mitigation => mitigation.bias === finding.type);
+      const mitigation = existing ?? {
+        bias: finding.type,
+        detectedIn: input.thoughtNumber,
+        prompt: this.buildPrompt(finding),
+        status: 'open' as const
+      };
+      if (!existing) {
+        this.open.push(mitigation);
+      }
+      prompt ??= mitigation.prompt;
+    }
+
+    return { prompt, open: [...this.open], corrected, unaddressed };
+  }
+
+  /**
+   * Forget all open mitigations
+   */
+  clear(): void {
+    this.open = [];
+  }
+
+  private findResolution(mitigation: BiasMitigation, input: UltraThinkInput): string[] {
+    if (input.isRevision && input.revisesThought === mitigation.detectedIn) {
+      return [`revises thought ${mitigation.detectedIn}`];
+    }
+    if (input.branchFromThought === mitigation.detectedIn) {
+      return [`branches from thought ${mitigation.detectedIn}`];
+    }
+    return this.biasDetector.findMitigationCues?.(mitigation.bias, input.thought) ?? [];
+  }
+
+  private buildPrompt(finding: BiasFinding): string {
+    const suggestion = this.biasDetector.getMitigationSuggestion?.(finding.type) ?? DEFAULT_SUGGESTION;
+    const evidence = finding.evidence.slice(0, PROMPT_EVIDENCE);
+    return evidence.length > 0 ?
+      `${suggestion} (${finding.type}: ${evidence.join(', ')})` :
+      `${suggestion} (${finding.type})`;
+  }
+}
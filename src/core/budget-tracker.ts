@@ -0,0 +1,242 @@
+/**
+ * Per-session budget accounting
+ *
+ * @module budget-tracker
+ * @description Tracks what a reasoning session has consumed against the limits
+ * of its budget mode:
+ * - Thoughts processed, characters of thought text, branches opened, wall-clock time
+ * - Warnings when usage first crosses a configured fraction of a limit
+ * - In strict enforcement, thoughts that would go over a limit are refused
+ *
+ * A session is held to the strictest mode it has asked for, so a later thought
+ * cannot lift the limits by requesting a larger mode. Thoughts that name no mode
+ * keep the session's mode; the default mode only applies until one is set.
+ */
+
+import type {
+  UltraThinkInput,
+  BudgetDimension,
+  BudgetLimits,
+  BudgetUsage,
+  BudgetEnforcement
+} from '../types/interfaces.js';
+import { ResourceError } from './errors.js';
+
+export type BudgetMode = NonNullable<UltraThinkInput['budgetMode']>;
+
+/**
+ * Session limits per budget mode
+ */
+export const BUDGET_LIMITS: Record<BudgetMode, BudgetLimits> = {
+  fast: {
+    maxThoughts: 10,
+    maxCharacters: 20_000,
+    maxBranches: 2,
+    maxDurationMs: 5 * 60 * 1000
+  },
+  balanced: {
+    maxThoughts: 25,
+    maxCharacters: 60_000,
+    maxBranches: 5,
+    maxDurationMs: 20 * 60 * 1000
+  },
+  thorough: {
+    maxThoughts: 50,
+    maxCharacters: 150_000,
+    maxBranches: 10,
+    maxDurationMs: 60 * 60 * 1000
+  },
+  exhaustive: {
+    maxThoughts: 100,
+    maxCharacters: 400_000,
+    maxBranches: 25,
+    maxDurationMs: 3 * 60 * 60 * 1000
+  }
+};
+
+export const DEFAULT_BUDGET_WARNING_THRESHOLDS = [0.5, 0.8];
+
+const DIMENSIONS: BudgetDimension[] = ['thoughts', 'characters', 'branches', 'time'];
+
+/**
+ * Budget modes from strictest to most generous
+ */
+const MODE_ORDER: BudgetMode[] = ['fast', 'balanced', 'thorough', 'exhaustive'];
+
+/**
+ * A warning threshold crossed by a thought
+ */
+export interface BudgetWarning {
+  dimension: BudgetDimension;
+  threshold: number;
+  used: number;
+  limit: number;
+}
+
+/**
+ * Outcome of recording a thought
+ */
+export interface BudgetUpdate {
+  mode: BudgetMode;
+  limits: BudgetLimits;
+  usage: BudgetUsage;
+  warnings: BudgetWarning[];           // Thresholds crossed for the first time
+  exceeded: BudgetDimension[];         // Dimensions over their limit
+  newlyExceeded: BudgetDimension[];    // Dimensions that went over with this thought
+}
+
+/**
+ * Tracks budget usage of one session
+ * @class BudgetTracker
+ * @public
+ */
+export class BudgetTracker {
+  private thoughts = 0;
+  private characters = 0;
+  private branches: Set<string> = new Set();
+  private startedAt?: number;
+  private mode?: BudgetMode;
+  private firedWarnings: Set<string> = new Set();
+  private exceeded: Set<BudgetDimension> = new Set();
+
+  constructor(
+    private enforcement: BudgetEnforcement = 'warn',
+    private warningThresholds: number[] = DEFAULT_BUDGET_WARNING_THRESHOLDS,
+    private now: () => number = Date.now,
+    private defaultMode: BudgetMode = 'balanced'
+  ) {}
+
+  /**
+   * Refuse a thought that would take the session over a limit
+   * @param {BudgetMode} [requested] - Mode the thought asks for, if any
+   * @throws {ResourceError} In strict enforcement, if a limit would be exceeded
+   */
+  check(input: UltraThinkInput, requested?: BudgetMode): void {
+    if (this.enforcement !== 'strict') return;
+
+    const mode = this.resolveMode(requested);
+    const limits = BUDGET_LIMITS[mode];
+    const usage = this.project(input);
+    const over = this.overLimits(usage, limits);
+    if (over.length === 0) return;
+
+    const dimension = over[0];
+    const [, limit] = describe(dimension, usage, limits);
+    throw new ResourceError(
+      `Budget exceeded in '${mode}' mode: ${dimension} limit of ${formatAmount(dimension, limit)} reached. ` +
+        'Conclude with the thoughts so far, or start a new session with a larger budgetMode.',
+      'budget',
+      { mode, dimension, usage, limits }
+    );
+  }
+
+  /**
+   * Count a thought toward the session's usage
+   * @param {BudgetMode} [requested] - Mode the thought asks for, if any
+   * @param {number} [timestamp] - When the thought was made, for thoughts replayed from a store
+   */
+  record(input: UltraThinkInput, requested?: BudgetMode, timestamp?: number): BudgetUpdate {
+    const mode = this.resolveMode(requested);
+    this.mode = mode;
+    const usage = this.project(input);
+    this.startedAt ??= timestamp ?? this.now();
+    this.thoughts = usage.thoughts;
+    this.characters = usage.characters;
+    if (input.branchId) {
+      this.branches.add(input.branchId);
+    }
+
+    const limits = BUDGET_LIMITS[mode];
+    const warnings: BudgetWarning[] = [];
+    for (const dimension of DIMENSIONS) {
+      const [used, limit] = describe(dimension, usage, limits);
+      for (const threshold of this.warningThresholds) {
+        const key = `${dimension}:${threshold}`;
+        if (used >= limit * threshold && !this.firedWarnings.has(key)) {
+          this.firedWarnings.add(key);
+          warnings.push({ dimension, threshold, used, limit });
+        }
+      }
+    }
+
+    const exceeded = this.overLimits(usage, limits);
+    const newlyExceeded = exceeded.filter(dimension => !this.exceeded.has(dimension));
+    newlyExceeded.forEach(dimension => this.exceeded.add(dimension));
+
+    return { mode, limits, usage, warnings, exceeded, newlyExceeded };
+  }
+
+  /**
+   * Current usage
+   */
+  getUsage(): BudgetUsage {
+    return {
+      thoughts: this.thoughts,
+      characters: this.characters,
+      branches: this.branches.size,
+      elapsedMs: this.startedAt !== undefined ? this.now() - this.startedAt : 0
+    };
+  }
+
+  /**
+   * Start accounting over
+   */
+  reset(): void {
+    this.thoughts = 0;
+    this.characters = 0;
+    this.branches.clear();
+    this.startedAt = undefined;
+    this.mode = undefined;
+    this.firedWarnings.clear();
+    this.exceeded.clear();
+  }
+
+  /**
+   * The stricter of the session's mode and the requested one
+   */
+  private resolveMode(requested?: BudgetMode): BudgetMode {
+    if (!requested) return this.mode ?? this.defaultMode;
+    if (!this.mode) return requested;
+    return MODE_ORDER.indexOf(requested) < MODE_ORDER.indexOf(this.mode) ? requested : this.mode;
+  }
+
+  /**
+   * Usage as it would be after the thought
+   */
+  private project(input: UltraThinkInput): BudgetUsage {
+    const newBranch = input.branchId !== undefined && !this.branches.has(input.branchId);
+    return {
+      thoughts: this.thoughts + 1,
+      characters: this.characters + input.thought.length,
+      branches: this.branches.size + (newBranch ? 1 : 0),
+      elapsedMs: this.startedAt !== undefined ? this.now() - this.startedAt : 0
+    };
+  }
+
+  private overLimits(usage: BudgetUsage, limits: BudgetLimits): BudgetDimension[] {
+    return DIMENSIONS.filter(dimension => {
+      const [used, limit] = describe(dimension, usage, limits);
+      return used > limit;
+    });
+  }
+}
+
+/**
+ * Render a usage amount for messages; time is shown in minutes
+ */
+export function formatAmount(dimension: BudgetDimension, value: number): string {
+  return dimension === 'time' ? `${Math.round(value / 60000)} min` : String(value);
+}
+
+function describe(dimension: BudgetDimension, usage: BudgetUsage, limits: BudgetLimits): [number, number] {
+  switch (dimension) {
+    case 'thoughts':
+      return [usage.thoughts, limits.maxThoughts];
+    case 'characters':
+      return [usage.characters, limits.maxCharacters];
+    case 'branches':
+      return [usage.branches, limits.maxBranches];
+    case 'time':
+      return [usage.elapsedMs, limits.maxDurationMs];
+  }
+}
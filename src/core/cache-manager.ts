@@ -8,18 +8,21 @@
  * - L3: Disk cache (cold data)
  * - Intelligent eviction policies
  * - Cache warming and prediction
+ * - Namespaces, so services can share one cache without key clashes
+ * - Entry and byte limits per level, and a memory ceiling for L1 and L2
  */
 
 import { createHash } from 'crypto';
 import * as zlib from 'zlib';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { EventBus } from './event-bus.js';
+import { EventBus, EventNames } from './event-bus.js';
 import { Logger } from '../utils/logger.js';
 import { promisify } from 'util';
 
 const gzip = promisify(zlib.gzip);
 const gunzip = promisify(zlib.gunzip);
+const MB = 1024 * 1024;
 
 /**
  * Cache priority levels
@@ -53,9 +56,12 @@ interface CacheEntry<T> {
   created: number;
   accessed: number;
   hits: number;
+  used: number;             // Logical time of the last access, for recency policies
+  inserted: number;         // Logical time the entry entered its level, for FIFO/FILO
   ttl?: number;
   compressed?: Buffer;
   level: 'l1' | 'l2' | 'l3';
+  stored: number;           // Bytes counted for the entry in its level
 }
 
 /**
@@ -65,13 +71,17 @@ export interface CacheConfig {
   maxL1Size: number;        // Max items in L1
   maxL2Size: number;        // Max items in L2
   maxL3Size: number;        // Max items in L3 (disk)
+  maxL1Bytes: number;       // Max serialized bytes in L1
+  maxL2Bytes: number;       // Max bytes in L2, compressed entries at their compressed size
+  maxL3Bytes: number;       // Max bytes of L3 files
+  maxMemoryBytes: number;   // Ceiling for L1 and L2 together; above it entries are demoted
   l3Directory: string;      // Directory for L3 cache
   compressionThreshold: number; // Compress items larger than this
   evictionPolicy: EvictionPolicyType;
   defaultTtl: number;       // Default TTL in ms
   enableDiskCache: boolean;
   enableCompression: boolean;
-  maintenanceInterval: number; // Maintenance run interval
+  maintenanceInterval: number; // Maintenance run interval; 0 disables it
   accessPatternWindowSize: number; // For adaptive eviction
   predictiveCaching: boolean;
 }
@@ -93,6 +103,28 @@ export interface CacheStats {
   hitRate: number;
   avgAccessTime: number;
   avgCompressionRatio: number;
+  bytes: TierBytes;
+  namespaces: Record<string, NamespaceStats>;
+}
+
+/**
+ * Bytes held per level: serialized size in L1, stored (possibly compressed)
+ * size in L2, file size in L3
+ */
+export interface TierBytes {
+  l1: number;
+  l2: number;
+  l3: number;
+}
+
+/**
+ * Statistics of one namespace
+ */
+export interface NamespaceStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;          // Across all levels
 }
 
 /**
@@ -105,30 +137,42 @@ interface EvictionPolicy<T> {
   getName(): string;
 }
 
+/**
+ * Oldest entry by an order field, skipping high-priority entries
+ */
+function selectOldest<T>(
+  entries: Map<string, CacheEntry<T>>,
+  order: (entry: CacheEntry<T>) => number
+): string | null {
+  let oldest = Infinity;
+  let victimKey: string | null = null;
+
+  for (const [key, entry] of entries) {
+    if (entry.priority < CachePriority.HIGH && order(entry) < oldest) {
+      oldest = order(entry);
+      victimKey = key;
+    }
+  }
+
+  return victimKey;
+}
+
 /**
  * LRU eviction policy
  */
 class LRUPolicy<T> implements EvictionPolicy<T> {
+  private clock = 0;
+
   onAccess(entry: CacheEntry<T>): void {
-    entry.accessed = Date.now();
+    entry.used = ++this.clock;
   }
 
   onAdd(entry: CacheEntry<T>): void {
-    entry.accessed = Date.now();
+    entry.used = ++this.clock;
   }
 
   selectVictim(entries: Map<string, CacheEntry<T>>): string | null {
-    let oldestTime = Infinity;
-    let victimKey: string | null = null;
-
-    for (const [key, entry] of entries) {
-      if (entry.priority < CachePriority.HIGH && entry.accessed < oldestTime) {
-        oldestTime = entry.accessed;
-        victimKey = key;
-      }
-    }
-
-    return victimKey;
+    return selectOldest(entries, entry => entry.used);
   }
 
   getName(): string {
@@ -146,7 +190,8 @@ class LFUPolicy<T> implements EvictionPolicy<T> {
   }
 
   onAdd(entry: CacheEntry<T>): void {
-    entry.hits = 1;
+    // Promoted entries keep their count
+    entry.hits = Math.max(entry.hits, 1);
     entry.accessed = Date.now();
   }
 
@@ -169,18 +214,148 @@ class LFUPolicy<T> implements EvictionPolicy<T> {
   }
 }
 
+/**
+ * FIFO eviction policy; evicts the entry that entered the level first
+ */
+class FIFOPolicy<T> implements EvictionPolicy<T> {
+  private clock = 0;
+
+  onAccess(): void {}
+
+  onAdd(entry: CacheEntry<T>): void {
+    entry.inserted = ++this.clock;
+  }
+
+  selectVictim(entries: Map<string, CacheEntry<T>>): string | null {
+    return selectOldest(entries, entry => entry.inserted);
+  }
+
+  getName(): string {
+    return 'FIFO';
+  }
+}
+
+/**
+ * FILO eviction policy; evicts the entry that entered the level last, so
+ * the first entries stay put while a working set larger than the level cycles
+ */
+class FILOPolicy<T> implements EvictionPolicy<T> {
+  private clock = 0;
+
+  onAccess(): void {}
+
+  onAdd(entry: CacheEntry<T>): void {
+    entry.inserted = ++this.clock;
+  }
+
+  selectVictim(entries: Map<string, CacheEntry<T>>): string | null {
+    return selectOldest(entries, entry => -entry.inserted);
+  }
+
+  getName(): string {
+    return 'FILO';
+  }
+}
+
+/**
+ * Adaptive (ARC-style) eviction policy
+ *
+ * Entries not hit since they were added form the recency list, entries hit
+ * at least once the frequency list. Evicted keys are remembered as ghosts,
+ * up to `accessPatternWindowSize` per list. A ghost that comes back means
+ * its list was evicted too early, so the target share of the recency list
+ * moves toward that list: scans stay in the recency list and cannot push
+ * out frequent entries, while a shifted working set can replace them.
+ */
+class AdaptivePolicy<T> implements EvictionPolicy<T> {
+  private clock = 0;
+  private recencyShare = 0; // Target share of the recency list (0-1)
+  private recentGhosts: Set<string> = new Set();
+  private frequentGhosts: Set<string> = new Set();
+
+  /**
+   * @param {number} capacity - Entries in the level; each ghost hit moves the target by one entry
+   * @param {number} windowSize - Ghosts remembered per list
+   */
+  constructor(
+    private readonly capacity: number,
+    private readonly windowSize: number
+  ) {}
+
+  onAccess(entry: CacheEntry<T>): void {
+    entry.used = ++this.clock;
+  }
+
+  onAdd(entry: CacheEntry<T>): void {
+    entry.used = ++this.clock;
+
+    const step = 1 / this.capacity;
+    if (this.recentGhosts.has(entry.key)) {
+      this.recencyShare = Math.min(1, this.recencyShare + step * Math.max(1, this.frequentGhosts.size / this.recentGhosts.size));
+    } else if (this.frequentGhosts.has(entry.key)) {
+      this.recencyShare = Math.max(0, this.recencyShare - step * Math.max(1, this.recentGhosts.size / this.frequentGhosts.size));
+    } else {
+      return;
+    }
+
+    // A returning key has been seen twice, so it joins the frequency list
+    this.recentGhosts.delete(entry.key);
+    this.frequentGhosts.delete(entry.key);
+    entry.hits = Math.max(entry.hits, 1);
+  }
+
+  selectVictim(entries: Map<string, CacheEntry<T>>): string | null {
+    let recent: CacheEntry<T> | undefined;
+    let frequent: CacheEntry<T> | undefined;
+    let recentCount = 0;
+
+    for (const entry of entries.values()) {
+      if (entry.priority >= CachePriority.HIGH) continue;
+
+      if (entry.hits === 0) {
+        recentCount++;
+        if (!recent || entry.used < recent.used) recent = entry;
+      } else if (!frequent || entry.used < frequent.used) {
+        frequent = entry;
+      }
+    }
+
+    const victim = recent && (!frequent || recentCount > this.recencyShare * entries.size) ? recent : frequent;
+    if (!victim) return null;
+
+    this.remember(victim.hits === 0 ? this.recentGhosts : this.frequentGhosts, victim.key);
+    return victim.key;
+  }
+
+  getName(): string {
+    return 'ADAPTIVE';
+  }
+
+  private remember(ghosts: Set<string>, key: string): void {
+    ghosts.delete(key);
+    ghosts.add(key);
+    if (ghosts.size > this.windowSize) {
+      const [oldest] = ghosts;
+      ghosts.delete(oldest);
+    }
+  }
+}
+
 /**
  * Advanced cache manager implementation
  */
 export class CacheManager<T = any> {
   private l1Cache: Map<string, CacheEntry<T>> = new Map();
   private l2Cache: Map<string, CacheEntry<T>> = new Map();
-  private l3Index: Map<string, string> = new Map(); // key -> file path
+  private l3Index: Map<string, { path: string; bytes: number }> = new Map();
+  private bytes: TierBytes = { l1: 0, l2: 0, l3: 0 };
   
   private config: CacheConfig;
   private logger?: Logger;
   private eventBus?: EventBus;
-  private evictionPolicy: EvictionPolicy<T>;
+  // Each level learns from its own traffic
+  private l1Policy: EvictionPolicy<T>;
+  private l2Policy: EvictionPolicy<T>;
   
   private stats = {
     totalHits: 0,
@@ -199,6 +374,7 @@ export class CacheManager<T = any> {
   private compressionRatios: number[] = [];
   private maintenanceTimer?: NodeJS.Timeout;
   private predictiveCache: Map<string, number> = new Map(); // Pattern -> score
+  private namespaceCounts: Map<string, { hits: number; misses: number }> = new Map();
 
   constructor(
     config: Partial<CacheConfig> = {},
@@ -209,13 +385,17 @@ export class CacheManager<T = any> {
       maxL1Size: config.maxL1Size || 1000,
       maxL2Size: config.maxL2Size || 5000,
       maxL3Size: config.maxL3Size || 10000,
+      maxL1Bytes: config.maxL1Bytes || 64 * MB,
+      maxL2Bytes: config.maxL2Bytes || 64 * MB,
+      maxL3Bytes: config.maxL3Bytes || 512 * MB,
+      maxMemoryBytes: config.maxMemoryBytes || 96 * MB, // Leaves heap headroom in a 512MB container
       l3Directory: config.l3Directory || './cache',
       compressionThreshold: config.compressionThreshold || 1024, // 1KB
       evictionPolicy: config.evictionPolicy || EvictionPolicyType.LRU,
       defaultTtl: config.defaultTtl || 3600000, // 1 hour
       enableDiskCache: config.enableDiskCache !== false,
       enableCompression: config.enableCompression !== false,
-      maintenanceInterval: config.maintenanceInterval || 300000, // 5 minutes
+      maintenanceInterval: config.maintenanceInterval ?? 300000, // 5 minutes
       accessPatternWindowSize: config.accessPatternWindowSize || 1000,
       predictiveCaching: config.predictiveCaching || false
     };
@@ -223,8 +403,9 @@ export class CacheManager<T = any> {
     this.logger = logger;
     this.eventBus = eventBus;
     
-    // Initialize eviction policy
-    this.evictionPolicy = this.createEvictionPolicy(this.config.evictionPolicy);
+    // Initialize eviction policies
+    this.l1Policy = this.createEvictionPolicy(this.config.evictionPolicy, this.config.maxL1Size);
+    this.l2Policy = this.createEvictionPolicy(this.config.evictionPolicy, this.config.maxL2Size);
 
     // Start maintenance timer
     this.startMaintenance();
@@ -254,35 +435,41 @@ export class CacheManager<T = any> {
     entry = this.l2Cache.get(key);
     if (entry && !this.isExpired(entry)) {
       // Decompress if needed
+      let value = entry.value;
       if (entry.compressed) {
-        const value = await this.decompress(entry);
-        entry.value = value;
-        delete entry.compressed;
+        value = await this.decompress(entry);
         this.stats.decompressions++;
       }
 
-      // Promote to L1
-      this.promoteToL1(entry);
+      // Promote to L1, unless the entry alone exceeds its byte limit
+      if (this.fitsL1(entry)) {
+        entry.value = value;
+        delete entry.compressed;
+        await this.promoteToL1(entry);
+      }
       this.recordHit(entry, 'l2', Date.now() - startTime);
-      return entry.value;
+      return value;
     }
 
     // Check L3
     if (this.config.enableDiskCache) {
-      const diskPath = this.l3Index.get(key);
-      if (diskPath) {
+      const diskEntry = this.l3Index.get(key);
+      if (diskEntry) {
         try {
-          const value = await this.loadFromDisk(diskPath);
+          const value = await this.loadFromDisk(diskEntry.path);
           if (value) {
-            // Create entry and promote to L1
+            // Create entry and promote to L1; entries too large for L1 stay on disk
             entry = this.createEntry(key, value.data, value.priority);
-            this.promoteToL1(entry);
+            entry.level = 'l3';
+            if (this.fitsL1(entry)) {
+              await this.promoteToL1(entry);
+            }
             this.recordHit(entry, 'l3', Date.now() - startTime);
             return value.data;
           }
         } catch (error) {
           this.logger?.error(`Failed to load from disk: ${key}`, error as Error);
-          this.l3Index.delete(key);
+          this.unindexDisk(key);
         }
       }
     }
@@ -292,6 +479,56 @@ export class CacheManager<T = any> {
     return null;
   }
 
+  /**
+   * Get value from memory without waiting, for callers that cannot await
+   *
+   * Reads L1 and uncompressed L2 entries; compressed and disk entries count as misses.
+   */
+  getSync(key: string): T | null {
+    const startTime = Date.now();
+    const entry = this.l1Cache.get(key) ?? this.l2Cache.get(key);
+    
+    if (entry && !entry.compressed && !this.isExpired(entry)) {
+      const level = entry.level as 'l1' | 'l2';
+      if (level === 'l2' && this.fitsL1(entry)) {
+        this.promoteToL1(entry).catch(error => {
+          this.logger?.error(`Failed to promote cache entry: ${key}`, error as Error);
+        });
+      }
+      this.recordHit(entry, level, Date.now() - startTime);
+      return entry.value;
+    }
+    
+    this.recordMiss(key, Date.now() - startTime);
+    return null;
+  }
+
+  /**
+   * View of this cache whose keys are prefixed with `<name>:`
+   * @param {string} name - Namespace, e.g. the name of the service using it
+   */
+  namespace<V extends T = T>(name: string): CacheNamespace<V> {
+    if (!name || name.includes(':')) {
+      throw new Error(`Invalid cache namespace: '${name}'`);
+    }
+    return new CacheNamespace<V>(this as unknown as CacheManager<V>, name);
+  }
+
+  /**
+   * Delete every entry of a namespace
+   */
+  async clearNamespace(name: string): Promise<void> {
+    const prefix = `${name}:`;
+    const keys = new Set([...this.l1Cache.keys(), ...this.l2Cache.keys(), ...this.l3Index.keys()]);
+    
+    for (const key of keys) {
+      if (key.startsWith(prefix)) {
+        await this.delete(key);
+      }
+    }
+    this.namespaceCounts.delete(name);
+  }
+
   /**
    * Set value in cache
    */
@@ -303,12 +540,19 @@ export class CacheManager<T = any> {
   ): Promise<void> {
     const entry = this.createEntry(key, value, priority, ttl);
     
-    // Add to L1
-    this.l1Cache.set(key, entry);
-    this.evictionPolicy.onAdd(entry);
-    
-    // Trigger eviction if needed
-    await this.enforceL1Size();
+    if (this.fitsL1(entry)) {
+      // Add to L1
+      this.storeEntry('l1', entry);
+      this.l1Policy.onAdd(entry);
+      
+      // Trigger eviction if needed
+      await this.enforceL1Size();
+    } else {
+      // Larger than L1 can hold; L2 may still take it compressed
+      this.removeEntry('l1', key);
+      await this.demoteToL2(entry);
+    }
+    await this.enforceMemoryCeiling();
     
     // Update predictive cache
     if (this.config.predictiveCaching) {
@@ -325,15 +569,15 @@ export class CacheManager<T = any> {
     let deleted = false;
     
     // Remove from all levels
-    if (this.l1Cache.delete(key)) deleted = true;
-    if (this.l2Cache.delete(key)) deleted = true;
+    if (this.removeEntry('l1', key)) deleted = true;
+    if (this.removeEntry('l2', key)) deleted = true;
     
     // Remove from disk
-    const diskPath = this.l3Index.get(key);
-    if (diskPath) {
+    const diskEntry = this.l3Index.get(key);
+    if (diskEntry) {
       try {
-        await fs.unlink(diskPath);
-        this.l3Index.delete(key);
+        await fs.unlink(diskEntry.path);
+        this.unindexDisk(key);
         deleted = true;
       } catch (error) {
         this.logger?.error(`Failed to delete from disk: ${key}`, error as Error);
@@ -342,7 +586,7 @@ export class CacheManager<T = any> {
     
     if (deleted) {
       this.logger?.debug(`Cache delete: ${key}`);
-      this.eventBus?.emit('cache:delete', { key });
+      this.eventBus?.emit(EventNames.CACHE_DELETED, { key });
     }
     
     return deleted;
@@ -354,20 +598,26 @@ export class CacheManager<T = any> {
   async clear(): Promise<void> {
     this.l1Cache.clear();
     this.l2Cache.clear();
+    this.bytes.l1 = 0;
+    this.bytes.l2 = 0;
     
     // Clear disk cache
     if (this.config.enableDiskCache) {
-      for (const [key, filePath] of this.l3Index) {
+      for (const [key, diskEntry] of this.l3Index) {
         try {
-          await fs.unlink(filePath);
+          await fs.unlink(diskEntry.path);
         } catch (error) {
           this.logger?.error(`Failed to delete disk cache: ${key}`, error as Error);
         }
       }
       this.l3Index.clear();
+      this.bytes.l3 = 0;
     }
     
-    // Reset stats
+    // Reset stats and what the eviction policies learned
+    this.l1Policy = this.createEvictionPolicy(this.config.evictionPolicy, this.config.maxL1Size);
+    this.l2Policy = this.createEvictionPolicy(this.config.evictionPolicy, this.config.maxL2Size);
+    this.namespaceCounts.clear();
     this.stats = {
       totalHits: 0,
       totalMisses: 0,
@@ -382,7 +632,7 @@ export class CacheManager<T = any> {
     };
     
     this.logger?.info('Cache cleared');
-    this.eventBus?.emit('cache:clear', {});
+    this.eventBus?.emit(EventNames.CACHE_CLEARED, {});
   }
 
   /**
@@ -404,10 +654,32 @@ export class CacheManager<T = any> {
       ...this.stats,
       hitRate,
       avgAccessTime,
-      avgCompressionRatio
+      avgCompressionRatio,
+      bytes: { ...this.bytes },
+      namespaces: this.getNamespaceStats()
     };
   }
 
+  /**
+   * Hits, misses and entries per namespace
+   */
+  private getNamespaceStats(): Record<string, NamespaceStats> {
+    const namespaces: Record<string, NamespaceStats> = {};
+    const stats = (name: string) => namespaces[name] ??= { hits: 0, misses: 0, hitRate: 0, entries: 0 };
+    
+    for (const [name, counts] of this.namespaceCounts) {
+      Object.assign(stats(name), counts, { hitRate: counts.hits / (counts.hits + counts.misses) });
+    }
+    for (const key of [...this.l1Cache.keys(), ...this.l2Cache.keys(), ...this.l3Index.keys()]) {
+      const name = namespaceOf(key);
+      if (name) {
+        stats(name).entries++;
+      }
+    }
+    
+    return namespaces;
+  }
+
   /**
    * Warm cache with predicted keys
    */
@@ -457,6 +729,9 @@ export class CacheManager<T = any> {
       created: Date.now(),
       accessed: Date.now(),
       hits: 0,
+      used: 0,
+      inserted: 0,
+      stored: 0,
       ttl: ttl || this.config.defaultTtl,
       level: 'l1'
     };
@@ -479,7 +754,10 @@ export class CacheManager<T = any> {
     entry.hits++;
     entry.accessed = Date.now();
     
-    this.evictionPolicy.onAccess(entry);
+    if (entry.level !== 'l3') {
+      this.policyOf(entry.level).onAccess(entry);
+    }
+    this.countNamespace(entry.key, 'hits');
     this.accessTimes.push(accessTime);
     
     // Keep only recent access times
@@ -487,7 +765,7 @@ export class CacheManager<T = any> {
       this.accessTimes.shift();
     }
     
-    this.eventBus?.emit('cache:hit', { key: entry.key, level });
+    this.eventBus?.emit(EventNames.CACHE_HIT, { key: entry.key, hit: true, level });
   }
 
   /**
@@ -495,13 +773,26 @@ export class CacheManager<T = any> {
    */
   private recordMiss(key: string, accessTime: number): void {
     this.stats.totalMisses++;
+    this.countNamespace(key, 'misses');
     this.accessTimes.push(accessTime);
     
     if (this.accessTimes.length > this.config.accessPatternWindowSize) {
       this.accessTimes.shift();
     }
     
-    this.eventBus?.emit('cache:miss', { key });
+    this.eventBus?.emit(EventNames.CACHE_MISS, { key, hit: false });
+  }
+
+  private countNamespace(key: string, outcome: 'hits' | 'misses'): void {
+    const name = namespaceOf(key);
+    if (!name) return;
+    
+    let counts = this.namespaceCounts.get(name);
+    if (!counts) {
+      counts = { hits: 0, misses: 0 };
+      this.namespaceCounts.set(name, counts);
+    }
+    counts[outcome]++;
   }
 
   /**
@@ -510,51 +801,75 @@ export class CacheManager<T = any> {
   private async promoteToL1(entry: CacheEntry<T>): Promise<void> {
     // Remove from current level
     if (entry.level === 'l2') {
-      this.l2Cache.delete(entry.key);
+      this.removeEntry('l2', entry.key);
     } else if (entry.level === 'l3') {
-      const diskPath = this.l3Index.get(entry.key);
+      const diskPath = this.unindexDisk(entry.key);
       if (diskPath) {
         try {
           await fs.unlink(diskPath);
         } catch (error) {
           // Ignore errors
         }
-        this.l3Index.delete(entry.key);
       }
     }
     
     // Add to L1
-    entry.level = 'l1';
-    this.l1Cache.set(entry.key, entry);
-    this.evictionPolicy.onAdd(entry);
+    this.storeEntry('l1', entry);
+    this.l1Policy.onAdd(entry);
     
     // Enforce size limit
     await this.enforceL1Size();
+    await this.enforceMemoryCeiling();
+  }
+
+  /**
+   * Whether an entry could be held in L1 at all
+   */
+  private fitsL1(entry: CacheEntry<T>): boolean {
+    return entry.size <= this.config.maxL1Bytes;
   }
 
   /**
-   * Enforce L1 cache size limit
+   * Enforce L1 cache entry and byte limits
    */
   private async enforceL1Size(): Promise<void> {
-    while (this.l1Cache.size > this.config.maxL1Size) {
-      const victimKey = this.evictionPolicy.selectVictim(this.l1Cache);
-      if (!victimKey) break;
-      
-      const victim = this.l1Cache.get(victimKey)!;
-      this.l1Cache.delete(victimKey);
-      
-      // Demote to L2
-      await this.demoteToL2(victim);
-      this.stats.evictions++;
+    while (this.l1Cache.size > this.config.maxL1Size || this.bytes.l1 > this.config.maxL1Bytes) {
+      if (!(await this.demoteFromL1())) break;
+    }
+  }
+
+  /**
+   * Keep L1 and L2 together under the memory ceiling
+   *
+   * L2 holds the colder entries, so it gives way first; L1 entries are then
+   * demoted, which compresses the large ones.
+   */
+  private async enforceMemoryCeiling(): Promise<void> {
+    while (this.bytes.l1 + this.bytes.l2 > this.config.maxMemoryBytes) {
+      if (!(await this.evictFromL2()) && !(await this.demoteFromL1())) break;
     }
   }
 
+  /**
+   * Demote the eviction policy's L1 victim to L2
+   * @returns {Promise<boolean>} False if L1 has nothing to evict
+   */
+  private async demoteFromL1(): Promise<boolean> {
+    const victimKey = this.selectVictim('l1');
+    if (!victimKey) return false;
+    
+    const victim = this.removeEntry('l1', victimKey)!;
+    
+    // Demote to L2
+    await this.demoteToL2(victim);
+    this.stats.evictions++;
+    return true;
+  }
+
   /**
    * Demote entry to L2
    */
   private async demoteToL2(entry: CacheEntry<T>): Promise<void> {
-    entry.level = 'l2';
-    
     // Compress if needed
     if (this.config.enableCompression && entry.size > this.config.compressionThreshold) {
       const compressed = await this.compress(entry.value);
@@ -566,35 +881,82 @@ export class CacheManager<T = any> {
         this.compressionRatios.shift();
       }
       
-      // @ts-ignore - intentionally deleting value
+      // @ts-expect-error - intentionally deleting value
       delete entry.value; // Remove uncompressed value
       this.stats.compressions++;
     }
     
-    this.l2Cache.set(entry.key, entry);
+    this.storeEntry('l2', entry);
+    this.l2Policy.onAdd(entry);
     
     // Enforce L2 size limit
     await this.enforceL2Size();
   }
 
   /**
-   * Enforce L2 cache size limit
+   * Enforce L2 cache entry and byte limits
    */
   private async enforceL2Size(): Promise<void> {
-    while (this.l2Cache.size > this.config.maxL2Size) {
-      const victimKey = this.evictionPolicy.selectVictim(this.l2Cache);
-      if (!victimKey) break;
-      
-      const victim = this.l2Cache.get(victimKey)!;
-      this.l2Cache.delete(victimKey);
-      
-      // Demote to L3 if disk cache is enabled
-      if (this.config.enableDiskCache) {
-        await this.demoteToL3(victim);
+    while (this.l2Cache.size > this.config.maxL2Size || this.bytes.l2 > this.config.maxL2Bytes) {
+      if (!(await this.evictFromL2())) break;
+    }
+  }
+
+  /**
+   * Move the eviction policy's L2 victim to disk, or drop it without a disk cache
+   * @returns {Promise<boolean>} False if L2 has nothing to evict
+   */
+  private async evictFromL2(): Promise<boolean> {
+    const victimKey = this.selectVictim('l2');
+    if (!victimKey) return false;
+    
+    const victim = this.removeEntry('l2', victimKey)!;
+    
+    // Demote to L3 if disk cache is enabled
+    if (this.config.enableDiskCache) {
+      await this.demoteToL3(victim);
+    }
+    
+    this.stats.evictions++;
+    return true;
+  }
+
+  /**
+   * Key to evict from an in-memory level
+   *
+   * With predictive caching, the level's policy chooses among the entries of
+   * the key pattern with the lowest predicted score, moving on to the next
+   * pattern only if none of those can be evicted.
+   */
+  private selectVictim(level: 'l1' | 'l2'): string | null {
+    const entries = level === 'l1' ? this.l1Cache : this.l2Cache;
+    const policy = this.policyOf(level);
+    if (!this.config.predictiveCaching) {
+      return policy.selectVictim(entries);
+    }
+
+    const byPattern = new Map<string, Map<string, CacheEntry<T>>>();
+    for (const [key, entry] of entries) {
+      const pattern = predictivePattern(key);
+      let group = byPattern.get(pattern);
+      if (!group) {
+        group = new Map();
+        byPattern.set(pattern, group);
       }
-      
-      this.stats.evictions++;
+      group.set(key, entry);
+    }
+
+    const score = (pattern: string) => this.predictiveCache.get(pattern) || 0;
+    const patterns = Array.from(byPattern.keys()).sort((a, b) => score(a) - score(b));
+    for (const pattern of patterns) {
+      const victimKey = policy.selectVictim(byPattern.get(pattern)!);
+      if (victimKey) return victimKey;
     }
+    return null;
+  }
+
+  private policyOf(level: 'l1' | 'l2'): EvictionPolicy<T> {
+    return level === 'l1' ? this.l1Policy : this.l2Policy;
   }
 
   /**
@@ -615,8 +977,12 @@ export class CacheManager<T = any> {
         compressed: !!entry.compressed
       };
       
-      await fs.writeFile(filePath, JSON.stringify(data));
-      this.l3Index.set(entry.key, filePath);
+      const content = JSON.stringify(data);
+      const bytes = Buffer.byteLength(content);
+      await fs.writeFile(filePath, content);
+      this.unindexDisk(entry.key);
+      this.l3Index.set(entry.key, { path: filePath, bytes });
+      this.bytes.l3 += bytes;
       this.stats.diskWrites++;
       
       // Enforce L3 size limit
@@ -627,13 +993,13 @@ export class CacheManager<T = any> {
   }
 
   /**
-   * Enforce L3 cache size limit
+   * Enforce L3 cache entry and byte limits
    */
   private async enforceL3Size(): Promise<void> {
-    while (this.l3Index.size > this.config.maxL3Size) {
+    while (this.l3Index.size > this.config.maxL3Size || this.bytes.l3 > this.config.maxL3Bytes) {
       // Remove oldest entry (simple FIFO for disk)
       const [oldestKey] = this.l3Index.keys();
-      const filePath = this.l3Index.get(oldestKey)!;
+      const filePath = this.unindexDisk(oldestKey)!;
       
       try {
         await fs.unlink(filePath);
@@ -641,11 +1007,48 @@ export class CacheManager<T = any> {
         // Ignore errors
       }
       
-      this.l3Index.delete(oldestKey);
       this.stats.evictions++;
     }
   }
 
+  /**
+   * Put an entry in an in-memory level, replacing any entry with its key
+   */
+  private storeEntry(level: 'l1' | 'l2', entry: CacheEntry<T>): void {
+    this.removeEntry(level, entry.key);
+    
+    entry.level = level;
+    entry.stored = entry.compressed ? entry.compressed.length : entry.size;
+    (level === 'l1' ? this.l1Cache : this.l2Cache).set(entry.key, entry);
+    this.bytes[level] += entry.stored;
+  }
+
+  /**
+   * Take an entry out of an in-memory level
+   */
+  private removeEntry(level: 'l1' | 'l2', key: string): CacheEntry<T> | undefined {
+    const cache = level === 'l1' ? this.l1Cache : this.l2Cache;
+    const entry = cache.get(key);
+    if (entry) {
+      cache.delete(key);
+      this.bytes[level] -= entry.stored;
+    }
+    return entry;
+  }
+
+  /**
+   * Take a key out of the disk index; the file is left to the caller
+   * @returns {string | undefined} Path of the key's file
+   */
+  private unindexDisk(key: string): string | undefined {
+    const diskEntry = this.l3Index.get(key);
+    if (diskEntry) {
+      this.l3Index.delete(key);
+      this.bytes.l3 -= diskEntry.bytes;
+    }
+    return diskEntry?.path;
+  }
+
   /**
    * Load entry from disk
    */
@@ -711,14 +1114,20 @@ export class CacheManager<T = any> {
   }
 
   /**
-   * Create eviction policy
+   * Create the eviction policy of a level holding up to `capacity` entries
    */
-  private createEvictionPolicy(type: EvictionPolicyType): EvictionPolicy<T> {
+  private createEvictionPolicy(type: EvictionPolicyType, capacity: number): EvictionPolicy<T> {
     switch (type) {
       case EvictionPolicyType.LRU:
         return new LRUPolicy<T>();
       case EvictionPolicyType.LFU:
         return new LFUPolicy<T>();
+      case EvictionPolicyType.FIFO:
+        return new FIFOPolicy<T>();
+      case EvictionPolicyType.FILO:
+        return new FILOPolicy<T>();
+      case EvictionPolicyType.ADAPTIVE:
+        return new AdaptivePolicy<T>(capacity, this.config.accessPatternWindowSize);
       default:
         return new LRUPolicy<T>();
     }
@@ -728,11 +1137,16 @@ export class CacheManager<T = any> {
    * Start maintenance timer
    */
   private startMaintenance(): void {
+    if (this.config.maintenanceInterval <= 0) return;
+    
     this.maintenanceTimer = setInterval(() => {
       this.runMaintenance().catch(error => {
         this.logger?.error('Maintenance error', error as Error);
       });
     }, this.config.maintenanceInterval);
+    
+    // Maintenance alone should not keep the process alive
+    this.maintenanceTimer.unref();
   }
 
   /**
@@ -761,26 +1175,26 @@ export class CacheManager<T = any> {
     // Clean L1
     for (const [key, entry] of this.l1Cache) {
       if (this.isExpired(entry)) {
-        this.l1Cache.delete(key);
+        this.removeEntry('l1', key);
       }
     }
     
     // Clean L2
     for (const [key, entry] of this.l2Cache) {
       if (this.isExpired(entry)) {
-        this.l2Cache.delete(key);
+        this.removeEntry('l2', key);
       }
     }
     
     // Clean L3
-    for (const [key, filePath] of this.l3Index) {
+    for (const [key, diskEntry] of this.l3Index) {
       try {
-        const data = await this.loadFromDisk(filePath);
+        const data = await this.loadFromDisk(diskEntry.path);
         if (!data) {
-          this.l3Index.delete(key);
+          this.unindexDisk(key);
         }
       } catch (error) {
-        this.l3Index.delete(key);
+        this.unindexDisk(key);
       }
     }
   }
@@ -789,8 +1203,7 @@ export class CacheManager<T = any> {
    * Update predictive cache based on access patterns
    */
   private updatePredictiveCache(key: string): void {
-    // Extract pattern from key (e.g., prefix)
-    const pattern = key.split(':')[0];
+    const pattern = predictivePattern(key);
     const score = this.predictiveCache.get(pattern) || 0;
     this.predictiveCache.set(pattern, score + 1);
   }
@@ -821,4 +1234,54 @@ export class CacheManager<T = any> {
       this.logger?.error('Failed to clear cache on destroy', error as Error);
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Cache manager view for one service; keys are prefixed with the namespace
+ */
+export class CacheNamespace<V> {
+  constructor(
+    private readonly manager: CacheManager<V>,
+    readonly name: string
+  ) {}
+
+  get(key: string): Promise<V | null> {
+    return this.manager.get(this.key(key));
+  }
+
+  getSync(key: string): V | null {
+    return this.manager.getSync(this.key(key));
+  }
+
+  set(key: string, value: V, priority?: CachePriority, ttl?: number): Promise<void> {
+    return this.manager.set(this.key(key), value, priority, ttl);
+  }
+
+  delete(key: string): Promise<boolean> {
+    return this.manager.delete(this.key(key));
+  }
+
+  clear(): Promise<void> {
+    return this.manager.clearNamespace(this.name);
+  }
+
+  getStats(): NamespaceStats {
+    return this.manager.getStats().namespaces[this.name] ?? { hits: 0, misses: 0, hitRate: 0, entries: 0 };
+  }
+
+  private key(key: string): string {
+    return `${this.name}:${key}`;
+  }
+}
+
+/**
+ * Key pattern scored by predictive caching: the part before the first ':'
+ */
+function predictivePattern(key: string): string {
+  return key.split(':')[0];
+}
+
+function namespaceOf(key: string): string | undefined {
+  const separator = key.indexOf(':');
+  return separator > 0 ? key.substring(0, separator) : undefined;
+}
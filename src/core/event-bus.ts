@@ -4,7 +4,7 @@
  */
 
 export interface EventHandler<T = any> {
-  (data: T): void | Promise<void>;
+  (data: T, event: string): void | Promise<void>;
 }
 
 export interface EventOptions {
@@ -32,7 +32,7 @@ export class EventBus {
     
     // Handle wildcard subscriptions
     if (event.includes('*')) {
-      const pattern = new RegExp('^' + event.replace(/\*/g, '.*') + '$');
+      const pattern = createEventPattern(event);
       this.wildcardHandlers.push({ pattern, wrapper });
       
       // Return unsubscribe function
@@ -106,7 +106,7 @@ export class EventBus {
     
     allHandlers.forEach(wrapper => {
       try {
-        wrapper.handler(data);
+        wrapper.handler(data, event);
         
         // Remove once handlers
         if (wrapper.options.once) {
@@ -143,7 +143,7 @@ export class EventBus {
     await Promise.all(
       allHandlers.map(async wrapper => {
         try {
-          await wrapper.handler(data);
+          await wrapper.handler(data, event);
           
           // Mark once handlers for removal
           if (wrapper.options.once) {
@@ -204,13 +204,23 @@ export class EventBus {
   }
 }
 
+/**
+ * Compile an event name pattern where '*' matches any run of characters
+ */
+export function createEventPattern(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp('^' + escaped.join('.*') + '$');
+}
+
 // Event type definitions
 export interface ThoughtProcessingEvent {
+  sessionId?: string;
   input: any;
   timestamp: Date;
 }
 
 export interface ThoughtProcessedEvent {
+  sessionId?: string;
   input: any;
   response: any;
   processingTime: number;
@@ -218,20 +228,59 @@ export interface ThoughtProcessedEvent {
 }
 
 export interface QualityWarningEvent {
+  sessionId?: string;
   score: any;
   threshold: number;
   thoughtNumber: number;
 }
 
+export interface QualityTrendEvent {
+  sessionId?: string;
+  thoughtNumber: number;
+  score: any;
+  trend: any;
+}
+
 export interface BiasDetectedEvent {
+  sessionId?: string;
   biasType: string;
   thoughtNumber: number;
   confidence: number;
+  biases: any[];
+}
+
+export interface BiasCorrectedEvent {
+  sessionId?: string;
+  biasType: string;
+  thoughtNumber: number;        // Thought that addressed the bias
+  detectedIn: number;           // Thought the bias was found in
+  evidence: string[];
+}
+
+export interface MetaCheckpointEvent {
+  sessionId?: string;
+  thoughtNumber: number;
+  progress: number;
+  recommendation: string;
+  report: any;
 }
 
 export interface CacheEvent {
   key: string;
   hit: boolean;
+  level?: string;
+}
+
+export interface SessionEvent {
+  sessionId: string;
+  reason?: string;
+}
+
+export interface BranchesConvergedEvent {
+  sessionId?: string;
+  branchIds: string[];
+  recommendedBranch: string;
+  thoughtNumber: number;
 }
 
 // Event name constants
@@ -244,6 +293,7 @@ export const EventNames = {
   // Quality events
   QUALITY_WARNING: 'quality.warning',
   QUALITY_IMPROVED: 'quality.improved',
+  QUALITY_REGRESSED: 'quality.regressed',
   
   // Bias events
   BIAS_DETECTED: 'bias.detected',
@@ -252,8 +302,12 @@ export const EventNames = {
   // Cache events
   CACHE_HIT: 'cache.hit',
   CACHE_MISS: 'cache.miss',
+  CACHE_DELETED: 'cache.deleted',
   CACHE_CLEARED: 'cache.cleared',
   
+  // Branch events
+  BRANCHES_CONVERGED: 'branch.converged',
+  
   // Meta reasoning events
   META_CHECKPOINT: 'meta.checkpoint',
   META_COMPLETED: 'meta.completed',
@@ -275,6 +329,13 @@ export const EventNames = {
   PROCESSOR_INITIALIZED: 'processor.initialized',
   PROCESSOR_SHUTDOWN: 'processor.shutdown',
   
+  // Session events
+  SESSION_CREATED: 'session.created',
+  SESSION_EXPIRED: 'session.expired',
+  SESSION_CLOSED: 'session.closed',
+  SESSION_RESTORED: 'session.restored',
+  SESSION_RESET: 'session.reset',
+  
   // Batch processing events
   BATCH_COMPLETED: 'batch.completed',
   
@@ -0,0 +1,373 @@
+/**
+ * Live WebSocket stream of reasoning events
+ *
+ * @module event-stream
+ * @description Forwards EventBus events to WebSocket clients as JSON, with:
+ * - Shared-token authentication (`Authorization: Bearer <token>` or `?token=`)
+ * - Per-client filters on session ids and event-name patterns (`thought.*`)
+ * - Replay of the last N buffered events for late subscribers
+ * - Heartbeats that drop dead connections
+ *
+ * Cache hit/miss events are not streamed; they fire on every similarity lookup
+ * and would push the reasoning events out of the replay buffer.
+ *
+ * Clients connect to `ws://host:port/events?sessionId=a,b&events=thought.*,bias.*&replay=20`
+ * and may change their filter later by sending
+ * `{ "type": "subscribe", "sessionIds": [...], "events": [...], "replay": 20 }`.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { EventBus, createEventPattern } from './event-bus.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Event stream configuration
+ */
+export interface EventStreamConfig {
+  port: number;
+  host: string;
+  path: string;             // Upgrade path, e.g. '/events'
+  token?: string;           // Shared secret; connections are unauthenticated without it
+  replaySize: number;       // Events kept for replay
+  heartbeatMs: number;      // Ping interval
+}
+
+/**
+ * Event as sent to clients
+ */
+export interface StreamedEvent {
+  type: 'event';
+  id: number;
+  event: string;
+  sessionId?: string;
+  timestamp: string;
+  data: unknown;
+  replay?: boolean;
+}
+
+interface StreamFilter {
+  sessionIds: string[];     // Empty matches every session
+  events: string[];         // Empty matches every event
+  patterns: RegExp[];
+}
+
+interface StreamClient {
+  socket: WebSocket;
+  filter: StreamFilter;
+  alive: boolean;
+}
+
+/**
+ * Skip clients whose send buffer grows beyond this many bytes
+ */
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+/**
+ * Events that are never buffered or streamed
+ */
+const EXCLUDED_EVENTS = [createEventPattern('cache.*')];
+
+/**
+ * WebSocket server that streams EventBus activity
+ * @class EventStreamServer
+ * @public
+ */
+export class EventStreamServer {
+  private config: EventStreamConfig;
+  private httpServer?: HttpServer;
+  private wss?: WebSocketServer;
+  private clients: Set<StreamClient> = new Set();
+  private buffer: StreamedEvent[] = [];
+  private nextId = 1;
+  private unsubscribe?: () => void;
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates a new EventStreamServer
+   * @param {EventBus} eventBus - Source of the streamed events
+   * @param {Partial<EventStreamConfig>} [config] - Listener, auth and replay settings
+   * @param {Logger} [logger] - Optional logger
+   */
+  constructor(
+    private eventBus: EventBus,
+    config: Partial<EventStreamConfig> = {},
+    private logger?: Logger
+  ) {
+    this.config = {
+      port: config.port ?? 3001,
+      host: config.host || '127.0.0.1',
+      path: config.path || '/events',
+      token: config.token || undefined,
+      replaySize: config.replaySize ?? 100,
+      heartbeatMs: config.heartbeatMs || 30000
+    };
+  }
+
+  /**
+   * Start listening and forwarding events
+   * @returns {Promise<number>} The bound port
+   */
+  async start(): Promise<number> {
+    if (!this.config.token) {
+      this.logger?.warn('[EventStream] No token configured; any client that can reach the port may connect');
+    }
+
+    this.httpServer = createHttpServer((_req, res) => {
+      res.writeHead(426, { 'Content-Type': 'text/plain' }).end('Upgrade Required');
+    });
+    this.wss = new WebSocketServer({ noServer: true });
+
+    this.httpServer.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (url.pathname !== this.config.path) {
+        socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+        return;
+      }
+
+      if (!this.isAuthorized(req, url)) {
+        this.logger?.warn('[EventStream] Rejected unauthorized connection');
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        return;
+      }
+
+      this.wss!.handleUpgrade(req, socket, head, ws => this.addClient(ws, url));
+    });
+
+    this.unsubscribe = this.eventBus.on('*', (data, event) => this.publish(event, data));
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.config.port, this.config.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.startHeartbeat();
+
+    const address = this.httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : this.config.port;
+    this.logger?.info(`[EventStream] Streaming events on ws://${this.config.host}:${port}${this.config.path}`);
+    return port;
+  }
+
+  /**
+   * Disconnect all clients and stop listening
+   */
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+
+    for (const client of this.clients) {
+      client.socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+
+    this.wss?.close();
+    if (this.httpServer) {
+      await new Promise<void>(resolve => {
+        this.httpServer!.close(() => resolve());
+        this.httpServer!.closeAllConnections();
+      });
+    }
+  }
+
+  /**
+   * Number of connected clients
+   */
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Buffer an event and send it to every matching client
+   */
+  private publish(event: string, data: unknown): void {
+    if (EXCLUDED_EVENTS.some(pattern => pattern.test(event))) return;
+
+    const streamed: StreamedEvent = {
+      type: 'event',
+      id: this.nextId++,
+      event,
+      sessionId: getSessionId(data),
+      timestamp: new Date().toISOString(),
+      data
+    };
+
+    if (this.config.replaySize > 0) {
+      this.buffer.push(streamed);
+      if (this.buffer.length > this.config.replaySize) {
+        this.buffer.shift();
+      }
+    }
+
+    if (this.clients.size === 0) return;
+
+    const message = serialize(streamed);
+    for (const client of this.clients) {
+      if (matches(client.filter, streamed) && client.socket.bufferedAmount < MAX_BUFFERED_BYTES) {
+        client.socket.send(message);
+      }
+    }
+  }
+
+  /**
+   * Register a connection and replay buffered events
+   */
+  private addClient(socket: WebSocket, url: URL): void {
+    const client: StreamClient = {
+      socket,
+      filter: parseFilter(url.searchParams.get('sessionId'), url.searchParams.get('events')),
+      alive: true
+    };
+    this.clients.add(client);
+    this.logger?.debug('[EventStream] Client connected', { clients: this.clients.size });
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+    socket.on('message', raw => this.handleMessage(client, raw.toString()));
+    socket.on('close', () => {
+      this.clients.delete(client);
+      this.logger?.debug('[EventStream] Client disconnected', { clients: this.clients.size });
+    });
+    socket.on('error', error => {
+      this.logger?.debug('[EventStream] Client error', { error: error.message });
+    });
+
+    this.replay(client, parseInt(url.searchParams.get('replay') || '0', 10));
+  }
+
+  /**
+   * Apply a filter change sent by the client
+   */
+  private handleMessage(client: StreamClient, raw: string): void {
+    let message: { type?: string; sessionIds?: unknown; events?: unknown; replay?: unknown };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      client.socket.send(JSON.stringify({ type: 'error', message: 'Invalid JSON' }));
+      return;
+    }
+
+    if (message.type !== 'subscribe') {
+      client.socket.send(JSON.stringify({ type: 'error', message: `Unknown message type: ${message.type}` }));
+      return;
+    }
+
+    client.filter = parseFilter(toList(message.sessionIds), toList(message.events));
+    this.replay(client, typeof message.replay === 'number' ? message.replay : 0);
+  }
+
+  /**
+   * Send the most recent buffered events matching the client's filter
+   */
+  private replay(client: StreamClient, count: number): void {
+    const matching = count > 0 ? this.buffer.filter(event => matches(client.filter, event)).slice(-count) : [];
+
+    client.socket.send(JSON.stringify({
+      type: 'subscribed',
+      sessionIds: client.filter.sessionIds,
+      events: client.filter.events,
+      replayed: matching.length
+    }));
+
+    for (const event of matching) {
+      client.socket.send(serialize({ ...event, replay: true }));
+    }
+  }
+
+  /**
+   * Check the shared token in constant time
+   */
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    if (!this.config.token) return true;
+
+    const header = req.headers.authorization;
+    const provided = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : url.searchParams.get('token');
+    if (!provided) return false;
+
+    const expected = Buffer.from(this.config.token);
+    const actual = Buffer.from(provided);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Ping clients periodically and terminate the ones that stopped answering
+   */
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      for (const client of this.clients) {
+        if (!client.alive) {
+          client.socket.terminate();
+          this.clients.delete(client);
+          continue;
+        }
+        client.alive = false;
+        client.socket.ping();
+      }
+    }, this.config.heartbeatMs);
+
+    // Do not keep the process alive just for the heartbeat
+    this.heartbeatTimer.unref();
+  }
+}
+
+function parseFilter(sessionIds: string | string[] | null, events: string | string[] | null): StreamFilter {
+  const eventList = toList(events);
+  return {
+    sessionIds: toList(sessionIds),
+    events: eventList,
+    patterns: eventList.map(createEventPattern)
+  };
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string' && item.length > 0);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+function matches(filter: StreamFilter, event: StreamedEvent): boolean {
+  if (filter.sessionIds.length > 0 && (!event.sessionId || !filter.sessionIds.includes(event.sessionId))) {
+    return false;
+  }
+  return filter.patterns.length === 0 || filter.patterns.some(pattern => pattern.test(event.event));
+}
+
+function getSessionId(data: unknown): string | undefined {
+  const sessionId = (data as { sessionId?: unknown } | null)?.sessionId;
+  return typeof sessionId === 'string' ? sessionId : undefined;
+}
+
+/**
+ * Serialize an event, tolerating payloads that are not plain JSON
+ */
+function serialize(event: StreamedEvent): string {
+  try {
+    return JSON.stringify(event, (_key, value) => {
+      if (value instanceof Error) {
+        return { name: value.name, message: value.message };
+      }
+      if (value instanceof Map) {
+        return Object.fromEntries(value);
+      }
+      return value;
+    });
+  } catch {
+    // Circular payload; keep the envelope so the client still sees the event
+    return JSON.stringify({ ...event, data: null });
+  }
+}
@@ -3,7 +3,15 @@
  * Handles all response formatting and presentation logic
  */
 
-import { UltraThinkResponse, QualityScore } from '../types/interfaces.js';
+import {
+  UltraThinkResponse,
+  QualityScore,
+  QualityTrend,
+  BiasFinding,
+  RevisionInfo,
+  MetaCheckpointReport,
+  BudgetStatus
+} from '../types/interfaces.js';
 import { QUALITY_THRESHOLDS } from '../config/constants.js';
 
 export class Formatter {
@@ -35,6 +43,11 @@ export class Formatter {
       sections.push(this.formatQualityScore(metadata.qualityScore));
     }
     
+    // Quality trend, once there is something to compare
+    if (metadata.qualityTrend && metadata.qualityTrend.samples > 1) {
+      sections.push(this.formatQualityTrend(metadata.qualityTrend));
+    }
+    
     // Budget status
     if (metadata.budgetStatus) {
       sections.push(this.formatBudgetStatus(metadata.budgetStatus));
@@ -50,11 +63,39 @@ export class Formatter {
       sections.push(`🔍 Confidence: ${(metadata.confidence * 100).toFixed(0)}%`);
     }
     
-    // Bias warning
-    if (metadata.biasDetected) {
+    // Bias warning, with what triggered each finding
+    if (metadata.biases && metadata.biases.length > 0) {
+      sections.push(...metadata.biases.map(bias => this.formatBias(bias)));
+    } else if (metadata.biasDetected) {
       sections.push(`⚠️ Bias Detected: ${metadata.biasDetected}`);
     }
     
+    // Biases of earlier thoughts that this one addressed or that went unaddressed
+    if (metadata.biasMitigation) {
+      sections.push(...metadata.biasMitigation.corrected.map(mitigation =>
+        `✅ Bias Addressed: ${mitigation.bias} from thought ${mitigation.detectedIn}` +
+        (mitigation.evidence?.length ? ` - ${mitigation.evidence.join(', ')}` : '')
+      ));
+      sections.push(...metadata.biasMitigation.unaddressed.map(mitigation =>
+        `⚠️ Bias Unaddressed: ${mitigation.bias} from thought ${mitigation.detectedIn} - ${mitigation.prompt}`
+      ));
+    }
+    
+    // Revision chain
+    if (metadata.revision) {
+      sections.push(this.formatRevision(metadata.revision));
+    }
+    
+    // Meta-reasoning checkpoint
+    if (metadata.metaCheckpoint) {
+      sections.push(this.formatMetaCheckpoint(metadata.metaCheckpoint));
+    }
+    
+    // Sequence warnings
+    if (metadata.validationWarnings) {
+      sections.push(...metadata.validationWarnings.map(warning => `⚠️ Sequence: ${warning}`));
+    }
+    
     return sections.join('\n');
   }
 
@@ -74,12 +115,118 @@ export class Formatter {
     return output;
   }
 
+  /**
+   * Format a bias finding with its confidence, evidence and related thoughts
+   */
+  private static formatBias(bias: BiasFinding): string {
+    let output = `⚠️ Bias Detected: ${bias.type} (${(bias.confidence * 100).toFixed(0)}%)`;
+    
+    if (bias.evidence.length > 0) {
+      output += ` - ${bias.evidence.join(', ')}`;
+    }
+    if (bias.relatedThoughts.length > 0) {
+      output += ` [thoughts ${bias.relatedThoughts.join(', ')}]`;
+    }
+    
+    return output;
+  }
+
+  /**
+   * Format quality trend as a sparkline with moving average and slope
+   */
+  private static formatQualityTrend(trend: QualityTrend): string {
+    const icon = trend.direction === 'declining' ? '📉' : '📈';
+    const slope = `${trend.slope >= 0 ? '+' : ''}${trend.slope.toFixed(2)}/thought`;
+    let output = `${icon} Trend: ${trend.sparkline} avg ${(trend.movingAverage * 100).toFixed(0)}%, ` +
+      `${trend.direction} (${slope})`;
+    
+    const declining = Object.entries(trend.dimensions)
+      .filter(([, dimension]) => dimension.direction === 'declining')
+      .map(([name]) => name);
+    if (declining.length > 0) {
+      output += `; declining: ${declining.join(', ')}`;
+    }
+    
+    if (trend.change === 'regressed') {
+      output += ' (⚠️ Sharp drop)';
+    } else if (trend.change === 'improved') {
+      output += ' (✅ Recovered)';
+    }
+    
+    return output;
+  }
+
+  /**
+   * Format revision summary and stale thoughts
+   */
+  private static formatRevision(revision: RevisionInfo): string {
+    let output = `✏️ Revision: v${revision.version} of thought ${revision.originalThought} ` +
+      `(+${revision.diff.added}/-${revision.diff.removed} words)`;
+    
+    if (revision.possiblyStale.length > 0) {
+      const thoughts = revision.possiblyStale.map(stale => stale.thoughtNumber).join(', ');
+      output += `\n⏳ Possibly stale: ${thoughts}`;
+    }
+    
+    return output;
+  }
+
+  /**
+   * Format meta-reasoning checkpoint report
+   */
+  private static formatMetaCheckpoint(report: MetaCheckpointReport): string {
+    const lines = [
+      `🧠 Meta Checkpoint (${Math.round(report.progress * 100)}%): ${report.recommendation} - ${report.rationale}`
+    ];
+    
+    const trend = report.qualityTrend;
+    if (trend.scores.length > 0) {
+      lines.push(`   Quality trend: ${trend.scores.map(score => score.toFixed(2)).join(' → ')} (${trend.direction})`);
+    }
+    
+    if (report.biases.length > 0) {
+      lines.push(`   Biases: ${report.biases.map(bias => `${bias.type} ×${bias.count}`).join(', ')}`);
+    }
+    
+    if (report.branchCoverage.branchCount > 0) {
+      const branches = report.branchCoverage.branches
+        .map(branch => `${branch.branchId}: ${branch.thoughtCount}`)
+        .join(', ');
+      lines.push(`   Branches: ${report.branchCoverage.branchCount} (${branches})`);
+    }
+    
+    for (const open of report.openQuestions) {
+      lines.push(`   Open question (#${open.thoughtNumber}): ${open.question}`);
+    }
+    
+    return lines.join('\n');
+  }
+
   /**
    * Format budget status
    */
-  private static formatBudgetStatus(budgetStatus: { used: number; total: number; efficiency: string }): string {
+  private static formatBudgetStatus(budgetStatus: BudgetStatus): string {
     const percentage = ((budgetStatus.used / budgetStatus.total) * 100).toFixed(0);
-    return `💰 Budget: ${budgetStatus.used}/${budgetStatus.total} (${percentage}% - ${budgetStatus.efficiency} mode)`;
+    let output = `💰 Budget: ${budgetStatus.used}/${budgetStatus.total} (${percentage}% - ${budgetStatus.efficiency} mode)`;
+    
+    // Session accounting against the budget mode's limits
+    const { usage, limits } = budgetStatus;
+    if (usage && limits) {
+      output += `\n   Session: ${usage.thoughts}/${limits.maxThoughts} thoughts, ` +
+        `${usage.characters}/${limits.maxCharacters} chars, ` +
+        `${usage.branches}/${limits.maxBranches} branches, ` +
+        `${Math.round(usage.elapsedMs / 60000)}/${Math.round(limits.maxDurationMs / 60000)} min`;
+    }
+    
+    for (const warning of budgetStatus.warnings || []) {
+      output += `\n   ⚠️ ${warning}`;
+    }
+    
+    if (budgetStatus.exceeded && budgetStatus.exceeded.length > 0) {
+      output += `\n   ⛔ Over budget: ${budgetStatus.exceeded.join(', ')}`;
+    }
+    
+    return output;
   }
 
   /**
@@ -5,6 +5,7 @@
 
 import type { EventBus } from '../event-bus.js';
 import type { Logger } from '../../utils/logger.js';
+import type { UltraThinkInput, ResponseMetadata, QualityScore, BiasFinding, SimilarityMatch } from '../../types/interfaces.js';
 
 // Service registration interfaces
 export interface IServiceContainer {
@@ -49,6 +50,16 @@ export interface IPluginManager {
   initialize(): Promise<void>;
   shutdown(): Promise<void>;
   executeHook<T>(hookName: string, input: T): Promise<T>;
+  notifyHook<K extends keyof PluginNotifications>(hookName: K, ...args: PluginNotifications[K]): Promise<void>;
+}
+
+/**
+ * Hooks that notify plugins without expecting a result, and their arguments
+ */
+export interface PluginNotifications {
+  onBiasDetected: [biasType: string, input: UltraThinkInput, biases: BiasFinding[]];
+  onMetaCheckpoint: [progress: number, input: UltraThinkInput];
+  onBudgetWarning: [used: number, total: number];
 }
 
 // Metrics interfaces
@@ -65,18 +76,52 @@ export interface IMetricsCollector {
 export interface ISimilarityService {
   calculateSimilarity(text1: string, text2: string): number;
   detectPatterns(text: string, history: string[]): string | null;
+  extractKeyTerms(text: string, limit?: number): string[];
+  findSimilar(text: string, history: string[], limit?: number, minScore?: number): SimilarityMatch[];
+  prepare?(texts: string[]): Promise<void>;
+  addDocument?(text: string): void;
+  resetDocuments?(): void;
+}
+
+/**
+ * Turns texts into vectors for semantic similarity
+ */
+export interface IEmbeddingProvider {
+  readonly name: string;        // Distinguishes cached vectors of different models
+  embed(texts: string[]): Promise<number[][]>;
 }
 
 export interface IBiasDetectorService {
-  detectBias(thought: string, history: string[]): string | null;
+  detectBiases(input: UltraThinkInput, history: UltraThinkInput[]): BiasFinding[];
+  getMitigationSuggestion?(biasType: string): string;
+  findMitigationCues?(biasType: string, thought: string): string[];
 }
 
 export interface IQualityMetricsService {
-  calculateQuality(thought: string, metadata?: any): {
-    overall: number;
-    consistency: number;
-    completeness: number;
-    objectivity: number;
-    practicality: number;
-  };
-}
\ No newline at end of file
+  calculateQuality(input: UltraThinkInput, history: UltraThinkInput[]): QualityScore;
+  getImprovementSuggestion?(metrics: QualityScore['metrics']): string;
+}
+// Session persistence interfaces
+export interface SessionRecord {
+  input: UltraThinkInput;
+  metadata?: ResponseMetadata;
+  timestamp: number;
+}
+
+export interface SessionManifest {
+  sessionId: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  recordCount: number;
+  lastThoughtNumber: number;
+}
+
+export interface ISessionStore {
+  append(sessionId: string, record: SessionRecord): Promise<void>;
+  load(sessionId: string): Promise<SessionRecord[]>;
+  getManifest(sessionId: string): Promise<SessionManifest | null>;
+  list(): Promise<string[]>;
+  delete(sessionId: string): Promise<boolean>;
+  flush(): Promise<void>;
+}
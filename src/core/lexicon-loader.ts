@@ -0,0 +1,64 @@
+/**
+ * Lexicon override loading
+ *
+ * @module lexicon-loader
+ * @description Reads lexicon overrides from a config directory at startup:
+ * - One `<name>.json` file per override, naming its `language` and `version`
+ * - Every list or table an override gives replaces the built-in one
+ * - Invalid JSON, unknown keys, bad patterns or two overrides of one language fail startup
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LexiconOverrideSchema } from '../types/schemas.js';
+import type { LexiconOverride } from '../types/schemas.js';
+import { LexiconService } from '../services/lexicon.service.js';
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Create the lexicon service from the built-in lexicons and the overrides in a directory
+ * @param {string} [directory] - Directory of override files; built-ins only if omitted
+ * @returns {LexiconService} Validated lexicons
+ * @throws {ConfigurationError} If the directory or an override cannot be used
+ */
+export function loadLexicons(directory?: string): LexiconService {
+  if (!directory) {
+    return new LexiconService();
+  }
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read lexicon directory '${directory}'`, { error });
+  }
+
+  const overrides: LexiconOverride[] = [];
+  for (const file of files) {
+    const override = readOverride(path.join(directory, file));
+    const duplicate = overrides.find(existing => existing.language === override.language);
+    if (duplicate) {
+      throw new ConfigurationError(`Lexicon '${file}' overrides '${override.language}' a second time`);
+    }
+    overrides.push(override);
+  }
+
+  return new LexiconService(overrides);
+}
+
+function readOverride(file: string): LexiconOverride {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(`Cannot parse lexicon '${path.basename(file)}'`, { error });
+  }
+
+  const result = LexiconOverrideSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ConfigurationError(`Invalid lexicon '${path.basename(file)}': ${issues.join('; ')}`, { issues });
+  }
+
+  return result.data;
+}
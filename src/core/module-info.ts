@@ -13,12 +13,20 @@ export const MODULE_INFO = {
   // Public exports - what can be accessed from outside this module
   publicExports: [
     'event-bus',
+    'event-stream',
     'errors',
     'validator',
+    'sequence-validator',
+    'budget-tracker',
+    'quality-trend',
+    'bias-mitigation',
+    'lexicon-loader',
     'formatter',
     'plugin-system',
     'processor',
     'processor-factory',
+    'session-manager',
+    'session-store',
     'cache-manager',
     'processing-pipeline',
     'pipeline-stages'
@@ -26,7 +34,8 @@ export const MODULE_INFO = {
   
   // Internal modules - what should not be accessed directly from outside
   internalModules: [
-    'interfaces'
+    'interfaces',
+    'revision-tracker'
   ],
   
   // Dependencies - what this module depends on
@@ -48,7 +57,8 @@ export const MODULE_INFO = {
       'chalk',
       'zod',
       'winston',
-      'eventemitter3'
+      'eventemitter3',
+      'ws'
     ]
   },
   
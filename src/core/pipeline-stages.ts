@@ -8,12 +8,19 @@
 import { BasePipelineStage, ProcessingContext } from './processing-pipeline.js';
 import { EventBus, EventNames } from './event-bus.js';
 import { IPluginManager } from './interfaces/index.js';
-import { IBiasDetectorService, IQualityMetricsService } from './interfaces/index.js';
+import { IBiasDetectorService, IQualityMetricsService, ISimilarityService } from './interfaces/index.js';
 import { Formatter } from './formatter.js';
 import { Logger } from '../utils/logger.js';
-import type { UltraThinkInput, QualityScore } from '../types/interfaces.js';
+import type { UltraThinkInput, ResponseMetadata, ThoughtRecord } from '../types/interfaces.js';
 import type { IMetricsCollector } from './interfaces/index.js';
 import { QueryRewritingService } from '../services/query-rewriting.service.js';
+import type { MetaReasoningService } from '../services/meta-reasoning.service.js';
+import type { RevisionTracker } from './revision-tracker.js';
+import type { QualityTrendTracker } from './quality-trend.js';
+import type { BiasMitigationTracker } from './bias-mitigation.js';
+import type { SequenceValidator, SequenceState } from './sequence-validator.js';
+import { BudgetTracker, formatAmount } from './budget-tracker.js';
+import { ValidationError, ResourceError, ErrorCodes } from './errors.js';
 
 /**
  * Initialize processing stage
@@ -29,6 +36,7 @@ export class InitializeStage extends BasePipelineStage {
   async execute(context: ProcessingContext): Promise<ProcessingContext> {
     // Emit processing event
     this.eventBus?.emit(EventNames.THOUGHT_PROCESSING, { 
+      sessionId: context.sessionId,
       input: context.input, 
       timestamp: new Date() 
     });
@@ -90,6 +98,61 @@ export class QueryOptimizationStage extends BasePipelineStage {
   }
 }
 
+/**
+ * Sequence validation stage - checks the thought against history before it is recorded
+ */
+export class SequenceValidationStage extends BasePipelineStage {
+  constructor(
+    private validator: SequenceValidator | undefined,
+    private getState: () => SequenceState
+  ) {
+    super('sequence-validation');
+  }
+  
+  async execute(context: ProcessingContext): Promise<ProcessingContext> {
+    if (!this.validator) {
+      return context;
+    }
+    
+    const result = this.validator.validate(context.input, this.getState());
+    
+    if (!result.valid) {
+      throw new ValidationError(
+        `Sequence validation failed: ${result.errors[0]}`,
+        { errors: result.errors, code: ErrorCodes.INVALID_INPUT }
+      );
+    }
+    
+    if (result.warnings.length > 0) {
+      context.metadata.validationWarnings = result.warnings;
+    }
+    
+    return context;
+  }
+}
+
+/**
+ * Revision tracking stage - runs before history tracking so the revised version is still recorded
+ */
+export class RevisionTrackingStage extends BasePipelineStage {
+  constructor(
+    private revisionTracker: RevisionTracker,
+    private thoughtHistory: Map<number, UltraThinkInput>
+  ) {
+    super('revision-tracking');
+  }
+  
+  async execute(context: ProcessingContext): Promise<ProcessingContext> {
+    const revision = this.revisionTracker.track(context.input, this.thoughtHistory);
+    
+    if (revision) {
+      context.metadata.revision = revision;
+    }
+    
+    return context;
+  }
+}
+
 /**
  * History tracking stage
  */
@@ -112,6 +175,21 @@ export class HistoryTrackingStage extends BasePipelineStage {
   }
 }
 
+/**
+ * Similarity preparation stage
+ * Fetches what the similarity service needs, e.g. embeddings, before the thought is compared
+ */
+export class SimilarityPreparationStage extends BasePipelineStage {
+  constructor(private similarityService: ISimilarityService) {
+    super('similarity-preparation');
+  }
+  
+  async execute(context: ProcessingContext): Promise<ProcessingContext> {
+    await this.similarityService.prepare?.([context.input.thought]);
+    return context;
+  }
+}
+
 /**
  * Bias detection stage
  */
@@ -126,22 +204,65 @@ export class BiasDetectionStage extends BasePipelineStage {
   }
   
   async execute(context: ProcessingContext): Promise<ProcessingContext> {
-    const history = Array.from(this.thoughtHistory.values()).map(t => t.thought);
-    const detectedBias = await this.biasDetector.detectBias(context.input.thought, history);
+    // History already holds the current thought
+    const history = Array.from(this.thoughtHistory.values())
+      .filter(thought => thought !== context.input);
+    const biases = this.biasDetector.detectBiases(context.input, history);
     
-    if (detectedBias && !context.input.biasDetected) {
-      context.input.biasDetected = detectedBias;
-      context.metadata.detectedBias = detectedBias;
-      
-      // Emit bias detected event
-      this.eventBus?.emit(EventNames.BIAS_DETECTED, {
-        biasType: detectedBias,
+    if (biases.length === 0) {
+      return context;
+    }
+    
+    const primary = biases[0];
+    context.metadata.biases = biases;
+    
+    // Findings stay in the metadata; the input is stored as the caller sent it
+    if (!context.input.biasDetected) {
+      context.metadata.detectedBias = primary.type;
+    }
+    
+    // Emit bias detected event
+    this.eventBus?.emit(EventNames.BIAS_DETECTED, {
+      sessionId: context.sessionId,
+      biasType: primary.type,
+      thoughtNumber: context.input.thoughtNumber,
+      confidence: primary.confidence,
+      biases
+    });
+    
+    // Plugin hook
+    await this.pluginManager?.notifyHook('onBiasDetected', primary.type, context.input, biases);
+    
+    return context;
+  }
+}
+
+/**
+ * Bias mitigation stage
+ */
+export class BiasMitigationStage extends BasePipelineStage {
+  constructor(
+    private mitigationTracker: BiasMitigationTracker,
+    private eventBus?: EventBus
+  ) {
+    super('bias-mitigation');
+  }
+  
+  async execute(context: ProcessingContext): Promise<ProcessingContext> {
+    const report = this.mitigationTracker.update(context.input, context.metadata.biases || []);
+    
+    for (const mitigation of report.corrected) {
+      this.eventBus?.emit(EventNames.BIAS_CORRECTED, {
+        sessionId: context.sessionId,
+        biasType: mitigation.bias,
         thoughtNumber: context.input.thoughtNumber,
-        confidence: context.input.confidence || 0
+        detectedIn: mitigation.detectedIn,
+        evidence: mitigation.evidence || []
       });
-      
-      // Plugin hook
-      this.pluginManager?.executeHook('onBiasDetected', detectedBias);
+    }
+    
+    if (report.open.length > 0 || report.corrected.length > 0 || report.unaddressed.length > 0) {
+      context.metadata.biasMitigation = report;
     }
     
     return context;
@@ -158,7 +279,7 @@ export class AutoLabelingStage extends BasePipelineStage {
   
   async execute(context: ProcessingContext): Promise<ProcessingContext> {
     if (this.enableAutoLabeling) {
-      context.metadata.autoLabel = Formatter.generateAutoLabel(context.input);
+      context.metadata.autoLabel = Formatter.generateAutoLabel(withDetectedBias(context));
     }
     return context;
   }
@@ -170,8 +291,10 @@ export class AutoLabelingStage extends BasePipelineStage {
 export class QualityAnalysisStage extends BasePipelineStage {
   constructor(
     private qualityMetrics: IQualityMetricsService,
+    private thoughtHistory: Map<number, UltraThinkInput>,
     private enableQualityValidation: boolean,
     private qualityThreshold: number,
+    private qualityTrend?: QualityTrendTracker,
     private eventBus?: EventBus,
     private pluginManager?: IPluginManager
   ) {
@@ -183,34 +306,41 @@ export class QualityAnalysisStage extends BasePipelineStage {
       return context;
     }
     
-    const score = this.qualityMetrics.calculateQuality(context.input.thought, {
-      thoughtNumber: context.input.thoughtNumber,
-      totalThoughts: context.input.totalThoughts,
-      confidence: context.input.confidence
-    });
-    
-    // Convert to expected format
-    const qualityScore = {
-      overall: score.overall,
-      metrics: {
-        consistency: score.consistency,
-        completeness: score.completeness,
-        objectivity: score.objectivity,
-        practicality: score.practicality
-      }
-    };
+    // Score against the earlier thoughts; history already holds the current one
+    const history = Array.from(this.thoughtHistory.values())
+      .filter(thought => thought !== context.input);
+    const qualityScore = this.qualityMetrics.calculateQuality(withDetectedBias(context), history);
     
     context.metadata.qualityScore = qualityScore;
     
     // Emit quality warning if below threshold
     if (qualityScore.overall < this.qualityThreshold) {
       this.eventBus?.emit(EventNames.QUALITY_WARNING, {
+        sessionId: context.sessionId,
         score: qualityScore,
         threshold: this.qualityThreshold,
         thoughtNumber: context.input.thoughtNumber
       });
     }
     
+    // Session trend; announce sharp drops and recoveries
+    if (this.qualityTrend) {
+      const trend = this.qualityTrend.record(context.input.thoughtNumber, qualityScore);
+      context.metadata.qualityTrend = trend;
+      
+      if (trend.change) {
+        this.eventBus?.emit(
+          trend.change === 'improved' ? EventNames.QUALITY_IMPROVED : EventNames.QUALITY_REGRESSED,
+          {
+            sessionId: context.sessionId,
+            thoughtNumber: context.input.thoughtNumber,
+            score: qualityScore,
+            trend
+          }
+        );
+      }
+    }
+    
     // Plugin hook
     this.pluginManager?.executeHook('onQualityCheck', qualityScore);
     
@@ -218,13 +348,72 @@ export class QualityAnalysisStage extends BasePipelineStage {
   }
 }
 
+/**
+ * Meta-reasoning stage - reviews the session at checkpoints
+ */
+export class MetaReasoningStage extends BasePipelineStage {
+  constructor(
+    private shouldTrigger: (input: UltraThinkInput) => boolean,
+    private metaReasoning: MetaReasoningService,
+    private getThoughts: () => ThoughtRecord[],
+    private branchHistory: Map<string, UltraThinkInput[]>,
+    private qualityThreshold: number,
+    private eventBus?: EventBus,
+    private pluginManager?: IPluginManager
+  ) {
+    super('meta-reasoning');
+  }
+  
+  async execute(context: ProcessingContext): Promise<ProcessingContext> {
+    if (!this.shouldTrigger(context.input)) {
+      return context;
+    }
+    
+    // The current thought is in history, but its metadata is only in the context so far
+    const current: ThoughtRecord = {
+      thoughtNumber: context.input.thoughtNumber,
+      input: context.input,
+      metadata: {
+        qualityScore: context.metadata.qualityScore,
+        biasDetected: context.metadata.detectedBias
+      }
+    };
+    const thoughts = this.getThoughts()
+      .map(record => record.thoughtNumber === current.thoughtNumber ? current : record);
+    
+    const report = this.metaReasoning.buildReport(
+      context.input,
+      thoughts,
+      this.branchHistory,
+      this.qualityThreshold
+    );
+    context.metadata.metaCheckpoint = report;
+    
+    this.eventBus?.emit(EventNames.META_CHECKPOINT, {
+      sessionId: context.sessionId,
+      thoughtNumber: report.thoughtNumber,
+      progress: report.progress,
+      recommendation: report.recommendation,
+      report
+    });
+    
+    // Plugin hook
+    await this.pluginManager?.notifyHook('onMetaCheckpoint', report.progress, context.input);
+    
+    return context;
+  }
+}
+
 /**
  * Budget calculation stage
  */
 export class BudgetCalculationStage extends BasePipelineStage {
   constructor(
     private enableBudgetManagement: boolean,
-    private defaultBudgetMode: string
+    private defaultBudgetMode: string,
+    private budgetTracker?: BudgetTracker,
+    private eventBus?: EventBus,
+    private pluginManager?: IPluginManager
   ) {
     super('budget-calculation');
   }
@@ -234,11 +423,27 @@ export class BudgetCalculationStage extends BasePipelineStage {
       return context;
     }
     
+    // Session accounting; refuses the thought in strict enforcement before anything is recorded
+    if (this.budgetTracker) {
+      try {
+        this.budgetTracker.check(context.input, context.input.budgetMode);
+      } catch (error) {
+        this.eventBus?.emit(EventNames.BUDGET_EXCEEDED, {
+          sessionId: context.sessionId,
+          thoughtNumber: context.input.thoughtNumber,
+          refused: true,
+          ...(error as ResourceError).details
+        });
+        throw error;
+      }
+    }
+    const update = await this.recordUsage(context);
+    
     const used = context.input.thoughtNumber;
     const total = context.input.totalThoughts;
     const usageRatio = used / total;
 
-    let efficiency = context.input.budgetMode || this.defaultBudgetMode;
+    let efficiency = update?.mode || context.input.budgetMode || this.defaultBudgetMode;
     
     // Auto-adjust efficiency based on usage
     if (usageRatio >= 0.8 && context.input.nextThoughtNeeded) {
@@ -248,8 +453,56 @@ export class BudgetCalculationStage extends BasePipelineStage {
     }
 
     context.metadata.budgetStatus = { used, total, efficiency };
+    if (update) {
+      context.metadata.budgetStatus.limits = update.limits;
+      context.metadata.budgetStatus.usage = update.usage;
+      if (update.warnings.length > 0) {
+        context.metadata.budgetStatus.warnings = update.warnings.map(warning =>
+          `${Math.round(warning.threshold * 100)}% of ${warning.dimension} used ` +
+          `(${formatAmount(warning.dimension, warning.used)}/${formatAmount(warning.dimension, warning.limit)})`
+        );
+      }
+      if (update.exceeded.length > 0) {
+        context.metadata.budgetStatus.exceeded = update.exceeded;
+      }
+    }
     return context;
   }
+  
+  /**
+   * Count the thought and announce crossed thresholds
+   */
+  private async recordUsage(context: ProcessingContext) {
+    if (!this.budgetTracker) return undefined;
+    
+    const update = this.budgetTracker.record(context.input, context.input.budgetMode);
+    
+    for (const warning of update.warnings) {
+      this.eventBus?.emit(EventNames.BUDGET_WARNING, {
+        sessionId: context.sessionId,
+        thoughtNumber: context.input.thoughtNumber,
+        mode: update.mode,
+        ...warning
+      });
+      
+      // Plugin hook
+      await this.pluginManager?.notifyHook('onBudgetWarning', warning.used, warning.limit);
+    }
+    
+    for (const dimension of update.newlyExceeded) {
+      this.eventBus?.emit(EventNames.BUDGET_EXCEEDED, {
+        sessionId: context.sessionId,
+        thoughtNumber: context.input.thoughtNumber,
+        refused: false,
+        mode: update.mode,
+        dimension,
+        usage: update.usage,
+        limits: update.limits
+      });
+    }
+    
+    return update;
+  }
 }
 
 /**
@@ -266,19 +519,14 @@ export class SuggestionStage extends BasePipelineStage {
   async execute(context: ProcessingContext): Promise<ProcessingContext> {
     const progress = context.input.thoughtNumber / context.input.totalThoughts;
     
-    // Quality-based suggestions
-    if (context.metadata.qualityScore && 
+    // Countering a bias found in this thought comes first
+    if (context.metadata.biasMitigation?.prompt) {
+      context.metadata.suggestedNextStep = context.metadata.biasMitigation.prompt;
+    } else if (context.metadata.qualityScore && 
         context.metadata.qualityScore.overall < this.qualityThreshold) {
-      // Check if the service has the method
-      if ('getImprovementSuggestion' in this.qualityMetrics) {
-        const service = this.qualityMetrics as IQualityMetricsService & {
-          getImprovementSuggestion(metrics: unknown): string;
-        };
-        context.metadata.suggestedNextStep = service
-          .getImprovementSuggestion(context.metadata.qualityScore.metrics);
-      } else {
-        context.metadata.suggestedNextStep = 'Consider improving the quality of your analysis';
-      }
+      context.metadata.suggestedNextStep = this.qualityMetrics
+        .getImprovementSuggestion?.(context.metadata.qualityScore.metrics) ??
+        'Consider improving the quality of your analysis';
     } else {
       // Mode-specific suggestions
       context.metadata.suggestedNextStep = this.getModeSuggestion(context.input, progress);
@@ -307,7 +555,7 @@ export class SuggestionStage extends BasePipelineStage {
     } else if (progress < 0.7) {
       return '선택된 경로를 순차적으로 심화 분석 (Hybrid: 심화 단계)';
     } else {
-      return '모든 경로의 인사이트 통합 (Hybrid: 통합 단계)';
+      return '모든 경로의 인사이트 통합 - converge_branches로 브랜치 비교 (Hybrid: 통합 단계)';
     }
   }
   
@@ -405,10 +653,16 @@ export class ResponseBuildingStage extends BasePipelineStage {
         depthLevel: context.input.depthLevel,
         confidence: context.input.confidence,
         qualityScore: context.metadata.qualityScore,
+        qualityTrend: context.metadata.qualityTrend,
         autoLabel: context.metadata.autoLabel,
         budgetStatus: context.metadata.budgetStatus,
         suggestedNextStep: context.metadata.suggestedNextStep,
-        biasDetected: context.metadata.detectedBias
+        biasDetected: context.metadata.detectedBias,
+        biases: context.metadata.biases,
+        biasMitigation: context.metadata.biasMitigation,
+        revision: context.metadata.revision,
+        validationWarnings: context.metadata.validationWarnings,
+        metaCheckpoint: context.metadata.metaCheckpoint
       }
     };
     
@@ -416,6 +670,24 @@ export class ResponseBuildingStage extends BasePipelineStage {
   }
 }
 
+/**
+ * Session persistence stage
+ */
+export class SessionPersistenceStage extends BasePipelineStage {
+  constructor(
+    private persist: (input: UltraThinkInput, metadata?: ResponseMetadata) => Promise<void>
+  ) {
+    super('session-persistence');
+  }
+  
+  async execute(context: ProcessingContext): Promise<ProcessingContext> {
+    if (context.response) {
+      await this.persist(context.input, context.response.metadata);
+    }
+    return context;
+  }
+}
+
 /**
  * Finalize processing stage
  */
@@ -437,6 +709,7 @@ export class FinalizeStage extends BasePipelineStage {
     // Emit processed event
     const processingTime = Date.now() - context.metadata.startTime;
     this.eventBus?.emit(EventNames.THOUGHT_PROCESSED, {
+      sessionId: context.sessionId,
       input: context.input,
       response: context.response,
       processingTime,
@@ -448,4 +721,14 @@ export class FinalizeStage extends BasePipelineStage {
     
     return context;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The input with the detected bias filled in, for stages that weigh it
+ */
+function withDetectedBias(context: ProcessingContext): UltraThinkInput {
+  const { detectedBias } = context.metadata;
+  return detectedBias && !context.input.biasDetected
+    ? { ...context.input, biasDetected: detectedBias }
+    : context.input;
+}
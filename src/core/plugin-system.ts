@@ -3,9 +3,11 @@
  * Provides hooks and lifecycle management for plugins
  */
 
-import { UltraThinkInput, UltraThinkResponse, QualityScore } from '../types/interfaces.js';
+import { UltraThinkInput, UltraThinkResponse, QualityScore, BiasFinding } from '../types/interfaces.js';
 import { EventBus, EventNames } from './event-bus.js';
 import { Logger } from '../utils/logger.js';
+import { DEFAULT_SESSION_ID } from '../config/constants.js';
+import type { ISessionStore, PluginNotifications } from './interfaces/index.js';
 
 export interface PluginContext {
   eventBus: EventBus;
@@ -30,7 +32,7 @@ export interface Plugin {
   
   // Quality and bias hooks
   onQualityCheck?(metrics: QualityScore): void;
-  onBiasDetected?(biasType: string, input: UltraThinkInput): void;
+  onBiasDetected?(biasType: string, input: UltraThinkInput, biases: BiasFinding[]): void;
   
   // Meta reasoning hooks
   onMetaCheckpoint?(progress: number, input: UltraThinkInput): void;
@@ -174,6 +176,27 @@ export class PluginManager {
     return result;
   }
   
+  /**
+   * Notify all plugins through a hook that takes several arguments; return values are ignored
+   */
+  async notifyHook<K extends keyof PluginNotifications>(hookName: K, ...args: PluginNotifications[K]): Promise<void> {
+    for (const plugin of this.plugins.values()) {
+      const hook = plugin[hookName] as ((...hookArgs: PluginNotifications[K]) => void) | undefined;
+      if (typeof hook !== 'function') continue;
+      
+      try {
+        await hook.apply(plugin, args);
+      } catch (error) {
+        this.logger.error(`Error in plugin '${plugin.name}' hook '${String(hookName)}':`, error as Error);
+        this.eventBus.emit(EventNames.PLUGIN_ERROR, {
+          plugin: plugin.name,
+          hook: String(hookName),
+          error
+        });
+      }
+    }
+  }
+  
   /**
    * Execute a hook synchronously
    */
@@ -412,17 +435,39 @@ export const PerformanceMonitorPlugin: Plugin = {
 
 /**
  * Auto-save Plugin
+ * Appends every processed thought to a session store
  */
-export const AutoSavePlugin: Plugin = {
-  name: 'auto-save',
-  version: '1.0.0',
-  description: 'Auto-saves thought history',
+export function createAutoSavePlugin(store: ISessionStore): Plugin {
+  let unsubscribe: (() => void) | undefined;
   
-  onInit(context: PluginContext): void {
-    // Subscribe to events
-    context.eventBus.on(EventNames.THOUGHT_PROCESSED, () => {
-      // Save to file or database
-      context.logger.debug('Auto-saving thought history');
-    });
-  }
-};
\ No newline at end of file
+  return {
+    name: 'auto-save',
+    version: '1.1.0',
+    description: 'Auto-saves thought history',
+    
+    onInit(context: PluginContext): void {
+      // Subscribe to events
+      unsubscribe = context.eventBus.on(EventNames.THOUGHT_PROCESSED, async (event) => {
+        const sessionId = event.sessionId || DEFAULT_SESSION_ID;
+        
+        try {
+          await store.append(sessionId, {
+            input: event.input,
+            metadata: event.response?.metadata,
+            timestamp: Date.now()
+          });
+          context.logger.debug(`Auto-saved thought ${event.input.thoughtNumber} of session '${sessionId}'`);
+        } catch (error) {
+          context.logger.error(`Auto-save failed for session '${sessionId}'`, error as Error);
+        }
+      });
+    },
+    
+    async onDestroy(): Promise<void> {
+      unsubscribe?.();
+      
+      // Wait for pending writes
+      await store.flush();
+    }
+  };
+}
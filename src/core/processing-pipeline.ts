@@ -5,23 +5,40 @@
  * @description Implements a pipeline pattern to break down complex processing into manageable stages
  */
 
-import { UltraThinkInput, UltraThinkResponse, BudgetStatus, QualityScore } from '../types/interfaces.js';
-import { ProcessingError } from './errors.js';
+import {
+  UltraThinkInput,
+  UltraThinkResponse,
+  BudgetStatus,
+  BiasFinding,
+  BiasMitigationReport,
+  QualityScore,
+  QualityTrend,
+  RevisionInfo,
+  MetaCheckpointReport
+} from '../types/interfaces.js';
+import { ProcessingError, ValidationError, ResourceError } from './errors.js';
 
 /**
  * Processing context that flows through the pipeline
  */
 export interface ProcessingContext {
+  sessionId?: string;
   input: UltraThinkInput;
   response?: Partial<UltraThinkResponse>;
   metadata: {
     startTime: number;
     detectedBias?: string;
+    biases?: BiasFinding[];
+    biasMitigation?: BiasMitigationReport;
     qualityScore?: QualityScore;
+    qualityTrend?: QualityTrend;
     budgetStatus?: BudgetStatus;
     autoLabel?: string;
     enhancedThought?: string;
     suggestedNextStep?: string;
+    revision?: RevisionInfo;
+    validationWarnings?: string[];
+    metaCheckpoint?: MetaCheckpointReport;
     queryRewriting?: {
       originalQuery: string;
       rewrittenQuery: string;
@@ -57,8 +74,9 @@ export class ProcessingPipeline {
   /**
    * Execute all stages in sequence
    */
-  async execute(input: UltraThinkInput): Promise<UltraThinkResponse> {
+  async execute(input: UltraThinkInput, sessionId?: string): Promise<UltraThinkResponse> {
     let context: ProcessingContext = {
+      sessionId,
       input,
       metadata: {
         startTime: Date.now()
@@ -75,6 +93,10 @@ export class ProcessingPipeline {
           throw context.error;
         }
       } catch (error) {
+        // Rejected input and exhausted budgets are reported as such, not as processing failures
+        if (error instanceof ValidationError || error instanceof ResourceError) {
+          throw error;
+        }
         throw new ProcessingError(
           `Pipeline stage '${stage.name}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
           { 
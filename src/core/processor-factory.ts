@@ -7,22 +7,40 @@ import { UltraThinkProcessor, ProcessorDependencies } from './processor.js';
 import { UltraThinkConfig } from '../types/interfaces.js';
 import { EventBus } from './event-bus.js';
 import { SimilarityService } from '../services/similarity.service.js';
+import type { SimilarityEngine, SimilarityFeature } from '../services/similarity.service.js';
+import { EmbeddingSimilarityService } from '../services/embedding-similarity.service.js';
 import { BiasDetectorService } from '../services/bias-detector.service.js';
 import { QualityMetricsService } from '../services/quality-metrics.service.js';
 import { QueryRewritingService } from '../services/query-rewriting.service.js';
+import { LexiconService } from '../services/lexicon.service.js';
+import { BranchConvergenceService } from '../services/branch-convergence.service.js';
 import { Logger } from '../utils/logger.js';
 import { PERFORMANCE } from '../config/constants.js';
-import type { IPluginManager, IMetricsCollector } from './interfaces/index.js';
+import type { CacheManager } from './cache-manager.js';
+import type {
+  IPluginManager,
+  IMetricsCollector,
+  ISessionStore,
+  ISimilarityService,
+  IEmbeddingProvider
+} from './interfaces/index.js';
 
 export interface ProcessorFactoryConfig extends Partial<UltraThinkConfig> {
   logger?: Logger;
   eventBus?: EventBus;
   pluginManager?: IPluginManager;
   metricsCollector?: IMetricsCollector;
-  similarityService?: SimilarityService;
+  similarityService?: ISimilarityService;
   biasDetectorService?: BiasDetectorService;
   qualityMetricsService?: QualityMetricsService;
   queryRewritingService?: QueryRewritingService;
+  lexiconService?: LexiconService;
+  sessionStore?: ISessionStore;
+  similarityEngine?: SimilarityEngine;
+  similarityFeatures?: SimilarityFeature[];
+  similarityNgramSize?: number;
+  embeddingProvider?: IEmbeddingProvider;   // Compare thoughts by embeddings, falling back to the lexical engine
+  cache?: CacheManager;                     // Shared across sessions, one namespace per service
 }
 
 export class ProcessorFactory {
@@ -34,43 +52,31 @@ export class ProcessorFactory {
   
   /**
    * Create a processor instance
+   * @param {string} [sessionId] - Reasoning session the processor belongs to
    */
-  createProcessor(): UltraThinkProcessor {
+  createProcessor(sessionId?: string): UltraThinkProcessor {
     const isProduction = process.env.NODE_ENV === 'production';
     const debugMode = this.config.debugMode ?? false;
     
     // Use provided services or create defaults
     const logger = this.config.logger || new Logger(isProduction, debugMode);
     const eventBus = this.config.eventBus || new EventBus();
-    const similarityService = this.config.similarityService || 
-      new SimilarityService(PERFORMANCE.CACHE_SIZE, eventBus);
+    const lexicons = this.config.lexiconService || new LexiconService();
+    const similarityService = this.config.similarityService || this.createSimilarityService(eventBus, lexicons, logger);
     const biasDetector = this.config.biasDetectorService || 
-      new BiasDetectorService(similarityService);
+      new BiasDetectorService(similarityService, lexicons);
     const qualityMetrics = this.config.qualityMetricsService || 
-      new QualityMetricsService();
+      new QualityMetricsService(similarityService, this.config.cache?.namespace('quality'));
     const queryRewriter = this.config.queryRewritingService || 
-      new QueryRewritingService(logger);
+      new QueryRewritingService(logger, lexicons, this.config.cache?.namespace('rewrite'));
     
     const dependencies: ProcessorDependencies = {
       similarityService,
-      biasDetector: {
-        detectBias: (thought: string, history: string[]) => 
-          biasDetector.detectBiasFromStrings(thought, history)
-      },
-      qualityMetrics: {
-        calculateQuality: (thought: string, metadata?: any) => {
-          const result = qualityMetrics.calculateQuality(thought, metadata);
-          // Adapt the response to match expected interface
-          return {
-            overall: result.overall,
-            consistency: result.clarity, // Map clarity to consistency
-            completeness: result.relevance, // Map relevance to completeness
-            objectivity: result.depth, // Map depth to objectivity
-            practicality: result.overall // Use overall as practicality
-          };
-        }
-      },
+      biasDetector,
+      qualityMetrics,
       queryRewriter,
+      branchConvergence: new BranchConvergenceService(similarityService),
+      sessionStore: this.config.sessionStore,
       logger
     };
     
@@ -83,6 +89,9 @@ export class ProcessorFactory {
       defaultBudgetMode: this.config.defaultBudgetMode ?? 'balanced',
       metaCheckpointFrequency: this.config.metaCheckpointFrequency ?? 25,
       qualityThreshold: this.config.qualityThreshold ?? 0.6,
+      sequenceValidation: this.config.sequenceValidation ?? 'lenient',
+      budgetEnforcement: this.config.budgetEnforcement ?? 'warn',
+      budgetWarningThresholds: this.config.budgetWarningThresholds,
       debugMode: this.config.debugMode
     };
     
@@ -91,7 +100,29 @@ export class ProcessorFactory {
       eventBus,
       this.config.pluginManager,
       this.config.metricsCollector,
-      dependencies
+      dependencies,
+      sessionId
+    );
+  }
+  
+  /**
+   * One per processor, so IDF weights and LSH index come from the session's own thoughts
+   */
+  private createSimilarityService(eventBus: EventBus, lexicons: LexiconService, logger: Logger): ISimilarityService {
+    const lexical = new SimilarityService(PERFORMANCE.CACHE_SIZE, eventBus, {
+      engine: this.config.similarityEngine,
+      features: this.config.similarityFeatures,
+      ngramSize: this.config.similarityNgramSize
+    }, lexicons, this.config.cache?.namespace('similarity'));
+    
+    if (!this.config.embeddingProvider) {
+      return lexical;
+    }
+    return new EmbeddingSimilarityService(
+      lexical,
+      this.config.embeddingProvider,
+      this.config.cache?.namespace('embeddings'),
+      logger
     );
   }
   
@@ -16,26 +16,40 @@ import {
   UltraThinkInput, 
   UltraThinkResponse, 
   UltraThinkConfig,
-  BudgetStatus
+  ResponseMetadata,
+  ThoughtRecord,
+  ThoughtVersion
 } from '../types/interfaces.js';
-import type { ISimilarityService, IBiasDetectorService, IQualityMetricsService, IPluginManager, IMetricsCollector } from './interfaces/index.js';
-import { Formatter } from './formatter.js';
+import type { ISimilarityService, IBiasDetectorService, IQualityMetricsService, IPluginManager, IMetricsCollector, ISessionStore } from './interfaces/index.js';
 import { Logger } from '../utils/logger.js';
 import { HISTORY_LIMITS, META_REASONING } from '../config/constants.js';
 import { EventBus, EventNames } from './event-bus.js';
-import { ProcessingError, ResourceError, ErrorHandler } from './errors.js';
+import { ResourceError, ValidationError } from './errors.js';
 import { ProcessingPipeline } from './processing-pipeline.js';
+import { RevisionTracker } from './revision-tracker.js';
+import { SequenceValidator } from './sequence-validator.js';
+import { BudgetTracker } from './budget-tracker.js';
+import { QualityTrendTracker } from './quality-trend.js';
+import { BiasMitigationTracker } from './bias-mitigation.js';
+import { BranchConvergenceService, ConvergenceReport } from '../services/branch-convergence.service.js';
+import { MetaReasoningService } from '../services/meta-reasoning.service.js';
 import {
   InitializeStage,
   QueryOptimizationStage,
+  SequenceValidationStage,
+  SimilarityPreparationStage,
+  RevisionTrackingStage,
   HistoryTrackingStage,
   BiasDetectionStage,
+  BiasMitigationStage,
   AutoLabelingStage,
   QualityAnalysisStage,
   BudgetCalculationStage,
+  MetaReasoningStage,
   SuggestionStage,
   ThoughtEnhancementStage,
   ResponseBuildingStage,
+  SessionPersistenceStage,
   FinalizeStage
 } from './pipeline-stages.js';
 
@@ -44,19 +58,32 @@ export interface ProcessorDependencies {
   biasDetector?: IBiasDetectorService;
   qualityMetrics?: IQualityMetricsService;
   queryRewriter?: any; // QueryRewritingService
+  branchConvergence?: BranchConvergenceService;
+  sessionStore?: ISessionStore;
   logger?: Logger;
 }
 
 export class UltraThinkProcessor {
   public readonly config: UltraThinkConfig;
+  public readonly sessionId?: string;
   
   private thoughtHistory: Map<number, UltraThinkInput>;
   private branchHistory: Map<string, UltraThinkInput[]>;
+  private responseHistory: Map<number, ResponseMetadata>;
+  private revisionTracker: RevisionTracker;
+  private metaReasoning: MetaReasoningService;
+  private sequenceValidator?: SequenceValidator;
+  private budgetTracker: BudgetTracker;
+  private qualityTrend: QualityTrendTracker;
+  private biasMitigation: BiasMitigationTracker;
+  private historyTrimmed = false;
   
   private similarityService: ISimilarityService;
   private biasDetector: IBiasDetectorService;
   private qualityMetrics: IQualityMetricsService;
   private queryRewriter?: any; // QueryRewritingService
+  private branchConvergence: BranchConvergenceService;
+  private sessionStore?: ISessionStore;
   private logger: Logger;
   private eventBus?: EventBus;
   private pluginManager?: IPluginManager;
@@ -67,7 +94,8 @@ export class UltraThinkProcessor {
     eventBus?: EventBus,
     pluginManager?: IPluginManager,
     metricsCollector?: IMetricsCollector,
-    dependencies?: ProcessorDependencies
+    dependencies?: ProcessorDependencies,
+    sessionId?: string
   ) {
     // Initialize configuration
     this.config = {
@@ -79,13 +107,18 @@ export class UltraThinkProcessor {
       defaultBudgetMode: 'balanced',
       metaCheckpointFrequency: META_REASONING.DEFAULT_CHECKPOINT_FREQUENCY,
       qualityThreshold: 0.6,
+      sequenceValidation: 'lenient',
+      budgetEnforcement: 'warn',
       debugMode: false,
       ...config
     };
 
+    this.sessionId = sessionId;
+
     // Initialize history
     this.thoughtHistory = new Map();
     this.branchHistory = new Map();
+    this.responseHistory = new Map();
 
     // Initialize services from dependencies or throw error
     if (!dependencies?.similarityService || !dependencies?.biasDetector || 
@@ -97,6 +130,22 @@ export class UltraThinkProcessor {
     this.biasDetector = dependencies.biasDetector;
     this.qualityMetrics = dependencies.qualityMetrics;
     this.queryRewriter = dependencies.queryRewriter;
+    this.branchConvergence = dependencies.branchConvergence ||
+      new BranchConvergenceService(this.similarityService);
+    this.revisionTracker = new RevisionTracker(this.similarityService);
+    this.metaReasoning = new MetaReasoningService(this.similarityService);
+    this.budgetTracker = new BudgetTracker(
+      this.config.budgetEnforcement,
+      this.config.budgetWarningThresholds,
+      Date.now,
+      this.config.defaultBudgetMode
+    );
+    this.qualityTrend = new QualityTrendTracker(this.config.qualityThreshold);
+    this.biasMitigation = new BiasMitigationTracker(this.biasDetector);
+    if (this.config.sequenceValidation !== 'off') {
+      this.sequenceValidator = new SequenceValidator(this.config.sequenceValidation);
+    }
+    this.sessionStore = dependencies.sessionStore;
     this.logger = dependencies.logger;
     
     // Store optional services
@@ -126,6 +175,20 @@ export class UltraThinkProcessor {
           this.config.enableQueryRewriting,
           this.logger
         ))
+        .add(new SequenceValidationStage(this.sequenceValidator, () => ({
+          thoughts: this.thoughtHistory,
+          branches: this.branchHistory,
+          historyTrimmed: this.historyTrimmed
+        })))
+        .add(new BudgetCalculationStage(
+          this.config.enableBudgetManagement,
+          this.config.defaultBudgetMode,
+          this.budgetTracker,
+          this.eventBus,
+          this.pluginManager
+        ))
+        .add(new SimilarityPreparationStage(this.similarityService))
+        .add(new RevisionTrackingStage(this.revisionTracker, this.thoughtHistory))
         .add(new HistoryTrackingStage(
           this.addToHistory.bind(this),
           this.addToBranchHistory.bind(this)
@@ -136,17 +199,25 @@ export class UltraThinkProcessor {
           this.eventBus,
           this.pluginManager
         ))
+        .add(new BiasMitigationStage(this.biasMitigation, this.eventBus))
         .add(new AutoLabelingStage(this.config.enableAutoLabeling))
         .add(new QualityAnalysisStage(
           this.qualityMetrics,
+          this.thoughtHistory,
           this.config.enableQualityValidation,
           this.config.qualityThreshold,
+          this.qualityTrend,
           this.eventBus,
           this.pluginManager
         ))
-        .add(new BudgetCalculationStage(
-          this.config.enableBudgetManagement,
-          this.config.defaultBudgetMode
+        .add(new MetaReasoningStage(
+          this.shouldTriggerMetaCheckpoint.bind(this),
+          this.metaReasoning,
+          this.getThoughts.bind(this),
+          this.branchHistory,
+          this.config.qualityThreshold,
+          this.eventBus,
+          this.pluginManager
         ))
         .add(new SuggestionStage(
           this.qualityMetrics,
@@ -158,6 +229,7 @@ export class UltraThinkProcessor {
           this.config.debugMode || false
         ))
         .add(new ResponseBuildingStage())
+        .add(new SessionPersistenceStage(this.persistRecord.bind(this)))
         .add(new FinalizeStage(
           this.eventBus,
           this.pluginManager,
@@ -165,7 +237,7 @@ export class UltraThinkProcessor {
         ));
       
       // Execute the pipeline
-      return await pipeline.execute(input);
+      return await pipeline.execute(input, this.sessionId);
   }
 
 
@@ -179,9 +251,14 @@ export class UltraThinkProcessor {
     if (!this.config.enableMetaReasoning) return false;
     
     const progress = (input.thoughtNumber / input.totalThoughts) * 100;
+    const previousProgress = ((input.thoughtNumber - 1) / input.totalThoughts) * 100;
     const checkpointInterval = this.config.metaCheckpointFrequency;
     
-    return progress % checkpointInterval === 0 || 
+    // Fire on the thought that reaches or crosses a checkpoint (25%, 50%, 75% by default), short of the end
+    const crossedCheckpoint = progress < 100 &&
+      Math.floor(progress / checkpointInterval) > Math.floor(previousProgress / checkpointInterval);
+    
+    return crossedCheckpoint || 
            input.metaCheckpoint === true ||
            (input.qualityMetrics !== undefined && Object.keys(input.qualityMetrics).length > 0);
   }
@@ -194,6 +271,8 @@ export class UltraThinkProcessor {
       if (this.thoughtHistory.size >= HISTORY_LIMITS.MAX_HISTORY_SIZE) {
         const oldestKey = Math.min(...Array.from(this.thoughtHistory.keys()));
         this.thoughtHistory.delete(oldestKey);
+        this.responseHistory.delete(oldestKey);
+        this.historyTrimmed = true;
         
         this.logger.debug('Removed oldest thought from history', { 
           oldestKey, 
@@ -201,6 +280,7 @@ export class UltraThinkProcessor {
         });
       }
       this.thoughtHistory.set(thoughtNumber, input);
+      this.similarityService.addDocument?.(input.thought);
     } catch (error) {
       throw new ResourceError(
         'Failed to add thought to history',
@@ -240,6 +320,68 @@ export class UltraThinkProcessor {
     }
   }
 
+  /**
+   * Record response metadata and append the thought to the session store
+   */
+  private async persistRecord(input: UltraThinkInput, metadata?: ResponseMetadata): Promise<void> {
+    if (metadata) {
+      this.responseHistory.set(input.thoughtNumber, metadata);
+    }
+    
+    if (!this.sessionStore || !this.sessionId) return;
+    
+    try {
+      await this.sessionStore.append(this.sessionId, {
+        input,
+        metadata,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      // Persistence failures must not lose the thought for the caller
+      this.logger.error(`Failed to persist thought ${input.thoughtNumber} of session '${this.sessionId}'`, error as Error);
+    }
+  }
+
+  /**
+   * Replay persisted thoughts of this session into history
+   * @returns {Promise<number>} Number of replayed thoughts
+   * @public
+   */
+  async restore(): Promise<number> {
+    if (!this.sessionStore || !this.sessionId) return 0;
+    
+    const records = await this.sessionStore.load(this.sessionId);
+    await this.similarityService.prepare?.(records.map(record => record.input.thought));
+    
+    for (const record of records) {
+      this.revisionTracker.track(record.input, this.thoughtHistory);
+      this.budgetTracker.record(record.input, record.input.budgetMode, record.timestamp);
+      this.addToHistory(record.input.thoughtNumber, record.input);
+      
+      if (record.input.branchId) {
+        this.addToBranchHistory(record.input.branchId, record.input);
+      }
+      
+      if (record.metadata) {
+        this.responseHistory.set(record.input.thoughtNumber, record.metadata);
+        if (record.metadata.qualityScore) {
+          this.qualityTrend.record(record.input.thoughtNumber, record.metadata.qualityScore);
+        }
+        this.biasMitigation.update(record.input, record.metadata.biases || []);
+      }
+    }
+    
+    if (records.length > 0) {
+      this.logger.debug(`Restored session '${this.sessionId}'`, { thoughts: records.length });
+      this.eventBus?.emit(EventNames.SESSION_RESTORED, {
+        sessionId: this.sessionId,
+        thoughtCount: records.length
+      });
+    }
+    
+    return records.length;
+  }
+
   // Note: Logging has been moved to ThoughtEnhancementStage in the pipeline
 
   /**
@@ -248,18 +390,166 @@ export class UltraThinkProcessor {
   clearHistory(): void {
     this.thoughtHistory.clear();
     this.branchHistory.clear();
+    this.responseHistory.clear();
+    this.revisionTracker.clear();
+    this.budgetTracker.reset();
+    this.qualityTrend.clear();
+    this.biasMitigation.clear();
+    this.historyTrimmed = false;
+    this.similarityService.resetDocuments?.();
     if ('clearCache' in this.similarityService) {
       (this.similarityService as any).clearCache();
     }
   }
 
+  /**
+   * Clear history and delete the session's persisted records
+   * @returns {Promise<{ thoughtCount: number; branchCount: number }>} What was cleared
+   * @public
+   */
+  async reset(): Promise<{ thoughtCount: number; branchCount: number }> {
+    const cleared = {
+      thoughtCount: this.thoughtHistory.size,
+      branchCount: this.branchHistory.size
+    };
+    
+    this.clearHistory();
+    
+    if (this.sessionStore && this.sessionId) {
+      await this.sessionStore.delete(this.sessionId);
+    }
+    
+    this.eventBus?.emit(EventNames.SESSION_RESET, { sessionId: this.sessionId, ...cleared });
+    
+    return cleared;
+  }
+
+  /**
+   * Get recorded thoughts in thought-number order
+   */
+  getThoughts(): ThoughtRecord[] {
+    return Array.from(this.thoughtHistory.keys())
+      .sort((a, b) => a - b)
+      .map(thoughtNumber => this.getThought(thoughtNumber)!);
+  }
+
+  /**
+   * Get a single recorded thought
+   */
+  getThought(thoughtNumber: number): ThoughtRecord | undefined {
+    const input = this.thoughtHistory.get(thoughtNumber);
+    if (!input) return undefined;
+    
+    return {
+      thoughtNumber,
+      input,
+      metadata: this.responseHistory.get(thoughtNumber)
+    };
+  }
+
+  /**
+   * Get the ids of all tracked branches
+   */
+  getBranchIds(): string[] {
+    return Array.from(this.branchHistory.keys());
+  }
+
+  /**
+   * Get the thoughts of a branch in the order they were added
+   */
+  getBranch(branchId: string): UltraThinkInput[] | undefined {
+    const branch = this.branchHistory.get(branchId);
+    return branch ? [...branch] : undefined;
+  }
+
+  /**
+   * Get every version of a revised thought, oldest first
+   * @param {number} thoughtNumber - The original thought or any of its revisions
+   */
+  getRevisionChain(thoughtNumber: number): ThoughtVersion[] | undefined {
+    return this.revisionTracker.getChain(thoughtNumber);
+  }
+
+  /**
+   * Compare parallel branches and record the result as a new thought
+   * @param {string[]} branchIds - Branches to converge (at least two)
+   * @returns {Promise<ConvergenceReport & { thought: ThoughtRecord }>} The comparison and the recorded thought
+   * @throws {ValidationError} If fewer than two distinct branches are given or a branch is unknown
+   * @public
+   */
+  async convergeBranches(branchIds: string[]): Promise<ConvergenceReport & { thought: ThoughtRecord }> {
+    const ids = Array.from(new Set(branchIds));
+    if (ids.length < 2) {
+      throw new ValidationError('At least two distinct branches are required to converge', { branchIds });
+    }
+    
+    const unknown = ids.filter(branchId => !this.branchHistory.has(branchId));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown branch: ${unknown.join(', ')}`, { branchIds: unknown });
+    }
+    
+    const report = this.branchConvergence.compare(ids.map(branchId => {
+      const thoughts = this.getBranch(branchId)!;
+      return {
+        branchId,
+        thoughts,
+        // Records are keyed by thought number; skip ones since taken over by another branch
+        records: thoughts
+          .map(input => this.getThought(input.thoughtNumber))
+          .filter((record): record is ThoughtRecord => record?.input.branchId === branchId)
+      };
+    }));
+    
+    const latest = this.getThoughts().pop();
+    const thoughtNumber = (latest?.thoughtNumber ?? 0) + 1;
+    
+    await this.process({
+      thought: this.branchConvergence.describe(report),
+      thoughtNumber,
+      totalThoughts: Math.max(latest?.input.totalThoughts ?? 0, thoughtNumber),
+      nextThoughtNeeded: thoughtNumber < (latest?.input.totalThoughts ?? 0),
+      ultraThinkMode: 'hybrid',
+      enableQueryRewriting: false,
+      metadata: {
+        convergedBranches: ids,
+        recommendedBranch: report.recommendedBranch
+      }
+    });
+    
+    this.eventBus?.emit(EventNames.BRANCHES_CONVERGED, {
+      sessionId: this.sessionId,
+      branchIds: ids,
+      recommendedBranch: report.recommendedBranch,
+      thoughtNumber
+    });
+    
+    return { ...report, thought: this.getThought(thoughtNumber)! };
+  }
+
   /**
    * Get history statistics
    */
   getHistoryStats() {
+    const thoughts = this.getThoughts();
+    const latest = thoughts[thoughts.length - 1];
+    const qualityScores = thoughts
+      .map(record => record.metadata?.qualityScore?.overall)
+      .filter((score): score is number => typeof score === 'number');
+    
     return {
       thoughtCount: this.thoughtHistory.size,
       branchCount: this.branchHistory.size,
+      lastThoughtNumber: latest?.thoughtNumber ?? 0,
+      totalThoughts: latest?.input.totalThoughts ?? 0,
+      revisionCount: thoughts.filter(record => record.input.isRevision).length,
+      biasCount: thoughts.filter(record => record.metadata?.biasDetected).length,
+      averageQuality: qualityScores.length > 0 ?
+        qualityScores.reduce((sum, score) => sum + score, 0) / qualityScores.length :
+        null,
+      branches: Array.from(this.branchHistory.entries()).map(([branchId, branch]) => ({
+        branchId,
+        thoughtCount: branch.length
+      })),
       cacheStats: 'getCacheStats' in this.similarityService ? 
         (this.similarityService as any).getCacheStats() : 
         { size: 0, maxSize: 0 }
@@ -279,7 +569,7 @@ export class UltraThinkProcessor {
     this.clearHistory();
     
     // Emit shutdown event
-    this.eventBus?.emit(EventNames.PROCESSOR_SHUTDOWN, {});
+    this.eventBus?.emit(EventNames.PROCESSOR_SHUTDOWN, { sessionId: this.sessionId });
   }
 }
 
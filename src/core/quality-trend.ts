@@ -0,0 +1,172 @@
+/**
+ * Quality trend tracking
+ *
+ * @module quality-trend
+ * @description Records the quality score of every thought in a session and
+ * derives how it develops:
+ * - Moving average and least-squares slope of the overall score, per dimension too
+ * - A sparkline of recent scores
+ * - A regression when a score drops sharply below the moving average, and a
+ *   recovery once a regressed or below-threshold session is back above the threshold
+ */
+
+import type { QualityScore, QualityTrend, DimensionTrend, TrendDirection } from '../types/interfaces.js';
+
+/**
+ * Scores the moving average and slope are computed over
+ */
+const TREND_WINDOW = 5;
+
+/**
+ * Scores shown in the sparkline
+ */
+const SPARKLINE_LENGTH = 10;
+
+/**
+ * Slope per thought that counts as a direction
+ */
+const SLOPE_TOLERANCE = 0.02;
+
+/**
+ * Drop below the moving average that counts as a regression
+ */
+const DEFAULT_REGRESSION_DROP = 0.15;
+
+/**
+ * Most samples kept per session
+ */
+const MAX_SAMPLES = 200;
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+const DIMENSIONS: Array<keyof QualityScore['metrics']> = ['consistency', 'completeness', 'objectivity', 'practicality'];
+
+interface QualitySample {
+  thoughtNumber: number;
+  score: QualityScore;
+}
+
+/**
+ * Tracks the quality trend of one session
+ * @class QualityTrendTracker
+ * @public
+ */
+export class QualityTrendTracker {
+  private samples: QualitySample[] = [];
+  private recovering = false;
+  private total = 0;
+
+  constructor(
+    private qualityThreshold: number,
+    private regressionDrop: number = DEFAULT_REGRESSION_DROP
+  ) {}
+
+  /**
+   * Record a thought's score and return the updated trend
+   * @param {number} thoughtNumber - Thought the score belongs to
+   * @param {QualityScore} score - The thought's quality score
+   */
+  record(thoughtNumber: number, score: QualityScore): QualityTrend {
+    const previous = this.samples.slice(-TREND_WINDOW).map(sample => sample.score.overall);
+    const previousAverage = previous.length > 0 ? mean(previous) : undefined;
+
+    this.samples.push({ thoughtNumber, score });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+    this.total++;
+
+    let change: QualityTrend['change'];
+    if (previousAverage !== undefined && score.overall < previousAverage - this.regressionDrop) {
+      change = 'regressed';
+      this.recovering = true;
+    } else if (this.recovering && score.overall >= this.qualityThreshold) {
+      change = 'improved';
+      this.recovering = false;
+    } else if (score.overall < this.qualityThreshold) {
+      this.recovering = true;
+    }
+
+    return { ...this.getTrend(), change };
+  }
+
+  /**
+   * Current trend without recording anything
+   */
+  getTrend(): QualityTrend {
+    const recent = this.samples.slice(-TREND_WINDOW);
+    const overall = describe(recent.map(sample => sample.score.overall));
+
+    const dimensions = {} as QualityTrend['dimensions'];
+    for (const dimension of DIMENSIONS) {
+      dimensions[dimension] = describe(recent.map(sample => sample.score.metrics[dimension]));
+    }
+
+    return {
+      samples: this.total,
+      window: recent.map(sample => sample.score.overall),
+      movingAverage: overall.average,
+      slope: overall.slope,
+      direction: overall.direction,
+      dimensions,
+      sparkline: sparkline(this.samples.slice(-SPARKLINE_LENGTH).map(sample => sample.score.overall))
+    };
+  }
+
+  /**
+   * Forget all samples
+   */
+  clear(): void {
+    this.samples = [];
+    this.recovering = false;
+    this.total = 0;
+  }
+}
+
+/**
+ * Render scores between 0 and 1 as block characters
+ */
+export function sparkline(values: number[]): string {
+  return values
+    .map(value => SPARK_CHARS[Math.round(Math.max(0, Math.min(1, value)) * (SPARK_CHARS.length - 1))])
+    .join('');
+}
+
+function describe(values: number[]): DimensionTrend {
+  if (values.length === 0) {
+    return { average: 0, slope: 0, direction: 'unknown' };
+  }
+
+  const average = round(mean(values));
+  if (values.length < 2) {
+    return { average, slope: 0, direction: 'unknown' };
+  }
+
+  const slope = round(leastSquaresSlope(values));
+  const direction: TrendDirection = slope > SLOPE_TOLERANCE ? 'improving' :
+    slope < -SLOPE_TOLERANCE ? 'declining' : 'stable';
+
+  return { average, slope, direction };
+}
+
+function leastSquaresSlope(values: number[]): number {
+  const xMean = (values.length - 1) / 2;
+  const yMean = mean(values);
+  let numerator = 0;
+  let denominator = 0;
+
+  values.forEach((value, index) => {
+    numerator += (index - xMean) * (value - yMean);
+    denominator += (index - xMean) ** 2;
+  });
+
+  return numerator / denominator;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,120 @@
+/**
+ * Revision chains of a reasoning session
+ *
+ * @module revision-tracker
+ * @description Keeps every version of a revised thought so its evolution can be inspected:
+ * - Versions are chained back to the original thought, however many times it is revised
+ * - Each revision is diffed word by word against the version it replaces
+ * - Later thoughts that closely resemble the replaced version are flagged as possibly stale
+ */
+
+import type { UltraThinkInput, ThoughtVersion, RevisionInfo } from '../types/interfaces.js';
+import type { ISimilarityService } from './interfaces/index.js';
+import { diffWords } from '../utils/text-diff.js';
+
+/**
+ * Similarity to the replaced version above which a later thought is flagged
+ */
+const STALE_SIMILARITY_THRESHOLD = 0.4;
+
+/**
+ * Versions kept per chain; the oldest revisions are dropped first, the original is kept
+ */
+const MAX_VERSIONS = 50;
+
+/**
+ * Tracks revision chains for one processor
+ * @class RevisionTracker
+ * @public
+ */
+export class RevisionTracker {
+  private chains: Map<number, ThoughtVersion[]> = new Map();   // Original thought -> versions
+  private origins: Map<number, number> = new Map();            // Revision thought -> original thought
+
+  constructor(
+    private similarityService: ISimilarityService,
+    private staleThreshold: number = STALE_SIMILARITY_THRESHOLD
+  ) {}
+
+  /**
+   * Record a revision; must run before the thought is added to history
+   * @param {UltraThinkInput} input - Incoming thought
+   * @param {Map<number, UltraThinkInput>} history - Thoughts recorded so far
+   * @returns {RevisionInfo | undefined} Chain, diff and stale thoughts, or undefined if the input is no revision
+   */
+  track(input: UltraThinkInput, history: Map<number, UltraThinkInput>): RevisionInfo | undefined {
+    if (!input.isRevision || !input.revisesThought) return undefined;
+
+    const originalThought = this.origins.get(input.revisesThought) ?? input.revisesThought;
+    let chain = this.chains.get(originalThought);
+    if (!chain) {
+      const original = history.get(originalThought);
+      chain = original ? [{ version: 1, thoughtNumber: originalThought, thought: original.thought }] : [];
+      this.chains.set(originalThought, chain);
+    }
+
+    // Diff against the version actually being revised, which need not be the latest
+    const replaced = chain.find(version => version.thoughtNumber === input.revisesThought) ?? chain[chain.length - 1];
+
+    const version: ThoughtVersion = {
+      version: (chain[chain.length - 1]?.version ?? 0) + 1,
+      thoughtNumber: input.thoughtNumber,
+      thought: input.thought
+    };
+    chain.push(version);
+    if (chain.length > MAX_VERSIONS) {
+      chain.splice(1, 1);
+    }
+    this.origins.set(input.thoughtNumber, originalThought);
+
+    return {
+      originalThought,
+      revisesThought: input.revisesThought,
+      version: version.version,
+      chain: [...chain],
+      diff: diffWords(replaced?.thought ?? '', input.thought),
+      possiblyStale: replaced ? this.findStale(replaced, input.thoughtNumber, history) : []
+    };
+  }
+
+  /**
+   * Get every version of a thought's chain, oldest first
+   * @param {number} thoughtNumber - The original thought or any of its revisions
+   */
+  getChain(thoughtNumber: number): ThoughtVersion[] | undefined {
+    const chain = this.chains.get(this.origins.get(thoughtNumber) ?? thoughtNumber);
+    return chain ? [...chain] : undefined;
+  }
+
+  /**
+   * Forget all chains
+   */
+  clear(): void {
+    this.chains.clear();
+    this.origins.clear();
+  }
+
+  /**
+   * Later thoughts, outside the chain, that resemble the replaced version
+   */
+  private findStale(
+    replaced: ThoughtVersion,
+    revisionNumber: number,
+    history: Map<number, UltraThinkInput>
+  ): RevisionInfo['possiblyStale'] {
+    const originalThought = this.origins.get(revisionNumber);
+    const stale: RevisionInfo['possiblyStale'] = [];
+
+    for (const [thoughtNumber, thought] of history) {
+      if (thoughtNumber <= replaced.thoughtNumber || thoughtNumber === revisionNumber) continue;
+      if (thoughtNumber === originalThought || this.origins.get(thoughtNumber) === originalThought) continue;
+
+      const similarity = this.similarityService.calculateSimilarity(replaced.thought, thought.thought);
+      if (similarity >= this.staleThreshold) {
+        stale.push({ thoughtNumber, similarity: Math.round(similarity * 1000) / 1000 });
+      }
+    }
+
+    return stale.sort((a, b) => b.similarity - a.similarity);
+  }
+}
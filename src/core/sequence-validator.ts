@@ -0,0 +1,136 @@
+/**
+ * Session-aware validation of thought sequences
+ *
+ * @module sequence-validator
+ * @description Checks an incoming thought against the session's history, where
+ * `Validator.validateInput` only sees the thought itself:
+ * - `revisesThought` and `branchFromThought` refer to recorded thoughts
+ * - Thought numbers have no gaps or duplicates, except for revisions
+ * - Serial depth only advances by one or restarts at 1
+ * - A branch id keeps the fork point it was created with
+ *
+ * In strict mode findings are errors; in lenient mode they are warnings.
+ */
+
+import type { UltraThinkInput, SequenceValidationMode } from '../types/interfaces.js';
+import { Validator } from './validator.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Outcome of validating one thought
+ */
+export interface SequenceValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * History a thought is validated against
+ */
+export interface SequenceState {
+  thoughts: Map<number, UltraThinkInput>;
+  branches: Map<string, UltraThinkInput[]>;
+  historyTrimmed?: boolean;   // Older thoughts were dropped, so references below the oldest are not checked
+}
+
+/**
+ * Validates thoughts against a session's history
+ * @class SequenceValidator
+ * @public
+ */
+export class SequenceValidator {
+  constructor(public readonly mode: Exclude<SequenceValidationMode, 'off'> = 'lenient') {}
+
+  /**
+   * Validate a thought before it is added to history
+   * @param {UltraThinkInput} input - Incoming thought
+   * @param {SequenceState} state - Recorded thoughts and branches
+   * @returns {SequenceValidationResult} Findings as errors (strict) or warnings (lenient)
+   */
+  validate(input: UltraThinkInput, state: SequenceState): SequenceValidationResult {
+    const issues = [
+      ...this.checkReferences(input, state),
+      ...this.checkNumbering(input, state),
+      ...this.checkDepth(input, state),
+      ...this.checkBranch(input, state)
+    ];
+
+    return this.mode === 'strict' ?
+      { valid: issues.length === 0, errors: issues, warnings: [] } :
+      { valid: true, errors: [], warnings: issues };
+  }
+
+  private checkReferences(input: UltraThinkInput, state: SequenceState): string[] {
+    const issues: string[] = [];
+    const oldest = state.thoughts.size > 0 ? Math.min(...state.thoughts.keys()) : undefined;
+    const exists = (thoughtNumber: number) => state.thoughts.has(thoughtNumber) ||
+      (state.historyTrimmed === true && oldest !== undefined && thoughtNumber < oldest);
+
+    if (input.revisesThought !== undefined && !exists(input.revisesThought)) {
+      issues.push(`Revised thought ${input.revisesThought} does not exist`);
+    }
+
+    if (input.branchFromThought !== undefined && !exists(input.branchFromThought)) {
+      issues.push(`Branch point thought ${input.branchFromThought} does not exist`);
+    }
+
+    return issues;
+  }
+
+  private checkNumbering(input: UltraThinkInput, state: SequenceState): string[] {
+    // Revisions may reuse or skip numbers
+    if (input.isRevision) return [];
+
+    const last = state.thoughts.size > 0 ? Math.max(...state.thoughts.keys()) : 0;
+    if (input.thoughtNumber === last + 1) return [];
+
+    // Branch thoughts may also be numbered within their branch
+    if (input.branchId) {
+      const branch = state.branches.get(input.branchId);
+      const previous = branch?.[branch.length - 1]?.thoughtNumber ?? input.branchFromThought;
+      if (previous !== undefined && input.thoughtNumber === previous + 1) return [];
+    }
+
+    if (state.thoughts.has(input.thoughtNumber)) {
+      return [`Thought ${input.thoughtNumber} already exists; mark it as a revision to replace it`];
+    }
+
+    return input.thoughtNumber > last + 1 ?
+      [`Thought number ${input.thoughtNumber} skips ahead; expected ${last + 1}`] :
+      [`Thought number ${input.thoughtNumber} is out of sequence; expected ${last + 1}`];
+  }
+
+  private checkDepth(input: UltraThinkInput, state: SequenceState): string[] {
+    if (input.ultraThinkMode !== 'serial' || input.depthLevel === undefined || input.isRevision) return [];
+
+    // Depth of the latest serial thought on the same path
+    const previous = Array.from(state.thoughts.values())
+      .filter(thought => thought.ultraThinkMode === 'serial' && thought.depthLevel !== undefined &&
+        thought.branchId === input.branchId && thought.thoughtNumber < input.thoughtNumber)
+      .sort((a, b) => b.thoughtNumber - a.thoughtNumber)[0];
+
+    try {
+      Validator.validateDepthProgression(input.depthLevel, previous?.depthLevel);
+      return [];
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return [`${error.message} (depth advances by one or restarts at 1)`];
+      }
+      throw error;
+    }
+  }
+
+  private checkBranch(input: UltraThinkInput, state: SequenceState): string[] {
+    if (!input.branchId || input.branchFromThought === undefined) return [];
+
+    const forkPoint = state.branches.get(input.branchId)?.[0]?.branchFromThought;
+    if (forkPoint !== undefined && forkPoint !== input.branchFromThought) {
+      return [
+        `Branch '${input.branchId}' forks from thought ${forkPoint}, not ${input.branchFromThought}; use a new branch id`
+      ];
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Session registry for Ultra Think processors
+ *
+ * @module session-manager
+ * @description Keeps one UltraThinkProcessor per reasoning session so that
+ * thought and branch history survive across tool calls, with:
+ * - Idle expiry of inactive sessions
+ * - A cap on concurrently held sessions (least recently used is evicted)
+ * - Replay of persisted history when a session is reopened
+ * - Event emission for session lifecycle monitoring
+ */
+
+import { UltraThinkProcessor } from './processor.js';
+import { ProcessorFactory } from './processor-factory.js';
+import { EventBus, EventNames } from './event-bus.js';
+import { Logger } from '../utils/logger.js';
+import { DEFAULT_SESSION_ID } from '../config/constants.js';
+
+/**
+ * Session manager configuration
+ */
+export interface SessionManagerConfig {
+  idleTimeoutMs: number;    // Expire sessions idle for longer than this
+  maxSessions: number;      // Maximum number of live sessions
+  sweepIntervalMs: number;  // How often idle sessions are swept
+}
+
+/**
+ * Summary of a live session
+ */
+export interface SessionInfo {
+  id: string;
+  createdAt: number;
+  lastAccessedAt: number;
+  thoughtCount: number;
+  branchCount: number;
+}
+
+/**
+ * Session expiry/close reasons
+ */
+export type SessionEndReason = 'idle' | 'capacity' | 'closed' | 'shutdown';
+
+interface SessionEntry {
+  id: string;
+  processor: UltraThinkProcessor;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * Registry that maps session ids to long-lived processors
+ * @class SessionManager
+ * @public
+ */
+export class SessionManager {
+  private sessions: Map<string, SessionEntry> = new Map();
+  private opening: Map<string, Promise<UltraThinkProcessor>> = new Map();
+  private config: SessionManagerConfig;
+  private sweepTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates a new SessionManager
+   * @param {ProcessorFactory} factory - Factory used to create per-session processors
+   * @param {Partial<SessionManagerConfig>} [config] - Expiry and capacity settings
+   * @param {EventBus} [eventBus] - Optional event bus for session events
+   * @param {Logger} [logger] - Optional logger
+   */
+  constructor(
+    private factory: ProcessorFactory,
+    config: Partial<SessionManagerConfig> = {},
+    private eventBus?: EventBus,
+    private logger?: Logger
+  ) {
+    this.config = {
+      idleTimeoutMs: config.idleTimeoutMs || 1800000, // 30 minutes
+      maxSessions: config.maxSessions || 100,
+      sweepIntervalMs: config.sweepIntervalMs || 60000 // 1 minute
+    };
+
+    this.startSweep();
+  }
+
+  /**
+   * Get the processor for a session, creating it if needed
+   * @param {string} [sessionId] - Session identifier (defaults to the shared default session)
+   * @returns {Promise<UltraThinkProcessor>} The session's processor
+   * @public
+   */
+  async acquire(sessionId: string = DEFAULT_SESSION_ID): Promise<UltraThinkProcessor> {
+    const now = Date.now();
+    const existing = this.sessions.get(sessionId);
+
+    if (existing && !this.isIdle(existing, now)) {
+      existing.lastAccessedAt = now;
+      return existing.processor;
+    }
+
+    // Concurrent calls for a session that is still opening share one processor
+    const pending = this.opening.get(sessionId);
+    if (pending) {
+      return pending;
+    }
+
+    const opening = this.open(sessionId, existing);
+    this.opening.set(sessionId, opening);
+
+    try {
+      return await opening;
+    } finally {
+      this.opening.delete(sessionId);
+    }
+  }
+
+  /**
+   * Create a processor for a session and replay its persisted history
+   */
+  private async open(sessionId: string, stale?: SessionEntry): Promise<UltraThinkProcessor> {
+    if (stale) {
+      await this.end(stale, 'idle');
+    }
+
+    // Make room before creating a new session
+    while (this.sessions.size >= this.config.maxSessions) {
+      const victim = this.findLeastRecentlyUsed();
+      if (!victim) break;
+      await this.end(victim, 'capacity');
+    }
+
+    const processor = this.factory.createProcessor(sessionId);
+
+    try {
+      await processor.restore();
+    } catch (error) {
+      this.logger?.error(`Failed to restore session: ${sessionId}`, error as Error);
+    }
+
+    const now = Date.now();
+    this.sessions.set(sessionId, {
+      id: sessionId,
+      processor,
+      createdAt: now,
+      lastAccessedAt: now
+    });
+
+    this.logger?.debug(`Session created: ${sessionId}`, { activeSessions: this.sessions.size });
+    this.eventBus?.emit(EventNames.SESSION_CREATED, { sessionId });
+
+    return processor;
+  }
+
+  /**
+   * Get the processor for an existing session without creating one
+   */
+  get(sessionId: string): UltraThinkProcessor | undefined {
+    const entry = this.sessions.get(sessionId);
+    if (!entry || this.isIdle(entry, Date.now())) {
+      return undefined;
+    }
+    return entry.processor;
+  }
+
+  /**
+   * Check if a session is live
+   */
+  has(sessionId: string): boolean {
+    return this.get(sessionId) !== undefined;
+  }
+
+  /**
+   * Close a session and release its processor
+   * @returns {Promise<boolean>} Whether a session was closed
+   */
+  async close(sessionId: string): Promise<boolean> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) {
+      return false;
+    }
+
+    await this.end(entry, 'closed');
+    return true;
+  }
+
+  /**
+   * List live sessions, most recently used first
+   */
+  list(): SessionInfo[] {
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt)
+      .map(entry => {
+        const stats = entry.processor.getHistoryStats();
+        return {
+          id: entry.id,
+          createdAt: entry.createdAt,
+          lastAccessedAt: entry.lastAccessedAt,
+          thoughtCount: stats.thoughtCount,
+          branchCount: stats.branchCount
+        };
+      });
+  }
+
+  /**
+   * Number of live sessions
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Expire sessions that have been idle longer than the configured timeout
+   * @returns {Promise<number>} Number of expired sessions
+   */
+  async sweep(): Promise<number> {
+    const now = Date.now();
+    const idle = Array.from(this.sessions.values()).filter(entry => this.isIdle(entry, now));
+
+    for (const entry of idle) {
+      await this.end(entry, 'idle');
+    }
+
+    return idle.length;
+  }
+
+  /**
+   * Stop the sweep timer and release all sessions
+   */
+  async shutdown(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+
+    for (const entry of Array.from(this.sessions.values())) {
+      await this.end(entry, 'shutdown');
+    }
+  }
+
+  /**
+   * Check if a session has exceeded the idle timeout
+   */
+  private isIdle(entry: SessionEntry, now: number): boolean {
+    return now - entry.lastAccessedAt > this.config.idleTimeoutMs;
+  }
+
+  /**
+   * Find the least recently used session
+   */
+  private findLeastRecentlyUsed(): SessionEntry | null {
+    let oldest: SessionEntry | null = null;
+
+    for (const entry of this.sessions.values()) {
+      if (!oldest || entry.lastAccessedAt < oldest.lastAccessedAt) {
+        oldest = entry;
+      }
+    }
+
+    return oldest;
+  }
+
+  /**
+   * Remove a session and shut its processor down
+   */
+  private async end(entry: SessionEntry, reason: SessionEndReason): Promise<void> {
+    this.sessions.delete(entry.id);
+
+    try {
+      await entry.processor.shutdown();
+    } catch (error) {
+      this.logger?.error(`Failed to shut down session: ${entry.id}`, error as Error);
+    }
+
+    this.logger?.debug(`Session ended: ${entry.id}`, { reason });
+    this.eventBus?.emit(
+      reason === 'idle' || reason === 'capacity' ? EventNames.SESSION_EXPIRED : EventNames.SESSION_CLOSED,
+      { sessionId: entry.id, reason }
+    );
+  }
+
+  /**
+   * Start periodic idle sweep
+   */
+  private startSweep(): void {
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => {
+        this.logger?.error('Session sweep error', error as Error);
+      });
+    }, this.config.sweepIntervalMs);
+
+    // Do not keep the process alive just for the sweep
+    this.sweepTimer.unref();
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Durable storage for reasoning sessions
+ *
+ * @module session-store
+ * @description Persists every processed thought of a session so it can be
+ * replayed after a restart, with:
+ * - In-memory backend (survives session expiry, not process restarts;
+ *   the least recently written sessions are dropped beyond a cap)
+ * - File backend: one append-only JSONL log plus an atomically written
+ *   JSON manifest per session
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ISessionStore, SessionRecord, SessionManifest } from './interfaces/index.js';
+
+export type { ISessionStore, SessionRecord, SessionManifest } from './interfaces/index.js';
+
+/**
+ * Default directory for the file backend
+ */
+export const DEFAULT_SESSION_DIR = path.join(os.homedir(), '.sequential-thinking-ultra', 'sessions');
+
+/**
+ * Default directory for the auto-save plugin, kept apart from the session store
+ * so the two never append to the same log
+ */
+export const DEFAULT_AUTOSAVE_DIR = path.join(os.homedir(), '.sequential-thinking-ultra', 'autosave');
+
+/**
+ * Sessions kept by the in-memory backend before the least recently written is dropped
+ */
+export const DEFAULT_MEMORY_STORE_SESSIONS = 1000;
+
+/**
+ * Manifest format version, bumped on incompatible record changes
+ */
+const STORE_FORMAT_VERSION = 1;
+
+/**
+ * In-memory session store
+ * @class InMemorySessionStore
+ * @public
+ */
+export class InMemorySessionStore implements ISessionStore {
+  // Insertion order doubles as write recency: appends move a session to the end
+  private records: Map<string, SessionRecord[]> = new Map();
+  private manifests: Map<string, SessionManifest> = new Map();
+
+  /**
+   * Creates a new InMemorySessionStore
+   * @param {number} [maxSessions] - Sessions kept before the least recently written is dropped
+   */
+  constructor(private readonly maxSessions: number = DEFAULT_MEMORY_STORE_SESSIONS) {}
+
+  async append(sessionId: string, record: SessionRecord): Promise<void> {
+    const records = this.records.get(sessionId) || [];
+    records.push(structuredClone(record));
+    this.records.delete(sessionId);
+    this.records.set(sessionId, records);
+    this.manifests.set(sessionId, updateManifest(this.manifests.get(sessionId), sessionId, record));
+
+    while (this.records.size > this.maxSessions) {
+      const oldest = this.records.keys().next().value as string;
+      this.records.delete(oldest);
+      this.manifests.delete(oldest);
+    }
+  }
+
+  async load(sessionId: string): Promise<SessionRecord[]> {
+    return structuredClone(this.records.get(sessionId) || []);
+  }
+
+  async getManifest(sessionId: string): Promise<SessionManifest | null> {
+    const manifest = this.manifests.get(sessionId);
+    return manifest ? { ...manifest } : null;
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.records.keys());
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    this.manifests.delete(sessionId);
+    return this.records.delete(sessionId);
+  }
+
+  async flush(): Promise<void> {
+    // Nothing buffered
+  }
+}
+
+/**
+ * File-backed session store
+ *
+ * Records are appended to `<id>.jsonl`; a torn final line from a crash is
+ * skipped on load. The `<id>.json` manifest is written to a temp file and
+ * renamed into place so readers never see a partial manifest.
+ * @class FileSessionStore
+ * @public
+ */
+export class FileSessionStore implements ISessionStore {
+  private directoryReady?: Promise<void>;
+  private writeQueues: Map<string, Promise<void>> = new Map();
+  private manifests: Map<string, SessionManifest> = new Map();
+
+  /**
+   * Creates a new FileSessionStore
+   * @param {string} [directory] - Directory holding the session files
+   */
+  constructor(private readonly directory: string = DEFAULT_SESSION_DIR) {}
+
+  async append(sessionId: string, record: SessionRecord): Promise<void> {
+    // Serialize writes per session so records keep their order
+    const previous = this.writeQueues.get(sessionId) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeRecord(sessionId, record));
+
+    this.writeQueues.set(sessionId, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.writeQueues.get(sessionId) === write) {
+        this.writeQueues.delete(sessionId);
+      }
+    }
+  }
+
+  async load(sessionId: string): Promise<SessionRecord[]> {
+    await this.writeQueues.get(sessionId)?.catch(() => undefined);
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.recordsPath(sessionId), 'utf-8');
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const records: SessionRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as SessionRecord);
+      } catch {
+        // Torn write from an interrupted append; everything before it is intact
+        break;
+      }
+    }
+
+    return records;
+  }
+
+  async getManifest(sessionId: string): Promise<SessionManifest | null> {
+    await this.writeQueues.get(sessionId)?.catch(() => undefined);
+
+    const cached = this.manifests.get(sessionId);
+    if (cached) return { ...cached };
+
+    try {
+      const content = await fs.readFile(this.manifestPath(sessionId), 'utf-8');
+      const manifest = JSON.parse(content) as SessionManifest;
+      this.manifests.set(sessionId, manifest);
+      return { ...manifest };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    return files
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => decodeURIComponent(file.slice(0, -'.jsonl'.length)));
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    await this.writeQueues.get(sessionId)?.catch(() => undefined);
+    this.manifests.delete(sessionId);
+
+    let deleted = false;
+    for (const filePath of [this.recordsPath(sessionId), this.manifestPath(sessionId)]) {
+      try {
+        await fs.unlink(filePath);
+        deleted = true;
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+
+    return deleted;
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(
+      Array.from(this.writeQueues.values()).map(write => write.catch(() => undefined))
+    );
+  }
+
+  /**
+   * Append one record and refresh the manifest
+   */
+  private async writeRecord(sessionId: string, record: SessionRecord): Promise<void> {
+    await this.ensureDirectory();
+
+    await fs.appendFile(this.recordsPath(sessionId), JSON.stringify(record) + '\n', 'utf-8');
+
+    const manifest = updateManifest(await this.getManifestUnqueued(sessionId), sessionId, record);
+    await this.writeAtomic(this.manifestPath(sessionId), JSON.stringify(manifest, null, 2));
+    this.manifests.set(sessionId, manifest);
+  }
+
+  /**
+   * Read the manifest without waiting on the write queue (called from inside it)
+   */
+  private async getManifestUnqueued(sessionId: string): Promise<SessionManifest | undefined> {
+    const cached = this.manifests.get(sessionId);
+    if (cached) return cached;
+
+    try {
+      return JSON.parse(await fs.readFile(this.manifestPath(sessionId), 'utf-8')) as SessionManifest;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a file via temp file + rename
+   */
+  private async writeAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Create the storage directory once
+   */
+  private ensureDirectory(): Promise<void> {
+    if (!this.directoryReady) {
+      this.directoryReady = fs.mkdir(this.directory, { recursive: true }).then(() => undefined);
+      this.directoryReady.catch(() => {
+        this.directoryReady = undefined;
+      });
+    }
+    return this.directoryReady;
+  }
+
+  private recordsPath(sessionId: string): string {
+    return path.join(this.directory, `${toFileName(sessionId)}.jsonl`);
+  }
+
+  private manifestPath(sessionId: string): string {
+    return path.join(this.directory, `${toFileName(sessionId)}.json`);
+  }
+}
+
+/**
+ * Session store backends
+ */
+export type SessionStoreType = 'memory' | 'file';
+
+/**
+ * Create a session store for the configured backend
+ */
+export function createSessionStore(type: SessionStoreType, directory?: string): ISessionStore {
+  return type === 'file' ? new FileSessionStore(directory) : new InMemorySessionStore();
+}
+
+/**
+ * Fold a new record into a session manifest
+ */
+function updateManifest(
+  manifest: SessionManifest | undefined,
+  sessionId: string,
+  record: SessionRecord
+): SessionManifest {
+  return {
+    sessionId,
+    version: STORE_FORMAT_VERSION,
+    createdAt: manifest?.createdAt ?? record.timestamp,
+    updatedAt: record.timestamp,
+    recordCount: (manifest?.recordCount ?? 0) + 1,
+    lastThoughtNumber: record.input.thoughtNumber
+  };
+}
+
+/**
+ * Map a session id to a safe file name
+ */
+function toFileName(sessionId: string): string {
+  if (!sessionId || sessionId === '.' || sessionId === '..') {
+    throw new Error(`Invalid session id: '${sessionId}'`);
+  }
+  return encodeURIComponent(sessionId);
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -71,6 +71,26 @@ export class Validator {
     }
   }
 
+  /**
+   * Validate arguments of the session tools against their schema
+   * @param {z.ZodType<T>} schema - Schema for the tool's arguments
+   * @param {unknown} args - Raw tool arguments
+   * @returns {T} Validated and typed arguments
+   * @throws {ValidationError} If validation fails
+   * @static
+   */
+  static validateToolArguments<T>(schema: z.ZodType<T>, args: unknown): T {
+    const result = schema.safeParse(args ?? {});
+    if (!result.success) {
+      const zodErrors = this.formatZodErrors(result.error);
+      throw new ValidationError(
+        zodErrors[0],
+        { errors: zodErrors, code: ErrorCodes.TYPE_MISMATCH }
+      );
+    }
+    return result.data;
+  }
+
   /**
    * Validate business rules not covered by schema
    * @param {UltraThinkInput} input - Input to validate
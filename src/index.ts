@@ -10,12 +10,12 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
-  ListPromptsRequestSchema,
-  ListResourcesRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { ProcessorFactory } from './core/processor-factory.js';
+import { SessionManager } from './core/session-manager.js';
+import { createSessionStore } from './core/session-store.js';
 import { Validator } from './core/validator.js';
 import { Formatter } from './core/formatter.js';
 import { coerceArguments } from './utils/type-coercion.js';
@@ -23,10 +23,17 @@ import type { UltraThinkInput } from './types/interfaces.js';
 import { getLogger } from './utils/logger.js';
 import { ErrorHandler } from './core/errors.js';
 import { EventBus } from './core/event-bus.js';
+import { EventStreamServer } from './core/event-stream.js';
 import { PluginManager } from './core/plugin-system.js';
-import { SimilarityService } from './services/similarity.service.js';
-import { BiasDetectorService } from './services/bias-detector.service.js';
-import { QualityMetricsService } from './services/quality-metrics.service.js';
+import { loadLexicons } from './core/lexicon-loader.js';
+import { CacheManager, EvictionPolicyType } from './core/cache-manager.js';
+import type { LexiconService } from './services/lexicon.service.js';
+import { HashedEmbeddingProvider, OpenAIEmbeddingProvider } from './services/embedding-providers.js';
+import { registerResourceHandlers } from './mcp/resources.js';
+import { registerPromptHandlers } from './mcp/prompts.js';
+import { registerCompletionHandler } from './mcp/completions.js';
+import { sessionTools, isSessionTool, callSessionTool } from './mcp/tools.js';
+import { startHttpTransport, HttpTransportHandle } from './mcp/http-transport.js';
 import { loadEnvironmentConfig, validateConfig } from './config/environment.js';
 import { LOGGING } from './config/constants.js';
 
@@ -51,62 +58,67 @@ const logger = getLogger({
 const eventBus = new EventBus();
 const pluginManager = new PluginManager(eventBus, logger);
 
-// Initialize services with simple dependency injection
-const similarityService = new SimilarityService();
-const services = {
-  similarityService,
-  biasDetectorService: new BiasDetectorService(similarityService),
-  qualityMetricsService: new QualityMetricsService()
-};
+// Load bias and rewriting lexicons, with overrides from the lexicon directory
+let lexiconService: LexiconService;
+try {
+  lexiconService = loadLexicons(envConfig.lexiconDirectory);
+} catch (error) {
+  console.error('Lexicon errors:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+// Embedding provider for semantic similarity
+const embeddingProvider = envConfig.embeddingMode === 'openai'
+  ? new OpenAIEmbeddingProvider({
+      baseUrl: envConfig.embeddingUrl,
+      model: envConfig.embeddingModel!,
+      apiKey: envConfig.embeddingApiKey,
+      timeoutMs: envConfig.embeddingTimeout
+    })
+  : envConfig.embeddingMode === 'hashed' ? new HashedEmbeddingProvider() : undefined;
+
+// Cache shared by all sessions: similarity scores, quality signals, query rewrites and vectors
+const cache = new CacheManager({
+  maxL1Size: envConfig.cacheL1Size,
+  maxL2Size: envConfig.cacheL2Size,
+  maxL3Size: envConfig.cacheL3Size,
+  maxL1Bytes: envConfig.cacheL1Bytes,
+  maxL2Bytes: envConfig.cacheL2Bytes,
+  maxL3Bytes: envConfig.cacheL3Bytes,
+  maxMemoryBytes: envConfig.cacheMemoryBytes,
+  l3Directory: envConfig.cacheDirectory,
+  enableDiskCache: envConfig.cacheDirectory !== undefined,
+  evictionPolicy: envConfig.cacheEvictionPolicy as EvictionPolicyType,
+  defaultTtl: envConfig.cacheTtl,
+  enableCompression: envConfig.cacheCompression
+}, logger, eventBus);
+
+// Initialize session persistence
+const sessionStore = createSessionStore(envConfig.sessionStoreType, envConfig.sessionDirectory);
 
 // Initialize processor factory
 const processorFactory = new ProcessorFactory({
   logger,
   eventBus,
   pluginManager: pluginManager as any,
-  ...services,
-  ...envConfig
+  lexiconService,
+  embeddingProvider,
+  cache,
+  ...envConfig,
+  sessionStore
 });
 
-// Initialize MCP server
-const server = new Server(
+// Initialize session registry (one processor per reasoning session)
+const sessionManager = new SessionManager(
+  processorFactory,
   {
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
+    idleTimeoutMs: envConfig.sessionIdleTimeout,
+    maxSessions: envConfig.maxSessions
   },
-  {
-    capabilities: {
-      tools: {},
-      prompts: {},
-      resources: {},
-    },
-  }
+  eventBus,
+  logger
 );
 
-// Add global message interceptor for debugging
-const originalConnect = server.connect.bind(server);
-server.connect = async (transport: any) => {
-  // Log all incoming messages
-  const originalOnMessage = transport.onmessage;
-  if (originalOnMessage) {
-    transport.onmessage = (message: any) => {
-      logger.debug('[MCP] Incoming message:', message);
-      originalOnMessage(message);
-    };
-  }
-  
-  // Log all outgoing messages
-  const originalSend = transport.send;
-  if (originalSend) {
-    transport.send = (message: any) => {
-      logger.debug('[MCP] Outgoing message:', message);
-      return originalSend.call(transport, message);
-    };
-  }
-  
-  return originalConnect(transport);
-};
-
 // Define the Ultra Think tool
 const ultraThinkTool: Tool = {
   name: 'sequential-thinking-ultra',
@@ -208,96 +220,162 @@ const ultraThinkTool: Tool = {
       },
       biasDetected: {
         type: 'string',
-        description: 'Detected cognitive bias: confirmation, anchoring, availability, overconfidence, sunk_cost'
+        description: 'Detected cognitive bias, e.g. confirmation bias, anchoring bias, planning fallacy, false dichotomy'
+      },
+      sessionId: {
+        type: 'string',
+        description: 'Reasoning session id; thoughts sharing a session share history (default: the connection\'s session over HTTP, otherwise "default")'
       }
     },
     required: ['thought', 'thoughtNumber', 'totalThoughts', 'nextThoughtNeeded']
   }
 };
 
-// Handle tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [ultraThinkTool],
-  };
-});
+// Services shared by every server instance
+const handlerContext = { sessionManager, sessionStore, eventBus, logger, cache };
 
-// Handle prompts listing
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
-  return {
-    prompts: [],
-  };
-});
-
-// Handle resources listing
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return {
-    resources: [],
-  };
-});
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  logger.debug('[MCP Server] Tool call request received:', request);
-  
-  if (request.params.name !== 'sequential-thinking-ultra') {
-    throw new Error(`Unknown tool: ${request.params.name}`);
-  }
+/**
+ * Create an MCP server with all handlers registered.
+ * stdio uses a single server; HTTP creates one per client connection.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        prompts: {},
+        completions: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+      },
+    }
+  );
 
-  logger.info('[MCP Server] Tool called: sequential-thinking-ultra');
-  
-  try {
-    // Coerce input arguments
-    const coercedArgs = coerceArguments(request.params.arguments || {});
-    logger.debug('Coerced arguments:', coercedArgs);
-    
-    // Validate input - this will ensure all required fields are present
-    const validatedInput = Validator.validateInput(coercedArgs);
-    
-    // Create processor
-    const processor = processorFactory.createProcessor();
+  // Add global message interceptor for debugging
+  const originalConnect = server.connect.bind(server);
+  server.connect = async (transport: any) => {
+    // Log all incoming messages
+    const originalOnMessage = transport.onmessage;
+    if (originalOnMessage) {
+      transport.onmessage = (message: any) => {
+        logger.debug('[MCP] Incoming message:', message);
+        originalOnMessage(message);
+      };
+    }
     
-    // Process the thought
-    const result = await processor.process(validatedInput as UltraThinkInput);
+    // Log all outgoing messages
+    const originalSend = transport.send;
+    if (originalSend) {
+      transport.send = (message: any) => {
+        logger.debug('[MCP] Outgoing message:', message);
+        return originalSend.call(transport, message);
+      };
+    }
     
-    // Format the response
-    const formattedResponse = Formatter.formatResponse(result);
-    
-    logger.info('[MCP Server] Processing completed successfully');
-    
-    // Log the response for debugging
-    const response = {
-      content: [
-        {
-          type: 'text' as const,
-          text: formattedResponse,
-        },
-      ],
+    return originalConnect(transport);
+  };
+
+  // Handle tool listing
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [ultraThinkTool, ...sessionTools],
     };
+  });
+
+  // Reasoning framework prompts, session resources and argument completion
+  registerPromptHandlers(server);
+  registerCompletionHandler(server, handlerContext);
+
+  // Stop resource notifications once the client disconnects
+  server.onclose = registerResourceHandlers(server, handlerContext);
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    logger.debug('[MCP Server] Tool call request received:', request);
     
-    logger.debug('[MCP Server] Sending response:', JSON.stringify(response));
-    
-    return response;
-  } catch (error) {
-    const errorDetails = ErrorHandler.handle(error);
-    logger.error('[MCP Server] Processing failed:', error as Error);
-    logger.error('[MCP Server] Error details:', errorDetails);
+    if (isSessionTool(request.params.name)) {
+      logger.info(`[MCP Server] Tool called: ${request.params.name}`);
+      return callSessionTool(request.params.name, request.params.arguments, handlerContext, extra.sessionId);
+    }
     
-    // Don't throw the error, return it as content
-    const errorResponse = {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Error: ${errorDetails.message || 'Processing failed'}`,
-        },
-      ],
-    };
-    
-    logger.debug('[MCP Server] Sending error response:', JSON.stringify(errorResponse));
+    if (request.params.name !== 'sequential-thinking-ultra') {
+      throw new Error(`Unknown tool: ${request.params.name}`);
+    }
+
+    logger.info('[MCP Server] Tool called: sequential-thinking-ultra');
     
-    return errorResponse;
-  }
-});
+    try {
+      // Coerce input arguments
+      const coercedArgs = coerceArguments(request.params.arguments || {});
+      logger.debug('Coerced arguments:', coercedArgs);
+      
+      // Validate input - this will ensure all required fields are present
+      const validatedInput = Validator.validateInput(coercedArgs);
+      
+      // Get the processor for this reasoning session; HTTP clients default to their transport session
+      const processor = await sessionManager.acquire(validatedInput.sessionId ?? extra.sessionId);
+      
+      // Process the thought
+      const result = await processor.process(validatedInput as UltraThinkInput);
+      
+      // Format the response
+      const formattedResponse = Formatter.formatResponse(result);
+      
+      logger.info('[MCP Server] Processing completed successfully');
+      
+      // Log the response for debugging
+      const response = {
+        content: [
+          {
+            type: 'text' as const,
+            text: formattedResponse,
+          },
+        ],
+      };
+      
+      logger.debug('[MCP Server] Sending response:', JSON.stringify(response));
+      
+      return response;
+    } catch (error) {
+      const errorDetails = ErrorHandler.handle(error);
+      logger.error('[MCP Server] Processing failed:', error as Error);
+      logger.error('[MCP Server] Error details:', errorDetails);
+      
+      // Don't throw the error, return it as content
+      const errorResponse = {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Error: ${errorDetails.message || 'Processing failed'}`,
+          },
+        ],
+      };
+      
+      logger.debug('[MCP Server] Sending error response:', JSON.stringify(errorResponse));
+      
+      return errorResponse;
+    }
+  });
+
+  return server;
+}
+
+// HTTP listener, when running in HTTP mode
+let httpTransport: HttpTransportHandle | undefined;
+
+// Optional live event stream for dashboards
+const eventStream = envConfig.eventStreamEnabled ? new EventStreamServer(eventBus, {
+  port: envConfig.eventStreamPort,
+  host: envConfig.eventStreamHost,
+  token: envConfig.eventStreamToken,
+  replaySize: envConfig.eventReplaySize
+}, logger) : undefined;
 
 // Start the server
 async function startServer() {
@@ -307,17 +385,26 @@ async function startServer() {
     // Initialize plugin manager
     await pluginManager.initialize();
     
-    const transport = new StdioServerTransport();
+    await eventStream?.start();
     
-    // Request logging is now handled in the server.connect override above
+    if (envConfig.transport === 'http') {
+      httpTransport = await startHttpTransport(createServer, {
+        port: envConfig.httpPort,
+        host: envConfig.httpHost,
+        allowedOrigins: envConfig.allowedOrigins,
+        // Each MCP session maps to the reasoning session of the same id
+        onSessionClosed: (sessionId) => sessionManager.close(sessionId).then(() => undefined)
+      }, logger);
+    } else {
+      // Request logging is handled in the server.connect override in createServer
+      await createServer().connect(new StdioServerTransport());
+    }
     
-    await server.connect(transport);
-    
-    logger.info('MCP server started successfully');
+    logger.info(`MCP server started successfully (${envConfig.transport})`);
     logger.info(`Mode: ${envConfig.defaultBudgetMode || 'balanced'}`);
     logger.info(`Quality validation: ${envConfig.enableQualityValidation ? 'enabled' : 'disabled'}`);
     logger.info(`Meta reasoning: ${envConfig.enableMetaReasoning ? 'enabled' : 'disabled'}`);
-    logger.info('Supported methods: tools/list, prompts/list, resources/list, tools/call');
+    logger.info('Supported methods: tools/list, tools/call, prompts/list, prompts/get, completion/complete, resources/list, resources/read, resources/templates/list, resources/subscribe');
   } catch (error) {
     logger.error('Failed to start server:', error as Error);
     process.exit(1);
@@ -337,15 +424,27 @@ process.on('uncaughtException', (error) => {
 });
 
 // Graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('Received SIGINT, shutting down gracefully...');
+async function shutdown(signal: string) {
+  logger.info(`Received ${signal}, shutting down gracefully...`);
+  
+  // Stop accepting clients and close open HTTP sessions
+  await httpTransport?.close();
+  await eventStream?.stop();
+  
+  // Release reasoning sessions and flush pending writes
+  await sessionManager.shutdown();
+  await sessionStore.flush();
+  cache.destroy();
   
   // Shutdown plugin manager
   await pluginManager.shutdown();
   
   logger.info('Server shutdown complete');
   process.exit(0);
-});
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
 
 // Start the server
 startServer().catch((error) => {
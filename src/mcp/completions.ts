@@ -0,0 +1,59 @@
+/**
+ * MCP argument completion
+ *
+ * @module mcp-completions
+ * @description Answers `completion/complete` for prompt arguments and for the
+ * session resource templates.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CompleteRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpHandlerContext, listSessionIds } from './context.js';
+import { getFramework, getFrameworkArguments } from './prompts.js';
+import { RESOURCE_TEMPLATES } from './resources.js';
+
+/**
+ * Protocol limit on returned completion values
+ */
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Register the completion handler on a server
+ */
+export function registerCompletionHandler(server: Server, context: McpHandlerContext): void {
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument } = request.params;
+    let candidates: string[] = [];
+
+    if (ref.type === 'ref/prompt') {
+      const framework = getFramework(ref.name);
+      const definition = framework && getFrameworkArguments(framework).find(arg => arg.name === argument.name);
+
+      if (definition?.values) {
+        candidates = definition.values;
+      } else if (definition?.name === 'sessionId') {
+        candidates = await listSessionIds(context);
+      }
+    } else if (ref.type === 'ref/resource') {
+      const isSessionTemplate = RESOURCE_TEMPLATES.some(template => template.uriTemplate === ref.uri);
+
+      if (isSessionTemplate && argument.name === 'sessionId') {
+        candidates = await listSessionIds(context);
+      } else if (isSessionTemplate && argument.name === 'branchId') {
+        const sessionId = request.params.context?.arguments?.sessionId;
+        candidates = sessionId ? context.sessionManager.get(sessionId)?.getBranchIds() || [] : [];
+      }
+    }
+
+    const prefix = argument.value.toLowerCase();
+    const matches = candidates.filter(candidate => candidate.toLowerCase().startsWith(prefix));
+
+    return {
+      completion: {
+        values: matches.slice(0, MAX_COMPLETIONS),
+        total: matches.length,
+        hasMore: matches.length > MAX_COMPLETIONS
+      }
+    };
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Shared context for MCP request handlers
+ *
+ * @module mcp-context
+ * @description Bundles the long-lived services that MCP handlers need so they
+ * can be registered on any Server instance.
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { SessionManager } from '../core/session-manager.js';
+import { UltraThinkProcessor } from '../core/processor.js';
+import { EventBus } from '../core/event-bus.js';
+import type { CacheManager } from '../core/cache-manager.js';
+import type { ISessionStore } from '../core/interfaces/index.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Services available to MCP handlers
+ */
+export interface McpHandlerContext {
+  sessionManager: SessionManager;
+  sessionStore: ISessionStore;
+  eventBus: EventBus;
+  logger: Logger;
+  cache?: CacheManager;
+}
+
+/**
+ * List all known sessions: live ones first, then persisted-only ones
+ */
+export async function listSessionIds(context: McpHandlerContext): Promise<string[]> {
+  const live = context.sessionManager.list().map(session => session.id);
+  const persisted = await context.sessionStore.list();
+  return Array.from(new Set([...live, ...persisted]));
+}
+
+/**
+ * Get the processor of an existing session, reopening it from the store if needed.
+ * Unlike `SessionManager.acquire` this never creates an empty session.
+ * @throws {McpError} If the session is neither live nor persisted
+ */
+export async function resolveSession(
+  context: McpHandlerContext,
+  sessionId: string
+): Promise<UltraThinkProcessor> {
+  if (!context.sessionManager.has(sessionId) && !(await context.sessionStore.getManifest(sessionId))) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown session: ${sessionId}`);
+  }
+
+  return context.sessionManager.acquire(sessionId);
+}
@@ -0,0 +1,261 @@
+/**
+ * HTTP transports for the MCP server
+ *
+ * @module http-transport
+ * @description Serves MCP over HTTP so several clients can share one server:
+ * - Streamable HTTP on `/mcp` (POST/GET/DELETE, `Mcp-Session-Id` header)
+ * - Legacy HTTP+SSE on `/sse` (event stream) and `/messages` (client POSTs)
+ * - `/health` for container probes
+ *
+ * Every client connection gets its own Server from the factory, since a
+ * Server can only be connected to one transport. Browser requests are
+ * checked against the allowed origins and answered with CORS headers.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ValidationError } from '../core/errors.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Origins accepted when no allow-list is configured
+ */
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  allowedOrigins: string[];                                // '*' allows any origin
+  onSessionClosed?: (sessionId: string) => void | Promise<void>;
+}
+
+export interface HttpTransportHandle {
+  readonly port: number;
+  readonly sessionCount: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the HTTP listener
+ * @param {() => Server} createServer - Builds a fully configured Server per client connection
+ * @returns {Promise<HttpTransportHandle>} Handle used to stop the listener
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions,
+  logger: Logger
+): Promise<HttpTransportHandle> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const legacy = new Map<string, SSEServerTransport>();
+
+  const sessionClosed = (sessionId: string) => {
+    logger.debug(`[HTTP] Session closed: ${sessionId}`);
+    Promise.resolve(options.onSessionClosed?.(sessionId)).catch(error => {
+      logger.error(`[HTTP] Failed to release session: ${sessionId}`, error as Error);
+    });
+  };
+
+  /**
+   * Streamable HTTP: route by session header, create a session on initialize
+   */
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const transport = streamable.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamable.set(id, transport);
+        logger.debug(`[HTTP] Session initialized: ${id}`);
+      }
+    });
+
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && streamable.delete(id)) {
+        sessionClosed(id);
+      }
+    };
+
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Legacy SSE: the GET opens the stream, POSTs carry the session in the query
+   */
+  const handleSseConnect = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    const id = transport.sessionId;
+    legacy.set(id, transport);
+
+    transport.onclose = () => {
+      if (legacy.delete(id)) {
+        sessionClosed(id);
+      }
+    };
+
+    await createServer().connect(transport);
+    logger.debug(`[HTTP] SSE session opened: ${id}`);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, sessionId: string | null) => {
+    const transport = sessionId ? legacy.get(sessionId) : undefined;
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      if (!applyCors(req, res, options.allowedOrigins)) {
+        logger.warn(`[HTTP] Rejected origin: ${req.headers.origin}`);
+        sendJsonRpcError(res, 403, -32000, 'Forbidden: origin not allowed');
+        return;
+      }
+
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+      }
+
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      } else if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ status: 'ok', sessions: streamable.size + legacy.size }));
+      } else {
+        sendJsonRpcError(res, 404, -32000, 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        sendJsonRpcError(res, error.statusCode, error.details?.rpcCode ?? -32000, error.message);
+        return;
+      }
+      logger.error('[HTTP] Request failed', error as Error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  logger.info(`[HTTP] Listening on http://${options.host}:${port} (/mcp, /sse)`);
+
+  return {
+    port,
+
+    get sessionCount() {
+      return streamable.size + legacy.size;
+    },
+
+    async close() {
+      const transports = [...streamable.values(), ...legacy.values()];
+      await Promise.all(transports.map(transport => transport.close().catch(error => {
+        logger.error('[HTTP] Failed to close transport', error as Error);
+      })));
+
+      await new Promise<void>(resolve => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
+
+/**
+ * Check the request origin and set CORS headers
+ * @returns {boolean} Whether the origin is allowed
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+
+  // Non-browser clients do not send an Origin header
+  if (!origin) return true;
+
+  const allowed = allowedOrigins.includes('*') || allowedOrigins.includes(origin) ||
+    (allowedOrigins.length === 0 && LOCAL_ORIGIN.test(origin));
+  if (!allowed) return false;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+  );
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  return true;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ValidationError('Request body too large', { limit: MAX_BODY_BYTES, rpcCode: -32000 });
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new ValidationError('Parse error: invalid JSON', { rpcCode: -32700 });
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
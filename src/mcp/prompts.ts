@@ -0,0 +1,268 @@
+/**
+ * MCP prompt library for reasoning frameworks
+ *
+ * @module mcp-prompts
+ * @description Parameterized kickoff prompts that start a reasoning session
+ * preconfigured for a well-known framework. Each framework seeds
+ * `ultraThinkMode`, `budgetMode`, `totalThoughts` and `maxDepth`.
+ */
+
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
+  Prompt
+} from '@modelcontextprotocol/sdk/types.js';
+import type { UltraThinkInput } from '../types/interfaces.js';
+
+export const BUDGET_MODES: NonNullable<UltraThinkInput['budgetMode']>[] = [
+  'fast', 'balanced', 'thorough', 'exhaustive'
+];
+
+/**
+ * Session settings a framework starts with
+ */
+export interface FrameworkSettings {
+  ultraThinkMode: NonNullable<UltraThinkInput['ultraThinkMode']>;
+  budgetMode: NonNullable<UltraThinkInput['budgetMode']>;
+  totalThoughts: number;
+  maxDepth: number;
+}
+
+/**
+ * Prompt argument; `values` lists the accepted values offered for completion
+ */
+export interface FrameworkArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+  values?: string[];
+}
+
+/**
+ * A reasoning framework exposed as a prompt
+ */
+export interface ReasoningFramework {
+  name: string;
+  title: string;
+  description: string;
+  subject: string;                     // Argument holding the topic to reason about
+  arguments: FrameworkArgument[];
+  settings: FrameworkSettings;
+  steps: string[];
+}
+
+/**
+ * Arguments every framework accepts
+ */
+const COMMON_ARGUMENTS: FrameworkArgument[] = [
+  {
+    name: 'sessionId',
+    description: 'Session to run in (default: a new session named after the framework)'
+  },
+  {
+    name: 'budgetMode',
+    description: 'Override the framework\'s budget mode',
+    values: BUDGET_MODES
+  }
+];
+
+export const REASONING_FRAMEWORKS: ReasoningFramework[] = [
+  {
+    name: 'five-whys',
+    title: 'Root cause analysis (5 whys)',
+    description: 'Drill from a symptom to its root cause by repeatedly asking why',
+    subject: 'problem',
+    arguments: [
+      { name: 'problem', description: 'The problem or incident to analyze', required: true },
+      { name: 'context', description: 'Known facts, timeline or constraints' }
+    ],
+    settings: { ultraThinkMode: 'serial', budgetMode: 'balanced', totalThoughts: 7, maxDepth: 5 },
+    steps: [
+      'State the problem precisely, with the observable symptoms',
+      'Ask "why?" once per thought, going one depthLevel deeper each time (up to maxDepth)',
+      'Stop when the answer is a cause you can act on rather than another symptom',
+      'Check that the root cause explains every symptom; revise earlier whys if it does not',
+      'Propose a corrective action and how to verify it'
+    ]
+  },
+  {
+    name: 'pre-mortem',
+    title: 'Pre-mortem',
+    description: 'Assume a plan has already failed and work out why',
+    subject: 'plan',
+    arguments: [
+      { name: 'plan', description: 'The plan, project or launch to stress-test', required: true },
+      { name: 'horizon', description: 'When the failure is imagined, e.g. "6 months after launch"' }
+    ],
+    settings: { ultraThinkMode: 'parallel', budgetMode: 'thorough', totalThoughts: 10, maxDepth: 3 },
+    steps: [
+      'Imagine the plan has failed badly at the horizon and describe the failure',
+      'Explore one failure story per branch (branchId): technical, people, process and external causes',
+      'Rate each failure story for likelihood and impact',
+      'Turn the top risks into concrete mitigations or early warning signs',
+      'Summarize what should change in the plan before starting'
+    ]
+  },
+  {
+    name: 'swot',
+    title: 'SWOT analysis',
+    description: 'Map strengths, weaknesses, opportunities and threats',
+    subject: 'subject',
+    arguments: [
+      { name: 'subject', description: 'Product, team, strategy or option to assess', required: true },
+      { name: 'goal', description: 'Objective the analysis should serve' }
+    ],
+    settings: { ultraThinkMode: 'parallel', budgetMode: 'balanced', totalThoughts: 8, maxDepth: 2 },
+    steps: [
+      'Explore strengths, weaknesses, opportunities and threats in four branches (branchId)',
+      'Back every point with evidence rather than impressions',
+      'Combine quadrants: use strengths on opportunities, shore up weaknesses exposed to threats',
+      'Conclude with the two or three moves that matter most for the goal'
+    ]
+  },
+  {
+    name: 'decision-analysis',
+    title: 'Decision analysis',
+    description: 'Compare options against weighted criteria and recommend one',
+    subject: 'decision',
+    arguments: [
+      { name: 'decision', description: 'The decision to make', required: true },
+      { name: 'options', description: 'Comma-separated options already on the table' },
+      { name: 'criteria', description: 'Comma-separated criteria that matter' }
+    ],
+    settings: { ultraThinkMode: 'hybrid', budgetMode: 'thorough', totalThoughts: 12, maxDepth: 4 },
+    steps: [
+      'Frame the decision, list the options and weight the criteria',
+      'Evaluate each option in its own branch (branchId) against every criterion',
+      'Look for anchoring on the first option and sunk-cost reasoning',
+      'Compare the branches, including the cost of being wrong',
+      'Recommend an option with a confidence level and what would change your mind'
+    ]
+  },
+  {
+    name: 'debugging-triage',
+    title: 'Debugging triage',
+    description: 'Triage a bug or outage from symptom to mitigation and fix',
+    subject: 'symptom',
+    arguments: [
+      { name: 'symptom', description: 'What is going wrong, as observed', required: true },
+      {
+        name: 'severity',
+        description: 'How severe the impact is',
+        values: ['critical', 'high', 'medium', 'low']
+      },
+      { name: 'environment', description: 'Where it happens: versions, platform, recent changes' }
+    ],
+    settings: { ultraThinkMode: 'hybrid', budgetMode: 'fast', totalThoughts: 8, maxDepth: 4 },
+    steps: [
+      'Capture the symptoms, the reproduction steps and what changed recently',
+      'Assess the blast radius and decide whether to mitigate before diagnosing',
+      'List hypotheses as branches (branchId), ranked by likelihood',
+      'Pick the cheapest check that tells the top hypotheses apart, then go deeper on the survivor',
+      'Describe the fix, how to verify it and the follow-up to prevent a recurrence'
+    ]
+  }
+];
+
+/**
+ * Find a framework by prompt name
+ */
+export function getFramework(name: string): ReasoningFramework | undefined {
+  return REASONING_FRAMEWORKS.find(framework => framework.name === name);
+}
+
+/**
+ * All arguments of a framework, including the common ones
+ */
+export function getFrameworkArguments(framework: ReasoningFramework): FrameworkArgument[] {
+  return [...framework.arguments, ...COMMON_ARGUMENTS];
+}
+
+/**
+ * Render the kickoff instructions for a framework
+ * @throws {McpError} If a required argument is missing or a value is not accepted
+ */
+export function renderFrameworkPrompt(
+  framework: ReasoningFramework,
+  args: Record<string, string> = {}
+): string {
+  for (const argument of getFrameworkArguments(framework)) {
+    const value = args[argument.name];
+    if (argument.required && !value?.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${argument.name}`);
+    }
+    if (value && argument.values && !argument.values.includes(value)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid ${argument.name}: '${value}' (expected one of ${argument.values.join(', ')})`
+      );
+    }
+  }
+
+  const settings = {
+    sessionId: args.sessionId || `${framework.name}-${randomUUID().slice(0, 8)}`,
+    ...framework.settings,
+    budgetMode: (args.budgetMode as FrameworkSettings['budgetMode']) || framework.settings.budgetMode
+  };
+
+  const details = framework.arguments
+    .filter(argument => argument.name !== framework.subject && args[argument.name])
+    .map(argument => `- ${argument.name}: ${args[argument.name]}`);
+
+  const lines = [
+    `Use the sequential-thinking-ultra tool to run a ${framework.title} on: ${args[framework.subject]}`,
+    ...(details.length > 0 ? ['', 'Details:', ...details] : []),
+    '',
+    'Pass these settings on every call (totalThoughts may be adjusted as you learn more):',
+    ...Object.entries(settings).map(([key, value]) => `- ${key}: ${JSON.stringify(value)}`),
+    '',
+    'Plan:',
+    ...framework.steps.map((step, index) => `${index + 1}. ${step}`)
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Register prompt handlers on a server
+ */
+export function registerPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts: Prompt[] = REASONING_FRAMEWORKS.map(framework => ({
+      name: framework.name,
+      title: framework.title,
+      description: framework.description,
+      arguments: getFrameworkArguments(framework).map(({ name, description, required }) => ({
+        name,
+        description,
+        required: required || false
+      }))
+    }));
+
+    return { prompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const framework = getFramework(request.params.name);
+    if (!framework) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+    }
+
+    return {
+      description: framework.description,
+      messages: [
+        {
+          role: 'user' as const,
+          content: {
+            type: 'text' as const,
+            text: renderFrameworkPrompt(framework, request.params.arguments)
+          }
+        }
+      ]
+    };
+  });
+}
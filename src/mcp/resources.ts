@@ -0,0 +1,251 @@
+/**
+ * MCP resources for reasoning sessions
+ *
+ * @module mcp-resources
+ * @description Exposes every session's reasoning trail as resources:
+ * - `thinking://sessions/{sessionId}` - session summary with all thoughts
+ * - `thinking://sessions/{sessionId}/thoughts/{thoughtNumber}` - a single thought
+ * - `thinking://sessions/{sessionId}/branches/{branchId}` - a branch's thoughts
+ *
+ * Subscribed clients receive `notifications/resources/updated` whenever a
+ * thought is processed in the matching session or the session is reset.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+  Resource,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/types.js';
+import { EventNames, ThoughtProcessedEvent, SessionEvent } from '../core/event-bus.js';
+import type { ThoughtRecord } from '../types/interfaces.js';
+import { McpHandlerContext, listSessionIds, resolveSession } from './context.js';
+
+const URI_PREFIX = 'thinking://sessions/';
+const MIME_TYPE = 'application/json';
+
+/**
+ * Parsed resource location
+ */
+export type SessionResourceRef =
+  | { kind: 'session'; sessionId: string }
+  | { kind: 'thought'; sessionId: string; thoughtNumber: number }
+  | { kind: 'branch'; sessionId: string; branchId: string };
+
+export function sessionUri(sessionId: string): string {
+  return `${URI_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+export function thoughtUri(sessionId: string, thoughtNumber: number): string {
+  return `${sessionUri(sessionId)}/thoughts/${thoughtNumber}`;
+}
+
+export function branchUri(sessionId: string, branchId: string): string {
+  return `${sessionUri(sessionId)}/branches/${encodeURIComponent(branchId)}`;
+}
+
+/**
+ * Parse a `thinking://sessions/...` URI
+ * @returns {SessionResourceRef | null} The referenced resource, or null if the URI is not ours
+ */
+export function parseResourceUri(uri: string): SessionResourceRef | null {
+  const match = uri.match(/^thinking:\/\/sessions\/([^/]+)(?:\/(thoughts|branches)\/([^/]+))?$/);
+  if (!match) return null;
+
+  try {
+    const sessionId = decodeURIComponent(match[1]);
+    if (!match[2]) {
+      return { kind: 'session', sessionId };
+    }
+
+    if (match[2] === 'thoughts') {
+      const thoughtNumber = Number(match[3]);
+      return Number.isInteger(thoughtNumber) && thoughtNumber > 0
+        ? { kind: 'thought', sessionId, thoughtNumber }
+        : null;
+    }
+
+    return { kind: 'branch', sessionId, branchId: decodeURIComponent(match[3]) };
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+/**
+ * Resource templates advertised to clients
+ */
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${URI_PREFIX}{sessionId}`,
+    name: 'Reasoning session',
+    description: 'Session summary with every recorded thought and branch',
+    mimeType: MIME_TYPE
+  },
+  {
+    uriTemplate: `${URI_PREFIX}{sessionId}/thoughts/{thoughtNumber}`,
+    name: 'Thought',
+    description: 'A single thought with its processing metadata',
+    mimeType: MIME_TYPE
+  },
+  {
+    uriTemplate: `${URI_PREFIX}{sessionId}/branches/{branchId}`,
+    name: 'Branch',
+    description: 'Thoughts of one parallel reasoning branch, in order',
+    mimeType: MIME_TYPE
+  }
+];
+
+/**
+ * Register resource handlers on a server
+ * @returns {() => void} Disposer that stops update notifications for this server
+ */
+export function registerResourceHandlers(server: Server, context: McpHandlerContext): () => void {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources: Resource[] = (await listSessionIds(context)).map(sessionId => ({
+      uri: sessionUri(sessionId),
+      name: `Reasoning session '${sessionId}'`,
+      mimeType: MIME_TYPE
+    }));
+
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const ref = parseResourceUri(uri);
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const body = await readResource(context, ref, uri);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: MIME_TYPE,
+          text: JSON.stringify(body, null, 2)
+        }
+      ]
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    if (!parseResourceUri(request.params.uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+    }
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = (send: () => Promise<void>) => {
+    send().catch(error => {
+      context.logger.debug('[MCP] Resource notification not delivered', { error: (error as Error).message });
+    });
+  };
+
+  const offProcessed = context.eventBus.on<ThoughtProcessedEvent>(EventNames.THOUGHT_PROCESSED, (event) => {
+    if (!event.sessionId || subscriptions.size === 0) return;
+
+    const affected = [sessionUri(event.sessionId), thoughtUri(event.sessionId, event.input.thoughtNumber)];
+    if (event.input.branchId) {
+      affected.push(branchUri(event.sessionId, event.input.branchId));
+    }
+
+    for (const uri of affected) {
+      if (subscriptions.has(uri)) {
+        notify(() => server.sendResourceUpdated({ uri }));
+      }
+    }
+  });
+
+  const offCreated = context.eventBus.on<SessionEvent>(EventNames.SESSION_CREATED, () => {
+    notify(() => server.sendResourceListChanged());
+  });
+
+  // A reset empties every resource of the session
+  const offReset = context.eventBus.on<SessionEvent>(EventNames.SESSION_RESET, (event) => {
+    for (const uri of subscriptions) {
+      if (parseResourceUri(uri)?.sessionId === event.sessionId) {
+        notify(() => server.sendResourceUpdated({ uri }));
+      }
+    }
+  });
+
+  return () => {
+    offProcessed();
+    offCreated();
+    offReset();
+    subscriptions.clear();
+  };
+}
+
+/**
+ * Build the JSON body of a resource
+ */
+async function readResource(
+  context: McpHandlerContext,
+  ref: SessionResourceRef,
+  uri: string
+): Promise<unknown> {
+  const processor = await resolveSession(context, ref.sessionId);
+
+  switch (ref.kind) {
+    case 'session':
+      return {
+        sessionId: ref.sessionId,
+        stats: processor.getHistoryStats(),
+        branches: processor.getBranchIds().map(branchId => ({
+          branchId,
+          uri: branchUri(ref.sessionId, branchId)
+        })),
+        thoughts: processor.getThoughts().map(record => toThoughtView(ref.sessionId, record))
+      };
+
+    case 'thought': {
+      const record = processor.getThought(ref.thoughtNumber);
+      if (!record) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+      }
+      return { sessionId: ref.sessionId, ...toThoughtView(ref.sessionId, record) };
+    }
+
+    case 'branch': {
+      const branch = processor.getBranch(ref.branchId);
+      if (!branch) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+      }
+      return {
+        sessionId: ref.sessionId,
+        branchId: ref.branchId,
+        thoughts: branch
+      };
+    }
+  }
+}
+
+function toThoughtView(sessionId: string, record: ThoughtRecord) {
+  return {
+    uri: thoughtUri(sessionId, record.thoughtNumber),
+    ...record.input,
+    metadata: record.metadata
+  };
+}
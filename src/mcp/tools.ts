@@ -0,0 +1,515 @@
+/**
+ * Companion MCP tools for session inspection and control
+ *
+ * @module mcp-tools
+ * @description Tools that read or reset processor state so the model can
+ * recall earlier steps without keeping them in its own context:
+ * - `get_thought_history` - recorded thoughts, optionally filtered
+ * - `get_branch` - the thoughts of one branch
+ * - `reset_session` - clear a session's history, including persisted records
+ * - `session_stats` - history statistics for one session
+ * - `list_sessions` - live and persisted sessions
+ * - `converge_branches` - compare parallel branches and record the merge
+ * - `cache_stats` - hit rates and sizes of the shared cache, per tier and namespace
+ */
+
+import { z } from 'zod';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_SESSION_ID } from '../config/constants.js';
+import { Validator } from '../core/validator.js';
+import { ErrorHandler } from '../core/errors.js';
+import { coerceArguments } from '../utils/type-coercion.js';
+import {
+  GetThoughtHistorySchema,
+  GetBranchSchema,
+  SessionTargetSchema,
+  ListSessionsSchema,
+  ConvergeBranchesSchema,
+  CacheStatsSchema
+} from '../types/schemas.js';
+import type { ThoughtRecord, UltraThinkInput } from '../types/interfaces.js';
+import { McpHandlerContext, listSessionIds, resolveSession } from './context.js';
+
+const sessionIdProperty = {
+  type: 'string',
+  description: 'Reasoning session id (default: the connection\'s session over HTTP, otherwise "default")'
+};
+
+/**
+ * JSON schema of a thought in tool results
+ */
+const thoughtEntrySchema = {
+  type: 'object',
+  properties: {
+    thoughtNumber: { type: 'number' },
+    totalThoughts: { type: 'number' },
+    thought: { type: 'string' },
+    nextThoughtNeeded: { type: 'boolean' },
+    branchId: { type: 'string' },
+    branchFromThought: { type: 'number' },
+    isRevision: { type: 'boolean' },
+    revisesThought: { type: 'number' },
+    depthLevel: { type: 'number' },
+    confidence: { type: 'number' },
+    qualityScore: { type: 'number', description: 'Overall quality (0-1)' },
+    biasDetected: { type: 'string' }
+  },
+  required: ['thoughtNumber', 'totalThoughts', 'thought', 'nextThoughtNeeded']
+};
+
+const historyStatsProperties = {
+  thoughtCount: { type: 'number' },
+  branchCount: { type: 'number' },
+  lastThoughtNumber: { type: 'number' },
+  totalThoughts: { type: 'number' },
+  revisionCount: { type: 'number' },
+  biasCount: { type: 'number' },
+  averageQuality: { type: ['number', 'null'] },
+  branches: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        branchId: { type: 'string' },
+        thoughtCount: { type: 'number' }
+      },
+      required: ['branchId', 'thoughtCount']
+    }
+  },
+  cacheStats: { type: 'object' }
+};
+
+export const sessionTools: Tool[] = [
+  {
+    name: 'get_thought_history',
+    description: 'Recall recorded thoughts of a reasoning session, optionally filtered by branch or thought range',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: sessionIdProperty,
+        branchId: { type: 'string', description: 'Only thoughts of this branch' },
+        fromThought: { type: 'number', description: 'First thought number to include' },
+        toThought: { type: 'number', description: 'Last thought number to include' },
+        limit: { type: 'number', description: 'Return only the most recent N matching thoughts' }
+      }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string' },
+        total: { type: 'number', description: 'Matching thoughts before the limit was applied' },
+        thoughts: { type: 'array', items: thoughtEntrySchema }
+      },
+      required: ['sessionId', 'total', 'thoughts']
+    }
+  },
+  {
+    name: 'get_branch',
+    description: 'Get the thoughts of one parallel reasoning branch, in the order they were added',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: sessionIdProperty,
+        branchId: { type: 'string', description: 'Branch identifier' }
+      },
+      required: ['branchId']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string' },
+        branchId: { type: 'string' },
+        branchFromThought: { type: 'number' },
+        thoughts: { type: 'array', items: thoughtEntrySchema }
+      },
+      required: ['sessionId', 'branchId', 'thoughts']
+    }
+  },
+  {
+    name: 'reset_session',
+    description: 'Clear the thought and branch history of a session, including its persisted records',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: sessionIdProperty
+      }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string' },
+        clearedThoughts: { type: 'number' },
+        clearedBranches: { type: 'number' }
+      },
+      required: ['sessionId', 'clearedThoughts', 'clearedBranches']
+    }
+  },
+  {
+    name: 'session_stats',
+    description: 'History statistics of a session: progress, revisions, branches, quality and detected biases',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: sessionIdProperty
+      }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string' },
+        createdAt: { type: 'number', description: 'Epoch ms the session was opened' },
+        lastAccessedAt: { type: 'number', description: 'Epoch ms of the last access' },
+        persistedRecords: { type: 'number' },
+        ...historyStatsProperties
+      },
+      required: ['sessionId', 'thoughtCount', 'branchCount']
+    }
+  },
+  {
+    name: 'list_sessions',
+    description: 'List reasoning sessions, most recently used first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includePersisted: {
+          type: 'boolean',
+          description: 'Also list sessions that are only in the session store (default: true)'
+        }
+      }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              sessionId: { type: 'string' },
+              live: { type: 'boolean' },
+              thoughtCount: { type: 'number' },
+              branchCount: { type: 'number' },
+              lastAccessedAt: { type: 'number' },
+              persistedRecords: { type: 'number' },
+              updatedAt: { type: 'number' }
+            },
+            required: ['sessionId', 'live']
+          }
+        }
+      },
+      required: ['sessions']
+    }
+  },
+  {
+    name: 'converge_branches',
+    description: 'Compare parallel reasoning branches (quality, biases, shared and unique key terms), ' +
+      'recommend one to continue from, and record the comparison as a new thought linked to every branch',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: sessionIdProperty,
+        branchIds: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 2,
+          description: 'Branches to converge'
+        }
+      },
+      required: ['branchIds']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string' },
+        branches: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              branchId: { type: 'string' },
+              thoughtCount: { type: 'number' },
+              averageQuality: { type: ['number', 'null'] },
+              averageConfidence: { type: ['number', 'null'] },
+              biases: { type: 'array', items: { type: 'string' } },
+              keyTerms: { type: 'array', items: { type: 'string' } },
+              uniqueTerms: { type: 'array', items: { type: 'string' } },
+              score: { type: 'number', description: 'Recommendation score (0-1)' }
+            },
+            required: ['branchId', 'thoughtCount', 'biases', 'keyTerms', 'uniqueTerms', 'score']
+          }
+        },
+        sharedTerms: { type: 'array', items: { type: 'string' } },
+        similarities: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              a: { type: 'string' },
+              b: { type: 'string' },
+              score: { type: 'number' }
+            },
+            required: ['a', 'b', 'score']
+          }
+        },
+        recommendedBranch: { type: 'string' },
+        rationale: { type: 'string' },
+        thought: thoughtEntrySchema
+      },
+      required: ['sessionId', 'branches', 'sharedTerms', 'recommendedBranch', 'thought']
+    }
+  },
+  {
+    name: 'cache_stats',
+    description: 'Diagnostics of the cache shared by all sessions: hit rates and entries per tier and per ' +
+      'namespace (similarity, embeddings, quality, rewrite)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        namespace: { type: 'string', description: 'Only report this namespace' }
+      }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sizes: {
+          type: 'object',
+          properties: {
+            l1: { type: 'number' },
+            l2: { type: 'number' },
+            l3: { type: 'number' }
+          },
+          required: ['l1', 'l2', 'l3']
+        },
+        totalHits: { type: 'number' },
+        totalMisses: { type: 'number' },
+        hitRate: { type: 'number' },
+        l1Hits: { type: 'number' },
+        l2Hits: { type: 'number' },
+        l3Hits: { type: 'number' },
+        evictions: { type: 'number' },
+        bytes: {
+          type: 'object',
+          description: 'Bytes held per tier; L2 counts compressed entries at their compressed size',
+          properties: {
+            l1: { type: 'number' },
+            l2: { type: 'number' },
+            l3: { type: 'number' }
+          },
+          required: ['l1', 'l2', 'l3']
+        },
+        namespaces: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              hits: { type: 'number' },
+              misses: { type: 'number' },
+              hitRate: { type: 'number' },
+              entries: { type: 'number' }
+            },
+            required: ['hits', 'misses', 'hitRate', 'entries']
+          }
+        }
+      },
+      required: ['sizes', 'bytes', 'hitRate', 'namespaces']
+    }
+  }
+];
+
+type ToolHandler = (
+  args: unknown,
+  context: McpHandlerContext,
+  defaultSessionId: string
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Validate arguments with a schema before running the handler
+ */
+function withArguments<T>(
+  schema: z.ZodType<T>,
+  handler: (args: T, context: McpHandlerContext, defaultSessionId: string) => Promise<Record<string, unknown>>
+): ToolHandler {
+  return (args, context, defaultSessionId) =>
+    handler(Validator.validateToolArguments(schema, args), context, defaultSessionId);
+}
+
+const handlers: Record<string, ToolHandler> = {
+  get_thought_history: withArguments(GetThoughtHistorySchema, async (args, context, defaultSessionId) => {
+    const sessionId = args.sessionId || defaultSessionId;
+    const processor = await resolveSession(context, sessionId);
+
+    const matching = processor.getThoughts().filter(record =>
+      (!args.branchId || record.input.branchId === args.branchId) &&
+      (!args.fromThought || record.thoughtNumber >= args.fromThought) &&
+      (!args.toThought || record.thoughtNumber <= args.toThought)
+    );
+    const selected = args.limit ? matching.slice(-args.limit) : matching;
+
+    return {
+      sessionId,
+      total: matching.length,
+      thoughts: selected.map(record => toThoughtEntry(record.input, record))
+    };
+  }),
+
+  get_branch: withArguments(GetBranchSchema, async (args, context, defaultSessionId) => {
+    const sessionId = args.sessionId || defaultSessionId;
+    const processor = await resolveSession(context, sessionId);
+
+    const branch = processor.getBranch(args.branchId);
+    if (!branch) {
+      throw new Error(`Unknown branch '${args.branchId}' in session '${sessionId}'`);
+    }
+
+    return {
+      sessionId,
+      branchId: args.branchId,
+      branchFromThought: branch[0]?.branchFromThought,
+      thoughts: branch.map(input => {
+        // Metadata is tracked per thought number; only use it if it belongs to this branch
+        const record = processor.getThought(input.thoughtNumber);
+        return toThoughtEntry(input, record?.input.branchId === args.branchId ? record : undefined);
+      })
+    };
+  }),
+
+  reset_session: withArguments(SessionTargetSchema, async (args, context, defaultSessionId) => {
+    const sessionId = args.sessionId || defaultSessionId;
+    const processor = await resolveSession(context, sessionId);
+    const cleared = await processor.reset();
+
+    return {
+      sessionId,
+      clearedThoughts: cleared.thoughtCount,
+      clearedBranches: cleared.branchCount
+    };
+  }),
+
+  session_stats: withArguments(SessionTargetSchema, async (args, context, defaultSessionId) => {
+    const sessionId = args.sessionId || defaultSessionId;
+    const processor = await resolveSession(context, sessionId);
+    const info = context.sessionManager.list().find(session => session.id === sessionId);
+    const manifest = await context.sessionStore.getManifest(sessionId);
+
+    return {
+      sessionId,
+      createdAt: info?.createdAt,
+      lastAccessedAt: info?.lastAccessedAt,
+      persistedRecords: manifest?.recordCount ?? 0,
+      ...processor.getHistoryStats()
+    };
+  }),
+
+  list_sessions: withArguments(ListSessionsSchema, async (args, context) => {
+    const live = context.sessionManager.list();
+    const liveIds = new Set(live.map(session => session.id));
+    const sessionIds = args.includePersisted === false ? Array.from(liveIds) : await listSessionIds(context);
+
+    const sessions = await Promise.all(sessionIds.map(async sessionId => {
+      const info = live.find(session => session.id === sessionId);
+      const manifest = await context.sessionStore.getManifest(sessionId);
+
+      return {
+        sessionId,
+        live: liveIds.has(sessionId),
+        thoughtCount: info?.thoughtCount,
+        branchCount: info?.branchCount,
+        lastAccessedAt: info?.lastAccessedAt,
+        persistedRecords: manifest?.recordCount,
+        updatedAt: manifest?.updatedAt
+      };
+    }));
+
+    return { sessions };
+  }),
+
+  converge_branches: withArguments(ConvergeBranchesSchema, async (args, context, defaultSessionId) => {
+    const sessionId = args.sessionId || defaultSessionId;
+    const processor = await resolveSession(context, sessionId);
+    const { thought, ...report } = await processor.convergeBranches(args.branchIds);
+
+    return {
+      sessionId,
+      ...report,
+      thought: toThoughtEntry(thought.input, thought)
+    };
+  }),
+
+  cache_stats: withArguments(CacheStatsSchema, async (args, context) => {
+    if (!context.cache) {
+      throw new Error('No shared cache is configured');
+    }
+
+    const stats = context.cache.getStats();
+    const namespaces = args.namespace
+      ? { [args.namespace]: context.cache.namespace(args.namespace).getStats() }
+      : stats.namespaces;
+
+    return { sizes: context.cache.getSizes(), ...stats, namespaces };
+  })
+};
+
+/**
+ * Check if a tool name belongs to the session tools
+ */
+export function isSessionTool(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(handlers, name);
+}
+
+/**
+ * Run a session tool; failures are returned as error results rather than thrown
+ * @param {string} [defaultSessionId] - Session used when the arguments name none
+ */
+export async function callSessionTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  context: McpHandlerContext,
+  defaultSessionId: string = DEFAULT_SESSION_ID
+): Promise<CallToolResult> {
+  try {
+    const result = await handlers[name](coerceArguments(args || {}), context, defaultSessionId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ],
+      structuredContent: result
+    };
+  } catch (error) {
+    const errorDetails = ErrorHandler.handle(error);
+    context.logger.error(`[MCP Server] Tool ${name} failed:`, error as Error);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${errorDetails.message || 'Tool call failed'}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Flatten a thought and its metadata for tool results
+ */
+function toThoughtEntry(input: UltraThinkInput, record?: ThoughtRecord) {
+  return {
+    thoughtNumber: input.thoughtNumber,
+    totalThoughts: input.totalThoughts,
+    thought: input.thought,
+    nextThoughtNeeded: input.nextThoughtNeeded,
+    branchId: input.branchId,
+    branchFromThought: input.branchFromThought,
+    isRevision: input.isRevision,
+    revisesThought: input.revisesThought,
+    depthLevel: input.depthLevel,
+    confidence: input.confidence,
+    qualityScore: record?.metadata?.qualityScore?.overall,
+    biasDetected: record?.metadata?.biasDetected || undefined
+  };
+}
@@ -2,10 +2,9 @@
  * Example plugins demonstrating the plugin system capabilities
  */
 
-import { Plugin } from '../core/plugin-system.js';
+import { Plugin, createAutoSavePlugin } from '../core/plugin-system.js';
 import { UltraThinkInput, UltraThinkResponse } from '../types/interfaces.js';
-import { EventNames } from '../core/event-bus.js';
-import { QueryRewritingService } from '../services/query-rewriting.service.js';
+import { FileSessionStore, DEFAULT_AUTOSAVE_DIR } from '../core/session-store.js';
 
 /**
  * Korean Enhancement Plugin
@@ -104,38 +103,13 @@ export const QualityEnhancementPlugin: Plugin = {
 
 /**
  * Auto-save Plugin
- * Saves thought history to a file
+ * Saves thought history to a session file for recovery, in its own directory
+ * so it does not duplicate the records of ULTRA_THINK_SESSION_STORE=file
  */
-// Auto-save plugin with internal state
-const autoSaveThoughtHistory: any[] = [];
-
 export const AutoSavePlugin: Plugin = {
-  name: 'auto-save',
-  version: '1.0.0',
+  ...createAutoSavePlugin(new FileSessionStore(DEFAULT_AUTOSAVE_DIR)),
   description: 'Auto-saves thought history for recovery',
-  dependencies: ['performance-tracking'], // Example dependency
-  
-  async onInit(context) {
-    // Subscribe to thought processed events
-    context.eventBus.on(EventNames.THOUGHT_PROCESSED, async (event) => {
-      autoSaveThoughtHistory.push({
-        timestamp: new Date(),
-        input: event.input,
-        response: event.response,
-        processingTime: event.processingTime
-      });
-      
-      // In a real implementation, save to file
-      context.logger.debug(`Auto-saved thought ${event.response.thoughtNumber}`);
-    });
-    
-    context.logger.info('Auto-save plugin initialized');
-  },
-  
-  async onDestroy() {
-    // Save final state
-    console.log('💾 Saving final thought history...');
-  }
+  dependencies: ['performance-tracking'] // Example dependency
 };
 
 /**
@@ -147,18 +121,20 @@ export const BiasAlertPlugin: Plugin = {
   version: '1.0.0',
   description: 'Enhanced bias detection and alerting',
   
-  onBiasDetected(biasType, input) {
+  onBiasDetected(biasType, input, biases) {
     const biasDescriptions: Record<string, string> = {
-      confirmation: '확증 편향: 기존 믿음을 지지하는 정보만 찾고 있습니다',
-      anchoring: '정박 편향: 초기 정보에 과도하게 의존하고 있습니다',
-      availability: '가용성 편향: 쉽게 떠오르는 예시에만 집중하고 있습니다',
-      overconfidence: '과신 편향: 불확실성을 충분히 고려하지 않고 있습니다',
-      sunk_cost: '매몰 비용 편향: 이미 투자한 노력 때문에 잘못된 방향을 고수하고 있습니다'
+      'confirmation bias': '확증 편향: 기존 믿음을 지지하는 정보만 찾고 있습니다',
+      'anchoring bias': '정박 편향: 초기 정보에 과도하게 의존하고 있습니다',
+      'availability heuristic': '가용성 편향: 쉽게 떠오르는 예시에만 집중하고 있습니다',
+      'overconfidence bias': '과신 편향: 불확실성을 충분히 고려하지 않고 있습니다',
+      'sunk cost fallacy': '매몰 비용 편향: 이미 투자한 노력 때문에 잘못된 방향을 고수하고 있습니다'
     };
     
-    const description = biasDescriptions[biasType] || biasType;
-    console.log(`🚨 Bias Alert: ${description}`);
-    console.log(`   Thought #${input.thoughtNumber}, Confidence: ${input.confidence || 'N/A'}`);
+    for (const bias of biases) {
+      const description = biasDescriptions[bias.type] || bias.type;
+      console.log(`🚨 Bias Alert: ${description} (${(bias.confidence * 100).toFixed(0)}%)`);
+      console.log(`   Thought #${input.thoughtNumber}, Evidence: ${bias.evidence.join(', ') || 'N/A'}`);
+    }
   }
 };
 
@@ -223,8 +199,6 @@ export const MetaReasoningPlugin: Plugin = {
  * Query Rewriting Plugin
  * Improves query clarity for better sequential thinking
  */
-const queryRewritingService = new QueryRewritingService();
-
 export const QueryRewritingPlugin: Plugin = {
   name: 'query-rewriting',
   version: '1.0.0',
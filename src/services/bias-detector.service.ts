@@ -1,82 +1,139 @@
 /**
  * Cognitive bias detection service
  * Identifies various types of biases in reasoning
+ *
+ * Every check runs on each thought, so one thought can show several biases.
+ * Each finding carries a confidence, the keywords or values that triggered it
+ * and the earlier thoughts involved, so a verdict can be audited.
+ *
+ * Keywords and cues come from the lexicons of the languages the thought is
+ * written in (see LexiconService).
  */
 
-import { UltraThinkInput } from '../types/interfaces.js';
-import { SimilarityService } from './similarity.service.js';
+import { UltraThinkInput, BiasFinding } from '../types/interfaces.js';
 import { BIAS_THRESHOLDS } from '../config/constants.js';
+import type { IBiasDetectorService, ISimilarityService } from '../core/interfaces/index.js';
+import { LexiconService, BiasCueKey, CompiledLexicon } from './lexicon.service.js';
 
-export type BiasType = 
+export type BiasType =
   | 'confirmation bias'
   | 'anchoring bias'
   | 'availability heuristic'
   | 'overconfidence bias'
-  | 'sunk cost fallacy';
+  | 'sunk cost fallacy'
+  | 'framing effect'
+  | 'bandwagon/authority appeal'
+  | 'hindsight bias'
+  | 'base-rate neglect'
+  | 'false dichotomy'
+  | 'planning fallacy'
+  | 'survivorship bias';
 
-export class BiasDetectorService {
-  private similarityService: SimilarityService;
+/**
+ * Tunables of the cue-based checks, alongside BIAS_THRESHOLDS
+ */
+export const CUE_BIAS_THRESHOLDS = {
+  MIN_CUES: 1,                // Cues needed before a check reports anything
+  BASE_CONFIDENCE: 0.5,       // Confidence of a finding with one cue
+  CONFIDENCE_PER_CUE: 0.1,    // Added for every further cue
+  COUNTER_CUE_PENALTY: 0.2,   // Removed for every cue that weakens the finding
+  MAX_CONFIDENCE: 0.9,
+  MIN_CONFIDENCE: 0.3         // Findings below this are dropped
+} as const;
+
+type BiasCues = CompiledLexicon['bias'];
+
+/**
+ * Bias types countered by the same cues that rule them out
+ */
+const COUNTER_CUE_MITIGATIONS: Partial<Record<BiasType, BiasCueKey>> = {
+  'bandwagon/authority appeal': 'evidenceCounter',
+  'base-rate neglect': 'baseRateCounter',
+  'false dichotomy': 'optionCounter',
+  'planning fallacy': 'planningCounter',
+  'survivorship bias': 'failureCounter'
+};
+
+export class BiasDetectorService implements IBiasDetectorService {
+  private similarityService: ISimilarityService;
+  private lexicons: LexiconService;
 
-  constructor(similarityService: SimilarityService) {
+  constructor(similarityService: ISimilarityService, lexicons: LexiconService = new LexiconService()) {
     this.similarityService = similarityService;
+    this.lexicons = lexicons;
   }
 
   /**
    * Detect cognitive biases in the current thought
+   * @param {UltraThinkInput} input - The thought to check
+   * @param {UltraThinkInput[]} history - Earlier thoughts of the session, oldest first
+   * @returns {BiasFinding[]} Every bias found, most confident first
    */
-  detectBias(
-    input: UltraThinkInput,
-    thoughtHistory: Map<number, UltraThinkInput>
-  ): BiasType | null {
-    // Use existing bias if already detected
-    if (input.biasDetected) {
-      return input.biasDetected as BiasType;
-    }
-
+  detectBiases(input: UltraThinkInput, history: UltraThinkInput[]): BiasFinding[] {
     const thought = input.thought.toLowerCase();
-    const history = Array.from(thoughtHistory.values());
-
-    // Check for various biases
-    const confirmationBias = this.checkConfirmationBias(thought, history);
-    if (confirmationBias) return confirmationBias;
-
-    const anchoringBias = this.checkAnchoringBias(input, thought, thoughtHistory);
-    if (anchoringBias) return anchoringBias;
-
-    const availabilityHeuristic = this.checkAvailabilityHeuristic(thought, input.thoughtNumber);
-    if (availabilityHeuristic) return availabilityHeuristic;
-
-    const overconfidenceBias = this.checkOverconfidenceBias(input);
-    if (overconfidenceBias) return overconfidenceBias;
+    const cues = this.lexicons.forText(thought).bias;
 
-    const sunkCostFallacy = this.checkSunkCostFallacy(thought, input);
-    if (sunkCostFallacy) return sunkCostFallacy;
+    const findings = [
+      this.checkConfirmationBias(thought, history),
+      this.checkAnchoringBias(input, thought, history, cues),
+      this.checkAvailabilityHeuristic(thought, input.thoughtNumber, cues),
+      this.checkOverconfidenceBias(input),
+      this.checkSunkCostFallacy(thought, input, cues),
+      this.checkFramingEffect(thought, cues),
+      this.checkAppealBias(thought, cues),
+      this.checkHindsightBias(thought, cues),
+      this.checkBaseRateNeglect(thought, cues),
+      this.checkFalseDichotomy(thought, cues),
+      this.checkPlanningFallacy(thought, cues),
+      this.checkSurvivorshipBias(thought, cues)
+    ].filter((finding): finding is BiasFinding => finding !== null);
 
-    return null;
+    return findings.sort((a, b) => b.confidence - a.confidence);
   }
 
   /**
    * Check for confirmation bias - repeating same conclusions
+   *
+   * Looks for the most similar earlier thoughts anywhere in the session,
+   * through the similarity service's LSH index.
    */
   private checkConfirmationBias(
     thought: string,
     history: UltraThinkInput[]
-  ): BiasType | null {
+  ): BiasFinding | null {
     if (history.length < BIAS_THRESHOLDS.RECENT_THOUGHTS_COUNT) {
       return null;
     }
 
-    const recentThoughts = history.slice(-BIAS_THRESHOLDS.RECENT_THOUGHTS_COUNT);
-    const similarityCount = recentThoughts.filter(t => 
-      this.similarityService.calculateSimilarity(t.thought.toLowerCase(), thought) > 
-      BIAS_THRESHOLDS.SIMILARITY_THRESHOLD
-    ).length;
+    const similar = this.similarityService
+      .findSimilar(
+        thought,
+        history.map(t => t.thought.toLowerCase()),
+        BIAS_THRESHOLDS.RECENT_THOUGHTS_COUNT,
+        BIAS_THRESHOLDS.SIMILARITY_THRESHOLD
+      )
+      .filter(match => match.score > BIAS_THRESHOLDS.SIMILARITY_THRESHOLD)
+      .sort((a, b) => a.index - b.index)
+      .map(match => ({ thought: history[match.index], similarity: match.score }));
 
-    if (similarityCount >= 2) {
-      return 'confirmation bias';
+    if (similar.length < 2) {
+      return null;
     }
 
-    return null;
+    // Terms the thought keeps repeating from the similar ones
+    const terms = new Set(this.similarityService.extractKeyTerms(thought));
+    const repeated = new Set(similar.flatMap(match =>
+      this.similarityService.extractKeyTerms(match.thought.thought).filter(term => terms.has(term))
+    ));
+
+    const meanSimilarity = similar.reduce((sum, match) => sum + match.similarity, 0) / similar.length;
+
+    return {
+      type: 'confirmation bias',
+      confidence: round(meanSimilarity * similar.length / BIAS_THRESHOLDS.RECENT_THOUGHTS_COUNT),
+      evidence: Array.from(repeated),
+      relatedThoughts: similar.map(match => match.thought.thoughtNumber)
+    };
   }
 
   /**
@@ -85,29 +142,33 @@ export class BiasDetectorService {
   private checkAnchoringBias(
     input: UltraThinkInput,
     thought: string,
-    thoughtHistory: Map<number, UltraThinkInput>
-  ): BiasType | null {
+    history: UltraThinkInput[],
+    cues: BiasCues
+  ): BiasFinding | null {
     if (input.thoughtNumber <= 5) {
       return null;
     }
 
-    const anchoringKeywords = ['처음', '초기', 'initially', 'originally'];
-    const hasAnchoringKeyword = anchoringKeywords.some(keyword => thought.includes(keyword));
-
-    if (hasAnchoringKeyword) {
-      const firstThought = thoughtHistory.get(1);
-      if (firstThought) {
-        const similarity = this.similarityService.calculateSimilarity(
-          firstThought.thought,
-          input.thought
-        );
-        if (similarity > 0.7) {
-          return 'anchoring bias';
-        }
-      }
+    const keywords = findPatterns(thought, cues.anchoring);
+    const firstThought = history.find(t => t.thoughtNumber === 1);
+    if (keywords.length === 0 || !firstThought) {
+      return null;
     }
 
-    return null;
+    const similarity = this.similarityService.calculateSimilarity(
+      firstThought.thought,
+      input.thought
+    );
+    if (similarity <= 0.7) {
+      return null;
+    }
+
+    return {
+      type: 'anchoring bias',
+      confidence: round(similarity),
+      evidence: keywords,
+      relatedThoughts: [1]
+    };
   }
 
   /**
@@ -115,34 +176,45 @@ export class BiasDetectorService {
    */
   private checkAvailabilityHeuristic(
     thought: string,
-    thoughtNumber: number
-  ): BiasType | null {
-    const recentKeywords = ['최근', '방금', '직전', '마지막', 'recent', 'just', 'last'];
-    const recentCount = recentKeywords.filter(keyword => thought.includes(keyword)).length;
+    thoughtNumber: number,
+    cues: BiasCues
+  ): BiasFinding | null {
+    const keywords = findPatterns(thought, cues.recency);
 
-    if (recentCount >= 2 && thoughtNumber > 10) {
-      return 'availability heuristic';
+    if (keywords.length < 2 || thoughtNumber <= 10) {
+      return null;
     }
 
-    return null;
+    return {
+      type: 'availability heuristic',
+      confidence: round(Math.min(1, 0.4 + keywords.length * 0.15)),
+      evidence: keywords,
+      relatedThoughts: []
+    };
   }
 
   /**
    * Check for overconfidence bias
    */
-  private checkOverconfidenceBias(input: UltraThinkInput): BiasType | null {
+  private checkOverconfidenceBias(input: UltraThinkInput): BiasFinding | null {
     if (!input.confidence) {
       return null;
     }
 
     const progress = input.thoughtNumber / input.totalThoughts;
-    
-    if (input.confidence > BIAS_THRESHOLDS.HIGH_CONFIDENCE_THRESHOLD && 
-        progress < 0.5) {
-      return 'overconfidence bias';
+
+    if (input.confidence <= BIAS_THRESHOLDS.HIGH_CONFIDENCE_THRESHOLD || progress >= 0.5) {
+      return null;
     }
 
-    return null;
+    // Higher confidence earlier in the reasoning is more suspicious
+    const excess = input.confidence - BIAS_THRESHOLDS.HIGH_CONFIDENCE_THRESHOLD;
+    return {
+      type: 'overconfidence bias',
+      confidence: round(Math.min(1, 0.5 + excess * 2 + (0.5 - progress) * 0.5)),
+      evidence: [`confidence ${input.confidence} at ${Math.round(progress * 100)}% progress`],
+      relatedThoughts: []
+    };
   }
 
   /**
@@ -150,22 +222,146 @@ export class BiasDetectorService {
    */
   private checkSunkCostFallacy(
     thought: string,
-    input: UltraThinkInput
-  ): BiasType | null {
-    const sunkCostKeywords = ['이미', '지금까지', '여기까지', 'already', 'so far'];
-    const continuationKeywords = ['계속', 'continue', 'proceed'];
-    
-    const hasSunkCostKeyword = sunkCostKeywords.some(keyword => thought.includes(keyword));
-    const hasContinuationKeyword = continuationKeywords.some(keyword => thought.includes(keyword));
-    
+    input: UltraThinkInput,
+    cues: BiasCues
+  ): BiasFinding | null {
+    const sunkCost = findPatterns(thought, cues.sunkCost);
+    const continuation = findPatterns(thought, cues.continuation);
+
     const progress = input.thoughtNumber / input.totalThoughts;
-    
-    if (hasSunkCostKeyword && hasContinuationKeyword && 
-        progress > BIAS_THRESHOLDS.PROGRESS_THRESHOLD) {
-      return 'sunk cost fallacy';
+
+    if (sunkCost.length === 0 || continuation.length === 0 ||
+        progress <= BIAS_THRESHOLDS.PROGRESS_THRESHOLD) {
+      return null;
     }
 
-    return null;
+    const keywords = [...sunkCost, ...continuation];
+    return {
+      type: 'sunk cost fallacy',
+      confidence: round(Math.min(1, 0.5 + (keywords.length - 2) * 0.1 + (progress - BIAS_THRESHOLDS.PROGRESS_THRESHOLD))),
+      evidence: keywords,
+      relatedThoughts: []
+    };
+  }
+
+  /**
+   * Check for framing effect - deciding on one side of an outcome
+   * (gains or losses) without stating the other
+   */
+  private checkFramingEffect(thought: string, cues: BiasCues): BiasFinding | null {
+    const gain = findPatterns(thought, cues.framingGain);
+    const loss = findPatterns(thought, cues.framingLoss);
+    const decision = findPatterns(thought, cues.decision);
+
+    // Both frames stated, or nothing decided on the frame
+    if ((gain.length > 0) === (loss.length > 0) || decision.length === 0) {
+      return null;
+    }
+
+    return cueFinding('framing effect', [...gain, ...loss], []);
+  }
+
+  /**
+   * Check for bandwagon or authority appeal - popularity or status in place of evidence
+   */
+  private checkAppealBias(thought: string, cues: BiasCues): BiasFinding | null {
+    return cueFinding(
+      'bandwagon/authority appeal',
+      findPatterns(thought, cues.appeal),
+      findPatterns(thought, cues.evidenceCounter)
+    );
+  }
+
+  /**
+   * Check for hindsight bias - treating a known outcome as having been predictable
+   */
+  private checkHindsightBias(thought: string, cues: BiasCues): BiasFinding | null {
+    return cueFinding('hindsight bias', findPatterns(thought, cues.hindsight), []);
+  }
+
+  /**
+   * Check for base-rate neglect - judging a case's probability from its specifics
+   * without the rate in the wider population
+   */
+  private checkBaseRateNeglect(thought: string, cues: BiasCues): BiasFinding | null {
+    const specifics = findPatterns(thought, cues.caseSpecific);
+    const probability = findPatterns(thought, cues.probability);
+
+    if (specifics.length === 0 || probability.length === 0 ||
+        findPatterns(thought, cues.baseRateCounter).length > 0) {
+      return null;
+    }
+
+    return cueFinding('base-rate neglect', [...specifics, ...probability], []);
+  }
+
+  /**
+   * Check for false dichotomy - presenting two options as the only ones
+   */
+  private checkFalseDichotomy(thought: string, cues: BiasCues): BiasFinding | null {
+    // Naming a further option answers the dichotomy
+    if (findPatterns(thought, cues.optionCounter).length > 0) {
+      return null;
+    }
+
+    return cueFinding('false dichotomy', findPatterns(thought, cues.dichotomy), []);
+  }
+
+  /**
+   * Check for planning fallacy - an optimistic estimate with no allowance for overruns
+   */
+  private checkPlanningFallacy(thought: string, cues: BiasCues): BiasFinding | null {
+    const estimates = findPatterns(thought, cues.planningEstimate);
+    const optimism = findPatterns(thought, cues.optimism);
+
+    if (estimates.length === 0 || optimism.length === 0 ||
+        findPatterns(thought, cues.planningCounter).length > 0) {
+      return null;
+    }
+
+    return cueFinding('planning fallacy', [...estimates, ...optimism], []);
+  }
+
+  /**
+   * Check for survivorship bias - generalizing from successes while ignoring failures
+   */
+  private checkSurvivorshipBias(thought: string, cues: BiasCues): BiasFinding | null {
+    const survivors = findPatterns(thought, cues.survivor);
+    const generalization = findPatterns(thought, cues.generalization);
+
+    if (survivors.length === 0 || generalization.length === 0 ||
+        findPatterns(thought, cues.failureCounter).length > 0) {
+      return null;
+    }
+
+    return cueFinding('survivorship bias', [...survivors, ...generalization], []);
+  }
+
+  /**
+   * Cues in a later thought that show it worked against the bias
+   * @param {BiasType} biasType - Bias to counter
+   * @param {string} thought - Text of the later thought
+   * @returns {string[]} Matched cues, empty if the thought does not address the bias
+   */
+  findMitigationCues(biasType: BiasType, thought: string): string[] {
+    const text = thought.toLowerCase();
+    const lexicon = this.lexicons.forText(text);
+    const counterKey = COUNTER_CUE_MITIGATIONS[biasType];
+    const cues = findPatterns(text, [
+      ...(counterKey ? lexicon.bias[counterKey] : lexicon.mitigation[biasType] || []),
+      ...lexicon.bias.reflection
+    ]);
+
+    // Stating the same outcome as a gain and as a loss is the framing mitigation itself
+    if (biasType === 'framing effect') {
+      const gains = findPatterns(text, lexicon.bias.framingGain);
+      const losses = findPatterns(text, lexicon.bias.framingLoss);
+      if (gains.length > 0 && losses.length > 0) {
+        cues.push(...gains, ...losses);
+      }
+    }
+
+    return cues;
   }
 
   /**
@@ -177,39 +373,49 @@ export class BiasDetectorService {
       'anchoring bias': '초기 가정을 재검토하고 새로운 정보를 고려하세요.',
       'availability heuristic': '전체 맥락을 고려하고 최근 정보에만 의존하지 마세요.',
       'overconfidence bias': '가정을 재검토하고 불확실성을 인정하세요.',
-      'sunk cost fallacy': '이미 투자한 것보다 앞으로의 가치에 집중하세요.'
+      'sunk cost fallacy': '이미 투자한 것보다 앞으로의 가치에 집중하세요.',
+      'framing effect': '같은 결과를 이득과 손실 양쪽으로 표현해 비교해보세요.',
+      'bandwagon/authority appeal': '누가 선택했는지가 아니라 우리 상황의 근거로 판단하세요.',
+      'hindsight bias': '결과를 알기 전 시점에 실제로 가용했던 정보를 기준으로 평가하세요.',
+      'base-rate neglect': '개별 사례의 특징보다 먼저 전체 모집단의 기저율을 확인하세요.',
+      'false dichotomy': '두 가지 외의 선택지나 절충안이 있는지 찾아보세요.',
+      'planning fallacy': '과거 유사 작업의 실제 소요 시간을 기준으로 추정하고 버퍼를 두세요.',
+      'survivorship bias': '실패한 사례도 같은 특징을 가졌는지 확인하세요.'
     };
 
     return suggestions[biasType] || '객관적인 관점을 유지하세요.';
   }
+}
 
-  /**
-   * Detect bias from strings (interface method)
-   * @param {string} thought - The thought to analyze
-   * @param {string[]} history - History of previous thoughts
-   * @returns {string | null} Detected bias or null
-   */
-  detectBiasFromStrings(thought: string, history: string[]): string | null {
-    // Create a minimal UltraThinkInput for compatibility
-    const input: UltraThinkInput = {
-      thought,
-      thoughtNumber: history.length + 1,
-      totalThoughts: history.length + 1,
-      nextThoughtNeeded: false
-    };
-    
-    // Convert history to Map
-    const thoughtHistory = new Map<number, UltraThinkInput>();
-    history.forEach((h, index) => {
-      thoughtHistory.set(index + 1, {
-        thought: h,
-        thoughtNumber: index + 1,
-        totalThoughts: history.length,
-        nextThoughtNeeded: index < history.length - 1
-      });
-    });
-    
-    const biasType = this.detectBias(input, thoughtHistory);
-    return biasType;
-  }
-}
\ No newline at end of file
+/**
+ * Text spans matched by any of the patterns
+ */
+function findPatterns(text: string, patterns: RegExp[]): string[] {
+  const spans = patterns.flatMap(pattern => text.match(pattern) || []);
+  return Array.from(new Set(spans.map(span => span.trim())));
+}
+
+/**
+ * Build a finding from its cues and the cues that argue against it
+ */
+function cueFinding(type: BiasType, cues: string[], counterCues: string[]): BiasFinding | null {
+  if (cues.length < CUE_BIAS_THRESHOLDS.MIN_CUES) {
+    return null;
+  }
+
+  const confidence = Math.min(
+    CUE_BIAS_THRESHOLDS.MAX_CONFIDENCE,
+    CUE_BIAS_THRESHOLDS.BASE_CONFIDENCE +
+      (cues.length - 1) * CUE_BIAS_THRESHOLDS.CONFIDENCE_PER_CUE -
+      counterCues.length * CUE_BIAS_THRESHOLDS.COUNTER_CUE_PENALTY
+  );
+  if (confidence < CUE_BIAS_THRESHOLDS.MIN_CONFIDENCE) {
+    return null;
+  }
+
+  return { type, confidence: round(confidence), evidence: cues, relatedThoughts: [] };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
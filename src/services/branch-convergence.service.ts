@@ -0,0 +1,165 @@
+/**
+ * Branch convergence service
+ * Compares parallel reasoning branches and recommends one to continue from
+ */
+
+import { UltraThinkInput, ThoughtRecord } from '../types/interfaces.js';
+import type { ISimilarityService } from '../core/interfaces/index.js';
+
+/**
+ * A branch's thoughts with the metadata recorded for them
+ */
+export interface BranchThoughts {
+  branchId: string;
+  thoughts: UltraThinkInput[];
+  records: ThoughtRecord[];   // Processed records of the branch's thoughts, where still tracked
+}
+
+export interface BranchSummary {
+  branchId: string;
+  thoughtCount: number;
+  averageQuality: number | null;
+  averageConfidence: number | null;
+  biases: string[];
+  keyTerms: string[];
+  uniqueTerms: string[];      // Key terms no other branch has
+  score: number;
+}
+
+export interface ConvergenceReport {
+  branches: BranchSummary[];
+  sharedTerms: string[];      // Key terms every branch has
+  similarities: Array<{ a: string; b: string; score: number }>;
+  recommendedBranch: string;
+  rationale: string;
+}
+
+const KEY_TERM_LIMIT = 15;
+
+// Weights of the recommendation score
+const QUALITY_WEIGHT = 0.6;
+const CONFIDENCE_WEIGHT = 0.2;
+const BIAS_WEIGHT = 0.2;
+
+// Used when a branch has no quality or confidence data
+const NEUTRAL_SCORE = 0.5;
+
+export class BranchConvergenceService {
+  private similarityService: ISimilarityService;
+
+  constructor(similarityService: ISimilarityService) {
+    this.similarityService = similarityService;
+  }
+
+  /**
+   * Compare branches and pick the most promising one
+   */
+  compare(branches: BranchThoughts[]): ConvergenceReport {
+    const texts = branches.map(branch => branch.thoughts.map(t => t.thought).join('\n'));
+    const termSets = texts.map(text => this.similarityService.extractKeyTerms(text, KEY_TERM_LIMIT));
+
+    const summaries = branches.map((branch, index) => {
+      const otherTerms = new Set(termSets.filter((_, i) => i !== index).flat());
+      return this.summarize(branch, termSets[index], termSets[index].filter(term => !otherTerms.has(term)));
+    });
+
+    const sharedTerms = termSets[0].filter(term => termSets.every(terms => terms.includes(term)));
+
+    const similarities: ConvergenceReport['similarities'] = [];
+    for (let i = 0; i < branches.length; i++) {
+      for (let j = i + 1; j < branches.length; j++) {
+        similarities.push({
+          a: branches[i].branchId,
+          b: branches[j].branchId,
+          score: round(this.similarityService.calculateSimilarity(texts[i], texts[j]))
+        });
+      }
+    }
+
+    // Stable sort keeps the caller's order on ties
+    const recommended = [...summaries].sort((a, b) =>
+      b.score - a.score || b.thoughtCount - a.thoughtCount
+    )[0];
+
+    return {
+      branches: summaries,
+      sharedTerms,
+      similarities,
+      recommendedBranch: recommended.branchId,
+      rationale: this.explain(recommended)
+    };
+  }
+
+  /**
+   * Render a report as the text of a convergence thought
+   */
+  describe(report: ConvergenceReport): string {
+    const lines = [
+      `Converging branches ${report.branches.map(b => `'${b.branchId}'`).join(', ')}: ` +
+        `continue with '${report.recommendedBranch}' (${report.rationale}).`
+    ];
+
+    for (const branch of report.branches) {
+      const quality = branch.averageQuality !== null ? branch.averageQuality.toFixed(2) : 'n/a';
+      const biases = branch.biases.length > 0 ? branch.biases.join(', ') : 'none';
+      const unique = branch.uniqueTerms.length > 0 ? branch.uniqueTerms.join(', ') : 'none';
+      lines.push(
+        `- ${branch.branchId}: ${branch.thoughtCount} thought(s), quality ${quality}, biases: ${biases}, unique terms: ${unique}`
+      );
+    }
+
+    if (report.sharedTerms.length > 0) {
+      lines.push(`Shared terms: ${report.sharedTerms.join(', ')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private summarize(branch: BranchThoughts, keyTerms: string[], uniqueTerms: string[]): BranchSummary {
+    const qualities = branch.records
+      .map(record => record.metadata?.qualityScore?.overall)
+      .filter((score): score is number => typeof score === 'number');
+    const confidences = branch.thoughts
+      .map(thought => thought.confidence)
+      .filter((confidence): confidence is number => typeof confidence === 'number');
+
+    const biasedThoughts = branch.records.filter(record => record.metadata?.biasDetected);
+    const biases = Array.from(new Set(biasedThoughts.map(record => record.metadata!.biasDetected as string)));
+    const biasRate = branch.records.length > 0 ? biasedThoughts.length / branch.records.length : 0;
+
+    const averageQuality = average(qualities);
+    const averageConfidence = average(confidences);
+
+    return {
+      branchId: branch.branchId,
+      thoughtCount: branch.thoughts.length,
+      averageQuality: averageQuality !== null ? round(averageQuality) : null,
+      averageConfidence: averageConfidence !== null ? round(averageConfidence) : null,
+      biases,
+      keyTerms,
+      uniqueTerms,
+      score: round(
+        QUALITY_WEIGHT * (averageQuality ?? NEUTRAL_SCORE) +
+        CONFIDENCE_WEIGHT * (averageConfidence ?? NEUTRAL_SCORE) +
+        BIAS_WEIGHT * (1 - biasRate)
+      )
+    };
+  }
+
+  private explain(summary: BranchSummary): string {
+    const reasons = [`score ${summary.score.toFixed(2)}`];
+    if (summary.averageQuality !== null) {
+      reasons.push(`average quality ${summary.averageQuality.toFixed(2)}`);
+    }
+    reasons.push(summary.biases.length > 0 ? `biases: ${summary.biases.join(', ')}` : 'no biases detected');
+    return reasons.join(', ');
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
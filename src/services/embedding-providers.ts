@@ -0,0 +1,112 @@
+/**
+ * Embedding providers
+ *
+ * @module embedding-providers
+ * @description Turn thought texts into vectors:
+ * - HashedEmbeddingProvider: deterministic hashed word and character trigram
+ *   features, computed offline
+ * - OpenAIEmbeddingProvider: a locally hosted OpenAI-compatible `/embeddings`
+ *   endpoint (llama.cpp, Ollama, vLLM, LocalAI, ...)
+ */
+
+import { fnv1a } from '../utils/minhash.js';
+import { ProcessingError, TimeoutError } from '../core/errors.js';
+import type { IEmbeddingProvider } from '../core/interfaces/index.js';
+
+/**
+ * Feature-hashing embeddings; equal texts always get equal vectors
+ */
+export class HashedEmbeddingProvider implements IEmbeddingProvider {
+  readonly name: string;
+
+  /**
+   * @param {number} [dimensions=256] - Vector length
+   */
+  constructor(private readonly dimensions: number = 256) {
+    this.name = `hashed-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vector(text));
+  }
+
+  /**
+   * Signed counts of a text's words and character trigrams, hashed into the vector
+   */
+  vector(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      const padded = `^${word}$`;
+      const features = [`w:${word}`];
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`c:${padded.substring(i, i + 3)}`);
+      }
+
+      for (const feature of features) {
+        const hash = fnv1a(feature);
+        vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+      }
+    }
+
+    return vector;
+  }
+}
+
+export interface OpenAIEmbeddingOptions {
+  baseUrl: string;              // e.g. http://127.0.0.1:8080/v1
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Client of an OpenAI-compatible embeddings endpoint
+ */
+export class OpenAIEmbeddingProvider implements IEmbeddingProvider {
+  readonly name: string;
+  private readonly options: OpenAIEmbeddingOptions;
+
+  constructor(options: OpenAIEmbeddingOptions) {
+    this.options = { timeoutMs: 5000, ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+    this.name = `openai:${this.options.model}`;
+  }
+
+  /**
+   * @throws {TimeoutError} If the endpoint does not answer in time
+   * @throws {ProcessingError} If the endpoint fails or returns something other than one vector per text
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const timeoutMs = this.options.timeoutMs!;
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: this.options.model, input: texts }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new TimeoutError(`Embedding request timed out after ${timeoutMs}ms`, 'embed', timeoutMs);
+      }
+      throw new ProcessingError('Embedding endpoint unreachable', { baseUrl: this.options.baseUrl, error });
+    }
+
+    if (!response.ok) {
+      throw new ProcessingError(`Embedding endpoint returned ${response.status}`, { baseUrl: this.options.baseUrl });
+    }
+
+    const body = await response.json() as { data?: Array<{ index: number; embedding: number[] }> };
+    const data = [...(body.data || [])].sort((a, b) => a.index - b.index);
+    if (data.length !== texts.length || data.some(item => !Array.isArray(item.embedding))) {
+      throw new ProcessingError('Embedding endpoint returned a malformed response', { expected: texts.length });
+    }
+
+    return data.map(item => item.embedding);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Embedding-based text similarity
+ *
+ * @module embedding-similarity.service
+ * @description Compares thoughts by the cosine of their embeddings, so
+ * paraphrases that share few words still match:
+ * - Vectors are fetched ahead of time by `prepare`, since scoring is synchronous
+ * - Vectors are kept for the session and shared through a CacheManager
+ *   namespace, keyed by provider name and content hash
+ * - Texts without a vector, e.g. when the provider is down, fall back to the
+ *   lexical similarity service
+ */
+
+import type { CacheNamespace, NamespaceStats } from '../core/cache-manager.js';
+import type { IEmbeddingProvider, ISimilarityService } from '../core/interfaces/index.js';
+import type { SimilarityMatch } from '../types/interfaces.js';
+import type { Logger } from '../utils/logger.js';
+import { contentHash } from '../utils/content-hash.js';
+import { HashedEmbeddingProvider } from './embedding-providers.js';
+import { SimilarityService } from './similarity.service.js';
+
+export class EmbeddingSimilarityService implements ISimilarityService {
+  /** Unit vectors of the session's texts, keyed by lowercased text */
+  private vectors: Map<string, Float32Array> = new Map();
+
+  /**
+   * @param {SimilarityService} lexical - Fallback, and the source of key terms
+   * @param {IEmbeddingProvider} [provider] - Offline hashed features by default
+   * @param {CacheNamespace<number[]>} [cache] - Vector cache shared across sessions
+   * @param {Logger} [logger] - Logs provider failures
+   */
+  constructor(
+    private readonly lexical: SimilarityService,
+    private readonly provider: IEmbeddingProvider = new HashedEmbeddingProvider(),
+    private readonly cache?: CacheNamespace<number[]>,
+    private readonly logger?: Logger
+  ) {}
+
+  /**
+   * Fetch the vectors of texts not seen yet; failures leave them to the lexical fallback
+   * @param {string[]} texts - Texts about to be compared
+   * @public
+   */
+  async prepare(texts: string[]): Promise<void> {
+    const missing = Array.from(new Set(texts.filter(text => !this.vectors.has(normalize(text)))));
+    const uncached: string[] = [];
+
+    for (const text of missing) {
+      const cached = await this.cache?.get(this.cacheKey(text));
+      if (cached) {
+        this.store(text, cached);
+      } else {
+        uncached.push(text);
+      }
+    }
+
+    if (uncached.length === 0) return;
+
+    try {
+      const embeddings = await this.provider.embed(uncached);
+      for (let i = 0; i < uncached.length; i++) {
+        this.store(uncached[i], embeddings[i]);
+        await this.cache?.set(this.cacheKey(uncached[i]), embeddings[i]);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger?.warn(`Embedding provider ${this.provider.name} failed for ${uncached.length} text(s), using lexical similarity: ${reason}`);
+    }
+  }
+
+  /**
+   * Cosine of the two embeddings, or the lexical similarity if either has none
+   * @public
+   */
+  calculateSimilarity(text1: string, text2: string): number {
+    const vector1 = this.vectors.get(normalize(text1));
+    const vector2 = this.vectors.get(normalize(text2));
+    if (!vector1 || !vector2) {
+      return this.lexical.calculateSimilarity(text1, text2);
+    }
+    return text1 === text2 ? 1 : Math.max(0, dot(vector1, vector2));
+  }
+
+  /**
+   * Find the earlier texts most similar to a text
+   *
+   * Texts with vectors are scored by cosine, which is one dot product each;
+   * the rest go through the lexical LSH index.
+   * @public
+   */
+  findSimilar(text: string, history: string[], limit: number = 5, minScore: number = 0): SimilarityMatch[] {
+    if (!this.vectors.has(normalize(text))) {
+      return this.lexical.findSimilar(text, history, limit, minScore);
+    }
+
+    const matches: SimilarityMatch[] = [];
+    const withoutVector: number[] = [];
+    history.forEach((previous, index) => {
+      if (this.vectors.has(normalize(previous))) {
+        const score = this.calculateSimilarity(text, previous);
+        if (score >= minScore) {
+          matches.push({ index, score });
+        }
+      } else {
+        withoutVector.push(index);
+      }
+    });
+
+    if (withoutVector.length > 0) {
+      const lexicalMatches = this.lexical.findSimilar(text, withoutVector.map(index => history[index]), limit, minScore);
+      matches.push(...lexicalMatches.map(match => ({ index: withoutVector[match.index], score: match.score })));
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+  }
+
+  /**
+   * Detect patterns in text based on history
+   * @public
+   */
+  detectPatterns(text: string, history: string[]): string | null {
+    if (!history || history.length === 0) {
+      return null;
+    }
+
+    const matches = this.findSimilar(text, history, history.length);
+    if (matches.reduce((sum, match) => sum + match.score, 0) / history.length > 0.8) {
+      return 'repetitive_pattern';
+    }
+
+    if (text.length > history[history.length - 1]?.length * 1.5) {
+      return 'complexity_escalation';
+    }
+
+    return null;
+  }
+
+  extractKeyTerms(text: string, limit?: number): string[] {
+    return this.lexical.extractKeyTerms(text, limit);
+  }
+
+  addDocument(text: string): void {
+    this.lexical.addDocument(text);
+  }
+
+  resetDocuments(): void {
+    this.lexical.resetDocuments();
+  }
+
+  /**
+   * Forget the session's vectors and the lexical cache; the shared vector cache is kept
+   */
+  clearCache(): void {
+    this.vectors.clear();
+    this.lexical.clearCache();
+  }
+
+  getCacheStats(): NamespaceStats & { vectors: number } {
+    return { ...this.lexical.getCacheStats(), vectors: this.vectors.size };
+  }
+
+  private store(text: string, embedding: number[]): void {
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+    const vector = Float32Array.from(embedding, value => norm > 0 ? value / norm : 0);
+    this.vectors.set(normalize(text), vector);
+  }
+
+  private cacheKey(text: string): string {
+    return `${this.provider.name}|${contentHash(normalize(text))}`;
+  }
+}
+
+/**
+ * Vectors are shared by texts that differ only in case, since callers compare lowercased thoughts
+ */
+function normalize(text: string): string {
+  return text.toLowerCase();
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,177 @@
+/**
+ * Lexicon Service
+ * Holds the per-language cue lexicons of bias detection and query rewriting
+ *
+ * Each language has a versioned lexicon of regular expression sources (see
+ * ./lexicons). Overrides replace whole lists and tables of a built-in
+ * lexicon. Lexicons are validated when the service is created and compiled
+ * on first use; a text gets the lexicons of every script it contains.
+ */
+
+import { LexiconSchema, LexiconOverrideSchema } from '../types/schemas.js';
+import type { Lexicon, LexiconLanguage, LexiconOverride } from '../types/schemas.js';
+import { detectLanguages } from '../utils/text-signals.js';
+import { EN_LEXICON } from './lexicons/en.js';
+import { KO_LEXICON } from './lexicons/ko.js';
+import { JA_LEXICON } from './lexicons/ja.js';
+
+export type BiasCueKey = keyof Lexicon['bias'];
+
+/**
+ * Lexicons of one or more languages, compiled and merged
+ */
+export interface CompiledLexicon {
+  languages: LexiconLanguage[];
+  bias: Record<BiasCueKey, RegExp[]>;
+  mitigation: Record<string, RegExp[]>;
+  tokens: {
+    stopwords: Set<string>;
+    particles: string[];          // Longest first
+  };
+  rewriting: {
+    contractions: Array<[RegExp, string]>;
+    ambiguousTerms: Array<[RegExp, string]>;
+  };
+}
+
+export const BUILT_IN_LEXICONS: Lexicon[] = [EN_LEXICON, KO_LEXICON, JA_LEXICON];
+
+export class LexiconService {
+  private lexicons: Map<LexiconLanguage, Lexicon> = new Map();
+  private compiled: Map<string, CompiledLexicon> = new Map();
+
+  /**
+   * @param {LexiconOverride[]} [overrides] - Replacements for lists and tables of the built-in lexicons
+   * @throws {ZodError} If a built-in lexicon or an override is invalid
+   */
+  constructor(overrides: LexiconOverride[] = []) {
+    for (const lexicon of BUILT_IN_LEXICONS) {
+      this.lexicons.set(lexicon.language, LexiconSchema.parse(lexicon));
+    }
+
+    for (const override of overrides) {
+      const { language, version, bias, mitigation, tokens, rewriting, wordBoundaries } = LexiconOverrideSchema.parse(override);
+      const base = this.lexicons.get(language)!;
+      this.lexicons.set(language, LexiconSchema.parse({
+        language,
+        version,
+        wordBoundaries: wordBoundaries ?? base.wordBoundaries,
+        bias: { ...base.bias, ...bias },
+        mitigation: { ...base.mitigation, ...mitigation },
+        tokens: { ...base.tokens, ...tokens },
+        rewriting: { ...base.rewriting, ...rewriting }
+      }));
+    }
+  }
+
+  /**
+   * Lexicon of a language
+   */
+  getLexicon(language: LexiconLanguage): Lexicon {
+    return this.lexicons.get(language)!;
+  }
+
+  /**
+   * Version of each language's lexicon
+   */
+  getVersions(): Record<LexiconLanguage, string> {
+    const versions = {} as Record<LexiconLanguage, string>;
+    for (const [language, lexicon] of this.lexicons) {
+      versions[language] = lexicon.version;
+    }
+    return versions;
+  }
+
+  /**
+   * Compiled lexicons for the languages a text is written in
+   * @param {string} text - Text the cues will be matched against
+   * @returns {CompiledLexicon} Patterns of all detected languages, merged
+   */
+  forText(text: string): CompiledLexicon {
+    return this.compile(detectLanguages(text));
+  }
+
+  /**
+   * Compiled and merged lexicons of the given languages
+   */
+  compile(languages: LexiconLanguage[]): CompiledLexicon {
+    const key = languages.join('+');
+    let compiled = this.compiled.get(key);
+    if (!compiled) {
+      compiled = merge(languages, languages.map(language => compileLexicon(this.getLexicon(language))));
+      this.compiled.set(key, compiled);
+    }
+    return compiled;
+  }
+}
+
+function compileLexicon(lexicon: Lexicon): CompiledLexicon {
+  const pattern = (source: string) =>
+    new RegExp(lexicon.wordBoundaries ? `\\b(?:${source})\\b` : source, 'gi');
+
+  const bias = {} as CompiledLexicon['bias'];
+  for (const [key, sources] of Object.entries(lexicon.bias) as Array<[BiasCueKey, string[]]>) {
+    bias[key] = sources.map(pattern);
+  }
+
+  const mitigation: CompiledLexicon['mitigation'] = {};
+  for (const [biasType, sources] of Object.entries(lexicon.mitigation)) {
+    mitigation[biasType] = sources.map(pattern);
+  }
+
+  return {
+    languages: [lexicon.language],
+    bias,
+    mitigation,
+    tokens: {
+      stopwords: new Set(lexicon.tokens.stopwords),
+      particles: byLength(lexicon.tokens.particles)
+    },
+    rewriting: {
+      contractions: Object.entries(lexicon.rewriting.contractions)
+        .map(([contraction, expansion]) => [pattern(escapeRegExp(contraction)), expansion]),
+      ambiguousTerms: Object.entries(lexicon.rewriting.ambiguousTerms)
+        .map(([term, clarified]) => [pattern(term), clarified])
+    }
+  };
+}
+
+function merge(languages: LexiconLanguage[], lexicons: CompiledLexicon[]): CompiledLexicon {
+  if (lexicons.length === 1) {
+    return lexicons[0];
+  }
+
+  const bias = {} as CompiledLexicon['bias'];
+  for (const key of Object.keys(lexicons[0].bias) as BiasCueKey[]) {
+    bias[key] = lexicons.flatMap(lexicon => lexicon.bias[key]);
+  }
+
+  const mitigation: CompiledLexicon['mitigation'] = {};
+  for (const lexicon of lexicons) {
+    for (const [biasType, patterns] of Object.entries(lexicon.mitigation)) {
+      mitigation[biasType] = [...(mitigation[biasType] || []), ...patterns];
+    }
+  }
+
+  return {
+    languages,
+    bias,
+    mitigation,
+    tokens: {
+      stopwords: new Set(lexicons.flatMap(lexicon => Array.from(lexicon.tokens.stopwords))),
+      particles: byLength(lexicons.flatMap(lexicon => lexicon.tokens.particles))
+    },
+    rewriting: {
+      contractions: lexicons.flatMap(lexicon => lexicon.rewriting.contractions),
+      ambiguousTerms: lexicons.flatMap(lexicon => lexicon.rewriting.ambiguousTerms)
+    }
+  };
+}
+
+function byLength(words: string[]): string[] {
+  return [...words].sort((a, b) => b.length - a.length);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,126 @@
+/**
+ * English lexicon
+ *
+ * Patterns are lowercase regular expression sources, matched on word boundaries.
+ */
+
+import type { Lexicon } from '../../types/schemas.js';
+
+export const EN_LEXICON: Lexicon = {
+  language: 'en',
+  version: '1.1.0',
+  wordBoundaries: true,
+  bias: {
+    anchoring: ['initially', 'originally'],
+    recency: ['recent', 'just', 'last'],
+    sunkCost: ['already', 'so far'],
+    continuation: ['continue', 'proceed'],
+    framingGain: ['\\d+% (?:success|survival|uptime|of users (?:keep|stay))|saves?|gains?'],
+    framingLoss: ['\\d+% (?:failure|fail|loss|churn|of users (?:leave|drop))|lose|losing|loss'],
+    decision: ['should|must|choose|pick|decide|go with|reject'],
+    appeal: [
+      'everyone (?:uses|does|is)|everybody|most (?:teams|companies|people)|industry standard|best practice|experts? (?:say|agree|recommend)|(?:google|netflix|amazon|facebook|meta) (?:does|uses)|the cto (?:says|wants)|widely used|popular choice'
+    ],
+    evidenceCounter: ['because|data|measured|benchmark(?:ed|s)?|our (?:tests|results|numbers)'],
+    hindsight: [
+      'in hindsight|should have (?:known|seen|predicted)|was (?:obvious|predictable|inevitable|bound to happen)|knew (?:it|all along)|saw (?:it|this) coming|as expected all along'
+    ],
+    caseSpecific: [
+      '\\d+% (?:accurate|accuracy|sensitivity|precision)|tests? (?:positive|flagged)|this (?:user|customer|case|account) (?:is|was|looks)|matches the profile'
+    ],
+    probability: ['so (?:it|they|this) (?:is|are) (?:likely|probably)|chances? (?:are|is)|probability|almost certainly|most likely'],
+    baseRateCounter: ['base rate|prevalence|baseline|population|overall rate|out of \\d+|in general|per \\d+'],
+    dichotomy: [
+      'either\\b[^.?!]{1,80}\\bor|only (?:two|2) (?:options|choices|ways)|(?:no other|the only) (?:choice|option|way|alternative)|we must choose between|it\'?s (?:\\w+ )?or nothing'
+    ],
+    optionCounter: ['alternatively|another option|third option|a hybrid|middle ground|other options'],
+    planningEstimate: [
+      '(?:in|within) (?:a|an|one|two|\\d+) (?:hours?|days?|weeks?|sprints?)|by (?:tomorrow|tonight|friday|monday|end of (?:the )?(?:day|week))|\\d+ (?:hours?|days?) of work'
+    ],
+    optimism: ['just|only|simply|easily|quick(?:ly)?|straightforward|trivial|no problem|piece of cake'],
+    planningCounter: ['buffer|contingency|padding|worst case|last time|historically|previous (?:estimates?|projects?)|unknowns?'],
+    survivor: [
+      'successful (?:companies|startups|teams|products|people)|(?:the )?winners|top performers|those who made it|unicorns|(?:companies|startups) that (?:succeeded|survived|made it)'
+    ],
+    generalization: ['so we should|therefore|the secret|that\'?s why|proves|all (?:of them|did)'],
+    failureCounter: ['failed|failures?|didn\'?t make it|shut down|went under|graveyard'],
+    reflection: [
+      'on the other hand|counter-?(?:argument|evidence|example)s?|evidence against|reconsider(?:ing)?|re-?examin(?:e|ing)|devil\'?s advocate|what if (?:we are|i am|this is) wrong'
+    ]
+  },
+  mitigation: {
+    'confirmation bias': ['contradicts?|disconfirm\\w*|falsif\\w*|rule out|alternative (?:causes?|explanations?|hypothes[ie]s)'],
+    'anchoring bias': ['new (?:data|information|evidence)|regardless of the (?:initial|first|original)|fresh estimate|updated estimate'],
+    'availability heuristic': ['historically|long-term|on average|across all|over the (?:past|whole) (?:year|quarter|period)'],
+    'overconfidence bias': ['uncertain(?:ty)?|may be wrong|not sure|assumptions?|could fail'],
+    'sunk cost fallacy': [
+      'sunk cost|regardless of (?:what|the time|the money) (?:we )?(?:spent|invested)|future (?:value|cost|benefit)s?|going forward|cut (?:our )?losses'
+    ],
+    'framing effect': ['reframe\\w*|put (?:the other way|differently)|in other words|equivalently'],
+    'hindsight bias': ['at the time|back then|what we knew|information (?:we had|available)|before the (?:incident|outage|release)']
+  },
+  tokens: {
+    stopwords: [
+      'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as',
+      'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these', 'those', 'we', 'our',
+      'you', 'they', 'them', 'he', 'she', 'i', 'so', 'than', 'then', 'there', 'do', 'does', 'did', 'have', 'has', 'had',
+      'will', 'would', 'can', 'could', 'should', 'not', 'no', 'all', 'any', 'some', 'more', 'most', 'into', 'about'
+    ],
+    particles: []
+  },
+  rewriting: {
+    contractions: {
+      "can't": 'cannot',
+      "won't": 'will not',
+      "shouldn't": 'should not',
+      "wouldn't": 'would not',
+      "couldn't": 'could not',
+      "isn't": 'is not',
+      "aren't": 'are not',
+      "wasn't": 'was not',
+      "weren't": 'were not',
+      "hasn't": 'has not',
+      "haven't": 'have not',
+      "doesn't": 'does not',
+      "don't": 'do not',
+      "didn't": 'did not',
+      "let's": 'let us',
+      "it's": 'it is',
+      "what's": 'what is',
+      "that's": 'that is',
+      "there's": 'there is',
+      "here's": 'here is',
+      "who's": 'who is',
+      "where's": 'where is',
+      "when's": 'when is',
+      "why's": 'why is',
+      "how's": 'how is',
+      "i'm": 'I am',
+      "you're": 'you are',
+      "we're": 'we are',
+      "they're": 'they are',
+      "i've": 'I have',
+      "you've": 'you have',
+      "we've": 'we have',
+      "they've": 'they have',
+      "i'd": 'I would',
+      "you'd": 'you would',
+      "we'd": 'we would',
+      "they'd": 'they would',
+      "i'll": 'I will',
+      "you'll": 'you will',
+      "we'll": 'we will',
+      "they'll": 'they will'
+    },
+    ambiguousTerms: {
+      'it': 'the subject',
+      'thing': 'the concept',
+      'stuff': 'the materials',
+      'this(?! \\w+)': 'this matter',
+      'that(?! \\w+)': 'that point',
+      'do(?! \\w+)': 'accomplish',
+      'get(?! \\w+)': 'understand',
+      'make(?! \\w+)': 'create'
+    }
+  }
+};
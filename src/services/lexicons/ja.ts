@@ -0,0 +1,61 @@
+/**
+ * Japanese lexicon
+ *
+ * Japanese is written without spaces, so patterns match anywhere in the text.
+ * Verb cues are stems ("続け", "見直") so they match every inflection.
+ */
+
+import type { Lexicon } from '../../types/schemas.js';
+
+export const JA_LEXICON: Lexicon = {
+  language: 'ja',
+  version: '1.1.0',
+  wordBoundaries: false,
+  bias: {
+    anchoring: ['最初', '当初'],
+    recency: ['最近', 'さっき', '直前', '前回'],
+    sunkCost: ['すでに', '既に', 'これまで', 'ここまで'],
+    continuation: ['続け', '継続'],
+    framingGain: ['\\d+% ?の?(?:成功|生存)|成功率|節約|利益'],
+    framingLoss: ['\\d+% ?の?(?:失敗|損失|離脱)|失敗率|損失|失う'],
+    decision: ['選択|決定|決め|べき|採用|諦め|見送'],
+    appeal: ['みんな(?:が)?使|皆(?:が)?使|業界標準|専門家(?:が|も)(?:言|推奨|勧め)|大手(?:企業)?(?:が|も)(?:使|採用)|ベストプラクティス|定番'],
+    evidenceCounter: ['データ|測定|計測|ベンチマーク|実験結果'],
+    hindsight: ['予想通り|最初から分かって|分かりきって|当然の結果|案の定|やっぱりこうなった'],
+    caseSpecific: ['精度|陽性|この(?:ユーザー|顧客|ケース|アカウント)|プロファイルと一致'],
+    probability: ['確率|可能性が高|ほぼ確実|おそらく'],
+    baseRateCounter: ['基準率|ベースレート|有病率|母集団|全体の(?:割合|中)|平均的に|\\d+人中'],
+    dichotomy: ['どちらか一つ|二択|唯一の(?:方法|選択)|他に(?:方法|選択肢)(?:は|が)ない|しかない'],
+    optionCounter: ['代替案|他の選択肢|折衷|第三の|別の方法'],
+    planningEstimate: ['\\d+ ?(?:時間|日|週間)(?:で|以内に)|一日で|明日まで|今週中に'],
+    optimism: ['簡単|すぐ|楽勝|問題ない|大したことない|単純'],
+    planningCounter: ['バッファ|余裕|最悪の場合|前回の|過去の(?:プロジェクト|実績)|不確定要素'],
+    survivor: ['成功した(?:企業|会社|スタートアップ|チーム|人)|成功事例|生き残った|ユニコーン'],
+    generalization: ['秘訣|したがって|だから(?:私たち|我々|うち)も|証明'],
+    failureCounter: ['失敗した|潰れた|倒産|撤退した'],
+    reflection: ['一方で|反対(?:意見|の根拠)|反例|再検討|見直|別の視点']
+  },
+  mitigation: {
+    'confirmation bias': ['反証|矛盾|別の原因|対立仮説|除外'],
+    'anchoring bias': ['新しい(?:情報|データ|根拠)|当初の想定とは別に|見積もりを更新'],
+    'availability heuristic': ['長期的|全期間|平均的に|過去全体'],
+    'overconfidence bias': ['不確実|前提|確信(?:は|が)持てない|間違っている可能性'],
+    'sunk cost fallacy': ['サンクコスト|埋没費用|今後の(?:価値|コスト|利益)|損切り|中止'],
+    'framing effect': ['言い換えると|裏返すと|別の表現'],
+    'hindsight bias': ['当時|その時点で(?:分かって|得られ)|事前に分かっていた']
+  },
+  tokens: {
+    stopwords: [
+      'の', 'に', 'は', 'を', 'が', 'で', 'と', 'も', 'へ', 'や', 'から', 'まで', 'より', 'こと', 'もの', 'これ', 'それ',
+      'あれ', 'この', 'その', 'ある', 'いる', 'する', 'です', 'ます', 'ない', 'など', 'ため'
+    ],
+    particles: []
+  },
+  rewriting: {
+    contractions: {
+      'じゃない': 'ではない',
+      'なきゃ': 'なければ'
+    },
+    ambiguousTerms: {}
+  }
+};
@@ -0,0 +1,67 @@
+/**
+ * Korean lexicon
+ *
+ * Hangul is not a regex word character, so patterns match anywhere in the text,
+ * including stems with particles or endings attached.
+ */
+
+import type { Lexicon } from '../../types/schemas.js';
+
+export const KO_LEXICON: Lexicon = {
+  language: 'ko',
+  version: '1.1.0',
+  wordBoundaries: false,
+  bias: {
+    anchoring: ['처음', '초기'],
+    recency: ['최근', '방금', '직전', '마지막'],
+    sunkCost: ['이미', '지금까지', '여기까지'],
+    continuation: ['계속'],
+    framingGain: ['\\d+% ?(?:성공|생존)|성공률|절약|이득'],
+    framingLoss: ['\\d+% ?(?:실패|손실|이탈)|실패율|손실|잃'],
+    decision: ['선택|결정|해야|채택|포기'],
+    appeal: ['모두가|다들|업계 표준|전문가(?:들)?(?:이|가) (?:말|추천|권장)|대부분의 (?:회사|팀)|유명한 회사|모범 사례'],
+    evidenceCounter: ['데이터|측정|벤치마크|실험 결과'],
+    hindsight: ['뻔했|예상했던 대로|처음부터 알|예견된|필연적|그럴 줄 알았'],
+    caseSpecific: ['정확도|양성|이 (?:사용자|고객|사례)|프로필과 일치'],
+    probability: ['확률|가능성이 높|거의 확실|아마도'],
+    baseRateCounter: ['기저율|유병률|전체 (?:비율|중)|모집단|평균적으로|\\d+명 중'],
+    dichotomy: ['둘 중 하나|유일한 (?:방법|선택)|다른 (?:방법|선택)(?:이|은) 없|밖에 없'],
+    optionCounter: ['대안|다른 선택지|절충|세 번째'],
+    planningEstimate: ['\\d+ ?(?:시간|일|주)(?:이면|만에| 안에)|하루면|내일까지|이번 주 안에'],
+    optimism: ['간단|금방|쉽게|바로|문제없|별거 아니'],
+    planningCounter: ['버퍼|여유|최악의 경우|지난번|과거 (?:프로젝트|일정)|변수'],
+    survivor: ['성공한 (?:기업|회사|스타트업|팀|사람)|성공 사례|살아남은|유니콘'],
+    generalization: ['비결|따라서|그러니|그래서 우리도|증명'],
+    failureCounter: ['실패한|망한|폐업|사라진'],
+    reflection: ['반면|반대 (?:의견|근거|증거)|반례|재검토|다시 (?:보면|생각하면|검토)|다른 관점']
+  },
+  mitigation: {
+    'confirmation bias': ['반증|모순|다른 원인|대안 가설|배제'],
+    'anchoring bias': ['새로운 (?:정보|데이터|근거)|처음 가정과 별개로|추정(?:을|치를) 갱신'],
+    'availability heuristic': ['장기적|전체 (?:기간|맥락)|평균적으로|과거 전체'],
+    'overconfidence bias': ['불확실|가정|확신하기 어렵|틀릴 수'],
+    'sunk cost fallacy': ['매몰 비용|앞으로의 (?:가치|비용|이익)|손절|중단'],
+    'framing effect': ['바꿔 말하면|뒤집어 보면|다르게 표현'],
+    'hindsight bias': ['당시|그때 (?:알던|가용)|사전에 알 수 있던']
+  },
+  tokens: {
+    stopwords: [
+      '그리고', '그러나', '하지만', '그래서', '또는', '및', '등', '것', '수', '이', '그', '저', '이런', '그런', '저런',
+      '있다', '있습니다', '없다', '없습니다', '하다', '합니다', '했다', '했습니다', '된다', '됩니다', '입니다', '이다',
+      '때', '더', '또', '잘', '좀', '매우', '너무', '우리', '저희'
+    ],
+    // Longest first, so '으로' is stripped before '로'
+    particles: [
+      '에서부터', '으로부터', '으로서', '으로써', '에게서', '이라고', '에서', '에게', '한테', '까지', '부터', '보다',
+      '처럼', '마다', '조차', '라고', '으로', '이나', '이랑', '하고', '와', '과', '을', '를', '이', '가', '은', '는',
+      '의', '에', '로', '도', '만', '랑'
+    ]
+  },
+  rewriting: {
+    contractions: {
+      '근데': '그런데',
+      '그치만': '그렇지만'
+    },
+    ambiguousTerms: {}
+  }
+};
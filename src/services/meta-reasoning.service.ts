@@ -0,0 +1,203 @@
+/**
+ * Meta-reasoning checkpoint service
+ * Reviews the reasoning so far and recommends whether to continue, pivot or stop
+ */
+
+import {
+  UltraThinkInput,
+  ThoughtRecord,
+  MetaCheckpointReport,
+  CheckpointRecommendation
+} from '../types/interfaces.js';
+import type { ISimilarityService } from '../core/interfaces/index.js';
+
+/**
+ * Recent quality scores considered for the trend
+ */
+const TREND_WINDOW = 10;
+
+/**
+ * Change between the halves of the trend window that counts as a direction
+ */
+const TREND_TOLERANCE = 0.05;
+
+/**
+ * A later thought this similar to a question is taken to address it
+ */
+const ANSWER_SIMILARITY = 0.3;
+
+const MAX_OPEN_QUESTIONS = 5;
+
+export class MetaReasoningService {
+  private similarityService: ISimilarityService;
+
+  constructor(similarityService: ISimilarityService) {
+    this.similarityService = similarityService;
+  }
+
+  /**
+   * Build a checkpoint report
+   * @param {UltraThinkInput} input - Thought at which the checkpoint fires
+   * @param {ThoughtRecord[]} thoughts - Recorded thoughts in order, including the current one
+   * @param {Map<string, UltraThinkInput[]>} branches - Branch histories
+   * @param {number} qualityThreshold - Quality below which thoughts are considered weak
+   */
+  buildReport(
+    input: UltraThinkInput,
+    thoughts: ThoughtRecord[],
+    branches: Map<string, UltraThinkInput[]>,
+    qualityThreshold: number
+  ): MetaCheckpointReport {
+    const progress = Math.min(input.thoughtNumber / input.totalThoughts, 1);
+    const qualityTrend = this.analyzeQualityTrend(thoughts);
+    const biases = this.collectBiases(thoughts);
+    const openQuestions = this.findOpenQuestions(thoughts);
+
+    const branchCoverage = {
+      branchCount: branches.size,
+      branches: Array.from(branches.entries()).map(([branchId, branch]) => ({
+        branchId,
+        branchFromThought: branch[0]?.branchFromThought,
+        thoughtCount: branch.length
+      })),
+      mainLineThoughts: thoughts.filter(record => !record.input.branchId).length
+    };
+
+    const { recommendation, rationale } = this.recommend(
+      progress, qualityTrend, biases, openQuestions.length, thoughts.length, qualityThreshold
+    );
+
+    return {
+      thoughtNumber: input.thoughtNumber,
+      progress: Math.round(progress * 100) / 100,
+      qualityTrend,
+      biases,
+      branchCoverage,
+      openQuestions,
+      recommendation,
+      rationale
+    };
+  }
+
+  private analyzeQualityTrend(thoughts: ThoughtRecord[]): MetaCheckpointReport['qualityTrend'] {
+    const scores = thoughts
+      .map(record => record.metadata?.qualityScore?.overall)
+      .filter((score): score is number => typeof score === 'number')
+      .slice(-TREND_WINDOW)
+      .map(round);
+
+    if (scores.length === 0) {
+      return { scores, average: null, direction: 'unknown', change: 0 };
+    }
+
+    const average = round(mean(scores));
+    if (scores.length < 2) {
+      return { scores, average, direction: 'unknown', change: 0 };
+    }
+
+    const half = Math.floor(scores.length / 2);
+    const change = round(mean(scores.slice(-half)) - mean(scores.slice(0, half)));
+    const direction = change > TREND_TOLERANCE ? 'improving' :
+      change < -TREND_TOLERANCE ? 'declining' : 'stable';
+
+    return { scores, average, direction, change };
+  }
+
+  private collectBiases(thoughts: ThoughtRecord[]): MetaCheckpointReport['biases'] {
+    const byType = new Map<string, number[]>();
+
+    for (const record of thoughts) {
+      const bias = record.metadata?.biasDetected || record.input.biasDetected;
+      if (!bias) continue;
+      byType.set(bias, [...(byType.get(bias) || []), record.thoughtNumber]);
+    }
+
+    return Array.from(byType.entries())
+      .map(([type, numbers]) => ({ type, count: numbers.length, thoughts: numbers }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Questions raised in a thought that no later thought appears to address
+   */
+  private findOpenQuestions(thoughts: ThoughtRecord[]): MetaCheckpointReport['openQuestions'] {
+    const open: MetaCheckpointReport['openQuestions'] = [];
+
+    thoughts.forEach((record, index) => {
+      const later = thoughts.slice(index + 1);
+      for (const question of extractQuestions(record.input.thought)) {
+        const answered = later.some(next =>
+          this.similarityService.calculateSimilarity(question, next.input.thought) >= ANSWER_SIMILARITY
+        );
+        if (!answered) {
+          open.push({ thoughtNumber: record.thoughtNumber, question });
+        }
+      }
+    });
+
+    return open.slice(-MAX_OPEN_QUESTIONS);
+  }
+
+  private recommend(
+    progress: number,
+    trend: MetaCheckpointReport['qualityTrend'],
+    biases: MetaCheckpointReport['biases'],
+    openQuestions: number,
+    thoughtCount: number,
+    qualityThreshold: number
+  ): { recommendation: CheckpointRecommendation; rationale: string } {
+    const biasedThoughts = biases.reduce((sum, bias) => sum + bias.count, 0);
+    const latest = trend.scores[trend.scores.length - 1];
+
+    if (trend.direction === 'declining' && latest !== undefined && latest < qualityThreshold) {
+      return {
+        recommendation: 'pivot',
+        rationale: `Quality is declining (${trend.change.toFixed(2)}) and below ${qualityThreshold}; ` +
+          'revisit the approach or branch from an earlier thought'
+      };
+    }
+
+    if (thoughtCount > 0 && biasedThoughts / thoughtCount >= 0.5) {
+      return {
+        recommendation: 'pivot',
+        rationale: `${biasedThoughts} of ${thoughtCount} thoughts show bias (${biases[0].type}); ` +
+          'challenge the current assumptions'
+      };
+    }
+
+    if (progress >= 0.75 && openQuestions === 0 && trend.direction !== 'declining' &&
+        (trend.average === null || trend.average >= qualityThreshold)) {
+      return {
+        recommendation: 'stop',
+        rationale: 'Most of the plan is done, quality holds and no questions are open; move to a conclusion'
+      };
+    }
+
+    const reasons = [`${Math.round(progress * 100)}% complete`];
+    if (openQuestions > 0) {
+      reasons.push(`${openQuestions} open question(s)`);
+    }
+    if (trend.direction !== 'unknown') {
+      reasons.push(`quality ${trend.direction}`);
+    }
+
+    return { recommendation: 'continue', rationale: reasons.join(', ') };
+  }
+}
+
+/**
+ * Split a thought into sentences and keep the questions
+ */
+function extractQuestions(text: string): string[] {
+  return (text.match(/[^.!?\n]*\?/g) || [])
+    .map(question => question.trim())
+    .filter(question => question.length > 1);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
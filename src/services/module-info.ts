@@ -13,6 +13,11 @@ export const MODULE_INFO = {
   // Public exports - what can be accessed from outside this module
   publicExports: [
     'bias-detector.service',
+    'embedding-providers',
+    'embedding-similarity.service',
+    'lexicon.service',
+    'meta-reasoning.service',
+    'branch-convergence.service',
     'quality-metrics.service',
     'similarity.service'
   ],
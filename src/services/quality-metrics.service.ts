@@ -1,30 +1,51 @@
 /**
  * Quality metrics calculation service
  * Evaluates reasoning quality across multiple dimensions
+ *
+ * Each dimension is scored from its own evidence:
+ * - Consistency: how the thought connects to earlier thoughts on its path
+ * - Completeness: how many points, steps and considerations the thought covers
+ * - Objectivity: detected bias, overclaiming, evidence and hedging
+ * - Practicality: actionable verbs, next steps, specificity, stated confidence
  */
 
-import { UltraThinkInput, QualityScore } from '../types/interfaces.js';
+import { UltraThinkInput, QualityScore, TextSignals } from '../types/interfaces.js';
 import { QUALITY_THRESHOLDS } from '../config/constants.js';
-import type { QualityCalculationMetadata } from '../types/common.js';
+import { analyzeTextSignals } from '../utils/text-signals.js';
+import { contentHash } from '../utils/content-hash.js';
+import type { CacheNamespace } from '../core/cache-manager.js';
+import type { IQualityMetricsService, ISimilarityService } from '../core/interfaces/index.js';
+
+/**
+ * Earlier thoughts on the same path compared for continuity
+ */
+const CONTINUITY_WINDOW = 3;
+
+export class QualityMetricsService implements IQualityMetricsService {
+  private similarityService: ISimilarityService;
+  private cache?: CacheNamespace<TextSignals>;
+
+  /**
+   * @param {ISimilarityService} similarityService - Scores continuity with earlier thoughts
+   * @param {CacheNamespace<TextSignals>} [cache] - Text signals shared across sessions, by thought text
+   */
+  constructor(similarityService: ISimilarityService, cache?: CacheNamespace<TextSignals>) {
+    this.similarityService = similarityService;
+    this.cache = cache;
+  }
 
-export class QualityMetricsService {
   /**
    * Calculate comprehensive quality metrics
+   * @param {UltraThinkInput} input - The thought to score
+   * @param {UltraThinkInput[]} history - Earlier thoughts of the session, oldest first
    */
-  calculateQualityMetrics(
-    input: UltraThinkInput,
-    thoughtHistory: Map<number, UltraThinkInput>
-  ): QualityScore {
-    let consistency: number = QUALITY_THRESHOLDS.CONSISTENCY_BASE;
-    let completeness: number = QUALITY_THRESHOLDS.COMPLETENESS_BASE;
-    let objectivity: number = QUALITY_THRESHOLDS.OBJECTIVITY_BASE;
-    let practicality: number = QUALITY_THRESHOLDS.PRACTICALITY_BASE;
-
-    // Apply various quality factors
-    consistency = this.evaluateConsistency(input, thoughtHistory, consistency);
-    completeness = this.evaluateCompleteness(input, completeness);
-    objectivity = this.evaluateObjectivity(input, objectivity);
-    practicality = this.evaluatePracticality(input, practicality);
+  calculateQuality(input: UltraThinkInput, history: UltraThinkInput[]): QualityScore {
+    const signals = this.getSignals(input.thought);
+
+    let consistency = this.evaluateConsistency(input, history, signals);
+    let completeness = this.evaluateCompleteness(signals);
+    let objectivity = this.evaluateObjectivity(input, signals);
+    let practicality = this.evaluatePracticality(input, signals);
 
     // Apply manual quality metrics if provided
     if (input.qualityMetrics) {
@@ -44,113 +65,147 @@ export class QualityMetricsService {
         completeness: Math.round(completeness * 100) / 100,
         objectivity: Math.round(objectivity * 100) / 100,
         practicality: Math.round(practicality * 100) / 100
-      }
+      },
+      signals
     };
   }
 
+  /**
+   * Text signals of a thought; they depend on the text alone, so they are cached
+   */
+  private getSignals(thought: string): TextSignals {
+    const key = contentHash(thought);
+    const cached = this.cache?.getSync(key);
+    if (cached) {
+      return cached;
+    }
+
+    const signals = analyzeTextSignals(thought);
+    this.cache?.set(key, signals).catch(() => undefined);
+    return signals;
+  }
+
   /**
    * Evaluate consistency with previous thoughts
    */
-  private evaluateConsistency(
-    input: UltraThinkInput,
-    thoughtHistory: Map<number, UltraThinkInput>,
-    baseScore: number
-  ): number {
-    let score = baseScore;
-
-    // Revisions typically improve consistency
-    if (input.isRevision) {
-      score = Math.min(0.9, score + 0.1);
+  private evaluateConsistency(input: UltraThinkInput, history: UltraThinkInput[], signals: TextSignals): number {
+    let score: number = QUALITY_THRESHOLDS.CONSISTENCY_BASE;
+
+    // Nothing to be consistent with yet
+    if (history.length === 0) {
+      return score;
+    }
+
+    // References to thoughts that were never recorded break the chain
+    const reference = input.revisesThought ?? input.branchFromThought;
+    const referenced = reference !== undefined ?
+      history.find(thought => thought.thoughtNumber === reference) : undefined;
+    if (reference !== undefined && !referenced) {
+      score -= 0.2;
+    } else if (input.isRevision) {
+      score += 0.05;
     }
 
-    // Bonus for maintaining context
-    if (input.thoughtNumber > 1 && thoughtHistory.has(input.thoughtNumber - 1)) {
-      score = Math.min(1.0, score + 0.1);
+    // Continuity with the referenced thought and the latest thoughts on the same path
+    const path = history.filter(thought => thought.branchId === input.branchId);
+    const anchors = [...(referenced ? [referenced] : []), ...path.slice(-CONTINUITY_WINDOW)];
+    const candidates = anchors.length > 0 ? anchors : history.slice(-CONTINUITY_WINDOW);
+    const continuity = Math.max(
+      ...candidates.map(thought => this.similarityService.calculateSimilarity(input.thought, thought.thought))
+    );
+
+    if (continuity >= 0.3) {
+      score += 0.15;
+    } else if (continuity >= 0.1) {
+      score += 0.05;
+    } else if (continuity === 0) {
+      score -= 0.15;
     }
 
-    // Check for logical flow
-    if (input.branchId && input.branchFromThought) {
-      const parentThought = thoughtHistory.get(input.branchFromThought);
-      if (parentThought) {
-        score = Math.min(0.95, score + 0.05);
-      }
+    // Explicit links to earlier reasoning
+    if (signals.links > 0) {
+      score += 0.05;
     }
 
-    return score;
+    return clamp(score);
   }
 
   /**
    * Evaluate completeness of analysis
    */
-  private evaluateCompleteness(input: UltraThinkInput, baseScore: number): number {
-    let score = baseScore;
-    const progressRatio = input.thoughtNumber / input.totalThoughts;
-
-    // Progress bonus
-    if (progressRatio > 0.5) {
-      score = Math.min(0.9, score + progressRatio * 0.2);
+  private evaluateCompleteness(signals: TextSignals): number {
+    let score: number = QUALITY_THRESHOLDS.COMPLETENESS_BASE;
+
+    // Distinct points made, as sentences, list items or steps
+    const points = Math.max(signals.sentences, signals.structure);
+
+    if (points <= 1 && signals.wordCount < 12) {
+      score -= 0.2;
+    } else if (points >= 5) {
+      score += 0.15;
+    } else if (points >= 3) {
+      score += 0.1;
     }
 
-    // Mode bonus (visual label only)
-    if (input.ultraThinkMode === 'parallel') {
-      score = Math.min(1.0, score + 0.1);
-    }
+    // Alternatives, risks and constraints that were taken into account
+    score += Math.min(0.15, signals.considerations * 0.05);
 
-    // Depth bonus for serial mode
-    if (input.ultraThinkMode === 'serial' && input.depthLevel && input.maxDepth) {
-      const depthRatio = input.depthLevel / input.maxDepth;
-      score = Math.min(0.95, score + depthRatio * 0.15);
-    }
-
-    return score;
+    return clamp(score);
   }
 
   /**
    * Evaluate objectivity and bias
    */
-  private evaluateObjectivity(input: UltraThinkInput, baseScore: number): number {
-    let score = baseScore;
+  private evaluateObjectivity(input: UltraThinkInput, signals: TextSignals): number {
+    let score: number = QUALITY_THRESHOLDS.OBJECTIVITY_BASE;
 
     // Penalty for detected bias
     if (input.biasDetected) {
-      score = Math.max(0.5, score - 0.25);
+      score -= 0.25;
     }
 
-    // Bonus for branch tracking
-    if (input.branchId) {
-      score = Math.min(0.95, score + 0.1);
+    // Overclaiming leaves no room for other outcomes
+    score -= Math.min(0.2, signals.overclaiming * 0.05);
+
+    // Claims grounded in evidence or weighed against other views
+    score += Math.min(0.15, signals.evidence * 0.05);
+    if (signals.hedging > 0) {
+      score += 0.05;
     }
 
-    // Meta-reasoning improves objectivity
-    if (input.metaCheckpoint) {
-      score = Math.min(1.0, score + 0.05);
+    // Exploring a branch considers another perspective
+    if (input.branchId) {
+      score += 0.05;
     }
 
-    return score;
+    return clamp(score);
   }
 
   /**
    * Evaluate practical applicability
    */
-  private evaluatePracticality(input: UltraThinkInput, baseScore: number): number {
-    let score = baseScore;
+  private evaluatePracticality(input: UltraThinkInput, signals: TextSignals): number {
+    let score: number = QUALITY_THRESHOLDS.PRACTICALITY_BASE;
 
-    // Use confidence as practicality indicator
-    if (input.confidence !== undefined) {
-      score = input.confidence;
+    if (signals.actionDensity === 0 && signals.nextSteps === 0 && signals.specificity === 0) {
+      score -= 0.1;
     }
 
-    // Fast mode focuses on practical solutions
-    if (input.budgetMode === 'fast') {
-      score = Math.max(0.7, score);
+    // Actionable verbs, weighted by how much of the thought they drive
+    score += signals.actionDensity * 0.15;
+    if (signals.nextSteps > 0) {
+      score += 0.05;
     }
 
-    // Exhaustive mode may sacrifice some practicality for completeness
-    if (input.budgetMode === 'exhaustive') {
-      score = Math.max(0.6, score - 0.1);
+    // Numbers, named entities and code identifiers
+    score += Math.min(0.1, signals.specificity * 0.03);
+
+    // A stated confidence tempers the estimate
+    if (input.confidence !== undefined) {
+      score = score * 0.75 + input.confidence * 0.25;
     }
 
-    return score;
+    return clamp(score);
   }
 
   /**
@@ -168,7 +223,7 @@ export class QualityMetricsService {
    */
   findWeakestMetric(metrics: QualityScore['metrics']): keyof QualityScore['metrics'] {
     const entries = Object.entries(metrics) as Array<[keyof QualityScore['metrics'], number]>;
-    return entries.reduce((weakest, [key, value]) => 
+    return entries.reduce((weakest, [key, value]) =>
       value < metrics[weakest] ? key : weakest
     , 'consistency' as keyof QualityScore['metrics']);
   }
@@ -185,7 +240,7 @@ export class QualityMetricsService {
    */
   getImprovementSuggestion(metrics: QualityScore['metrics']): string {
     const weakestMetric = this.findWeakestMetric(metrics);
-    
+
     const suggestions = {
       consistency: '일관성 개선 필요: 이전 사고들과의 논리적 연결 강화',
       completeness: '완전성 개선 필요: 누락된 측면이나 고려사항 추가 분석',
@@ -195,35 +250,8 @@ export class QualityMetricsService {
 
     return suggestions[weakestMetric];
   }
+}
 
-  /**
-   * Calculate quality score (interface method)
-   * @param {string} thought - The thought to analyze
-   * @param {QualityCalculationMetadata} metadata - Optional metadata
-   * @returns Quality score object
-   */
-  calculateQuality(thought: string, metadata?: QualityCalculationMetadata): {
-    overall: number;
-    clarity: number;
-    relevance: number;
-    depth: number;
-  } {
-    // Create a minimal UltraThinkInput for compatibility
-    const input: UltraThinkInput = {
-      thought,
-      thoughtNumber: 1,
-      totalThoughts: 1,
-      nextThoughtNeeded: false,
-      ...metadata
-    };
-    
-    const score = this.calculateQualityMetrics(input, new Map());
-    
-    return {
-      overall: score.overall,
-      clarity: score.metrics.consistency,
-      relevance: score.metrics.practicality,
-      depth: score.metrics.completeness
-    };
-  }
-}
\ No newline at end of file
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -4,6 +4,9 @@
  */
 
 import type { Logger } from '../utils/logger.js';
+import { contentHash } from '../utils/content-hash.js';
+import type { CacheNamespace } from '../core/cache-manager.js';
+import { LexiconService } from './lexicon.service.js';
 
 export interface QueryRewritingResult {
   originalQuery: string;
@@ -14,15 +17,40 @@ export interface QueryRewritingResult {
 
 export class QueryRewritingService {
   private readonly logger?: Logger;
+  private readonly lexicons: LexiconService;
+  private readonly cache?: CacheNamespace<QueryRewritingResult>;
   
-  constructor(logger?: Logger) {
+  /**
+   * @param {Logger} [logger] - Logs rewrites in debug mode
+   * @param {LexiconService} [lexicons] - Contractions and ambiguous terms
+   * @param {CacheNamespace<QueryRewritingResult>} [cache] - Results shared across sessions, by query
+   */
+  constructor(
+    logger?: Logger,
+    lexicons: LexiconService = new LexiconService(),
+    cache?: CacheNamespace<QueryRewritingResult>
+  ) {
     this.logger = logger;
+    this.lexicons = lexicons;
+    this.cache = cache;
   }
 
   /**
    * Analyze and rewrite a query for better clarity and structure
    */
   public async rewriteQuery(query: string): Promise<QueryRewritingResult> {
+    const key = contentHash(query.trim());
+    let result = await this.cache?.get(key);
+    if (!result) {
+      result = this.rewrite(query);
+      await this.cache?.set(key, result);
+    }
+
+    // The cache holds this object for other sessions, so hand out a copy
+    return { ...result, improvements: [...result.improvements] };
+  }
+
+  private rewrite(query: string): QueryRewritingResult {
     const originalQuery = query.trim();
     const improvements: string[] = [];
     let rewrittenQuery = originalQuery;
@@ -83,56 +111,11 @@ export class QueryRewritingService {
   }
 
   /**
-   * Expand common contractions
+   * Expand common contractions, from the lexicons of the query's languages
    */
   private expandContractions(query: string): string {
-    const contractions: Record<string, string> = {
-      "can't": "cannot",
-      "won't": "will not",
-      "shouldn't": "should not",
-      "wouldn't": "would not",
-      "couldn't": "could not",
-      "isn't": "is not",
-      "aren't": "are not",
-      "wasn't": "was not",
-      "weren't": "were not",
-      "hasn't": "has not",
-      "haven't": "have not",
-      "doesn't": "does not",
-      "don't": "do not",
-      "didn't": "did not",
-      "let's": "let us",
-      "it's": "it is",
-      "what's": "what is",
-      "that's": "that is",
-      "there's": "there is",
-      "here's": "here is",
-      "who's": "who is",
-      "where's": "where is",
-      "when's": "when is",
-      "why's": "why is",
-      "how's": "how is",
-      "i'm": "I am",
-      "you're": "you are",
-      "we're": "we are",
-      "they're": "they are",
-      "i've": "I have",
-      "you've": "you have",
-      "we've": "we have",
-      "they've": "they have",
-      "i'd": "I would",
-      "you'd": "you would",
-      "we'd": "we would",
-      "they'd": "they would",
-      "i'll": "I will",
-      "you'll": "you will",
-      "we'll": "we will",
-      "they'll": "they will"
-    };
-
     let result = query;
-    for (const [contraction, expansion] of Object.entries(contractions)) {
-      const regex = new RegExp(`\\b${contraction}\\b`, 'gi');
+    for (const [regex, expansion] of this.lexicons.forText(query).rewriting.contractions) {
       result = result.replace(regex, expansion);
     }
     return result;
@@ -173,23 +156,11 @@ export class QueryRewritingService {
   }
 
   /**
-   * Clarify ambiguous terms
+   * Clarify ambiguous terms, from the lexicons of the query's languages
    */
   private clarifyAmbiguousTerms(query: string): string {
-    const ambiguousTerms: Record<string, string> = {
-      '\\bit\\b': 'the subject',
-      '\\bthing\\b': 'the concept',
-      '\\bstuff\\b': 'the materials',
-      '\\bthis\\b(?! \\w+)': 'this matter',
-      '\\bthat\\b(?! \\w+)': 'that point',
-      '\\bdo\\b(?! \\w+)': 'accomplish',
-      '\\bget\\b(?! \\w+)': 'understand',
-      '\\bmake\\b(?! \\w+)': 'create'
-    };
-
     let result = query;
-    for (const [ambiguous, clear] of Object.entries(ambiguousTerms)) {
-      const regex = new RegExp(ambiguous, 'gi');
+    for (const [regex, clear] of this.lexicons.forText(query).rewriting.ambiguousTerms) {
       const matches = result.match(regex);
       if (matches && matches.length === 1) {
         // Only replace if there's a single occurrence to avoid over-clarification
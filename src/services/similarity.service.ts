@@ -3,45 +3,124 @@
  * 
  * @module similarity.service
  * @description Provides optimized text similarity calculations with:
- * - LRU (Least Recently Used) caching for performance
+ * - Caching of scores in a CacheManager namespace, shared across sessions
  * - Jaccard similarity algorithm
  * - TTL-based cache expiration
  * - Event emission for cache monitoring
+ * - An optional TF-IDF engine with per-session IDF, character n-grams,
+ *   Korean particle stripping and per-language stopwords
+ * - A MinHash/LSH index of the session's thoughts, so finding similar earlier
+ *   thoughts only scores the likely candidates
  */
 
 import { TEXT_PROCESSING, PERFORMANCE } from '../config/constants.js';
 import { EventBus, EventNames } from '../core/event-bus.js';
+import { CacheManager } from '../core/cache-manager.js';
+import type { CacheNamespace, NamespaceStats } from '../core/cache-manager.js';
+import { MinHashIndex } from '../utils/minhash.js';
+import { contentHash } from '../utils/content-hash.js';
+import type { SimilarityMatch } from '../types/interfaces.js';
+import { LexiconService } from './lexicon.service.js';
 
-interface SimilarityCache {
-  key: string;
-  value: number;
-  timestamp: number;
+/**
+ * `term` is the raw term-frequency cosine; `tfidf` weights words and n-grams
+ */
+export type SimilarityEngine = 'term' | 'tfidf';
+
+/**
+ * Parts of the `tfidf` engine that can be switched off
+ */
+export type SimilarityFeature = 'idf' | 'ngrams' | 'josa' | 'stopwords';
+
+export const SIMILARITY_FEATURES: SimilarityFeature[] = ['idf', 'ngrams', 'josa', 'stopwords'];
+
+export interface SimilarityOptions {
+  engine?: SimilarityEngine;
+  features?: SimilarityFeature[];
+  ngramSize?: number;
 }
 
+let corpusCounter = 0;
+
 /**
  * Service for calculating text similarity with caching
  * @class SimilarityService
  * @public
  */
 export class SimilarityService {
-  /** LRU cache for similarity results */
-  private cache: Map<string, SimilarityCache>;
-  /** Maximum number of cached entries */
-  private readonly cacheSize: number;
-  /** Cache time-to-live in milliseconds */
-  private readonly cacheTTL: number = 3600000; // 1 hour in milliseconds
+  /** Cache for similarity results */
+  private cache: CacheNamespace<number>;
   /** Optional event bus for cache events */
   private eventBus?: EventBus;
+  private readonly engine: SimilarityEngine;
+  private readonly features: Set<SimilarityFeature>;
+  private readonly ngramSize: number;
+  private readonly lexicons: LexiconService;
+  /** Number of documents containing each feature, for IDF */
+  private documentFrequency: Map<string, number> = new Map();
+  private documentCount: number = 0;
+  /** Identifies the IDF corpus, so cached scores of other sessions are not reused */
+  private corpus: string = `corpus${++corpusCounter}`;
+  /** Engine settings, part of every cache key */
+  private readonly variant: string;
+  /** Signatures of the session's texts, keyed by content hash */
+  private index: MinHashIndex = new MinHashIndex();
+  /** History indexed so far with its content hashes, and the positions of each hash in it */
+  private indexed: string[] = [];
+  private indexedKeys: string[] = [];
+  private positions: Map<string, number[]> = new Map();
+  /** Texts dropped from the front of the history; positions count from the first indexed text */
+  private dropped: number = 0;
 
   /**
    * Creates a new SimilarityService instance
-   * @param {number} [cacheSize=100] - Maximum cache size
+   * @param {number} [cacheSize=100] - Maximum cache size, if no cache is given
    * @param {EventBus} [eventBus] - Optional event bus for cache events
+   * @param {SimilarityOptions} [options] - Engine and its features; the `term` engine by default
+   * @param {LexiconService} [lexicons] - Stopwords and particles of the `tfidf` engine
+   * @param {CacheNamespace<number>} [cache] - Shared cache; a private in-memory one if omitted
    */
-  constructor(cacheSize: number = PERFORMANCE.CACHE_SIZE, eventBus?: EventBus) {
-    this.cache = new Map();
-    this.cacheSize = cacheSize;
+  constructor(
+    cacheSize: number = PERFORMANCE.CACHE_SIZE,
+    eventBus?: EventBus,
+    options: SimilarityOptions = {},
+    lexicons: LexiconService = new LexiconService(),
+    cache?: CacheNamespace<number>
+  ) {
+    this.cache = cache ||
+      new CacheManager<number>({ maxL1Size: cacheSize, enableDiskCache: false, maintenanceInterval: 0 }).namespace('similarity');
     this.eventBus = eventBus;
+    this.engine = options.engine ?? 'term';
+    this.features = new Set(options.features ?? SIMILARITY_FEATURES);
+    this.ngramSize = options.ngramSize ?? 3;
+    this.lexicons = lexicons;
+    this.variant = this.engine === 'tfidf'
+      ? `tfidf.${Array.from(this.features).sort().join('+')}.${this.ngramSize}`
+      : 'term';
+  }
+
+  /**
+   * Add a thought of the session to the IDF corpus
+   * @param {string} text - Thought text
+   * @public
+   */
+  addDocument(text: string): void {
+    if (this.engine !== 'tfidf' || !this.features.has('idf')) return;
+
+    for (const feature of this.extractFeatures(text).keys()) {
+      this.documentFrequency.set(feature, (this.documentFrequency.get(feature) || 0) + 1);
+    }
+    this.documentCount++;
+  }
+
+  /**
+   * Forget the IDF corpus
+   * @public
+   */
+  resetDocuments(): void {
+    this.documentFrequency.clear();
+    this.documentCount = 0;
+    this.corpus = `corpus${++corpusCounter}`;
   }
 
   /**
@@ -54,12 +133,12 @@ export class SimilarityService {
   calculateSimilarity(text1: string, text2: string): number {
     // Check cache first
     const cacheKey = this.getCacheKey(text1, text2);
-    const cached = this.cache.get(cacheKey);
+    const cached = this.cache.getSync(cacheKey);
     
-    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
+    if (cached !== null) {
       // Emit cache hit event
       this.eventBus?.emit(EventNames.CACHE_HIT, { key: cacheKey, hit: true });
-      return cached.value;
+      return cached;
     }
 
     // Emit cache miss event
@@ -68,8 +147,8 @@ export class SimilarityService {
     // Calculate similarity
     const similarity = this.computeSimilarity(text1, text2);
     
-    // Cache the result
-    this.setCacheValue(cacheKey, similarity);
+    // Cache the result; the entry is stored before the returned promise settles
+    this.cache.set(cacheKey, similarity).catch(() => undefined);
     
     return similarity;
   }
@@ -87,6 +166,10 @@ export class SimilarityService {
       return lengthRatio;
     }
     
+    if (this.engine === 'tfidf') {
+      return this.weightedCosine(this.extractFeatures(text1), this.extractFeatures(text2));
+    }
+    
     // Tokenize and normalize
     const tokens1 = this.tokenize(text1);
     const tokens2 = this.tokenize(text2);
@@ -95,6 +178,110 @@ export class SimilarityService {
     return this.cosineSimilarity(tokens1, tokens2);
   }
 
+  /**
+   * Find the earlier texts most similar to a text
+   *
+   * The history is indexed incrementally: while each call's history extends the
+   * previous one, only the texts added since are hashed. Texts trimmed from the
+   * front of the history are dropped from the index; any other history is indexed
+   * afresh. Only texts sharing an LSH band with the text are scored.
+   * @param {string} text - Text to match
+   * @param {string[]} history - Earlier texts
+   * @param {number} [limit=5] - Maximum number of matches
+   * @param {number} [minScore=0] - Lowest similarity to report
+   * @returns {SimilarityMatch[]} Matches, most similar first
+   * @public
+   */
+  findSimilar(text: string, history: string[], limit: number = 5, minScore: number = 0): SimilarityMatch[] {
+    this.indexHistory(history);
+
+    // Texts without shingles have no signature, but an identical one still matches
+    const candidates = new Set(this.index.query(this.shingles(text)).map(candidate => candidate.key));
+    candidates.add(contentHash(text));
+
+    const matches: SimilarityMatch[] = [];
+    for (const key of candidates) {
+      const found = this.positions.get(key);
+      if (!found) continue;
+
+      const score = this.calculateSimilarity(text, history[found[0] - this.dropped]);
+      if (score >= minScore) {
+        matches.push(...found.map(position => ({ index: position - this.dropped, score })));
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+  }
+
+  /**
+   * Index the texts added to the history since the last call
+   */
+  private indexHistory(history: string[]): void {
+    this.dropIndexed(this.countDropped(history));
+
+    for (let position = this.indexed.length; position < history.length; position++) {
+      const previous = history[position];
+      const key = contentHash(previous);
+      if (!this.index.has(key)) {
+        this.index.add(key, this.shingles(previous));
+      }
+      const found = this.positions.get(key);
+      if (found) {
+        found.push(this.dropped + position);
+      } else {
+        this.positions.set(key, [this.dropped + position]);
+      }
+      this.indexed.push(previous);
+      this.indexedKeys.push(key);
+    }
+  }
+
+  /**
+   * How many indexed texts the history no longer starts with
+   *
+   * A history trimmed at the front keeps the rest of the indexed texts; any other
+   * history keeps none. Compares the texts themselves, which is far cheaper than
+   * hashing them again.
+   */
+  private countDropped(history: string[]): number {
+    for (let dropped = 0; dropped < this.indexed.length; dropped++) {
+      const kept = this.indexed.length - dropped;
+      if (kept > history.length) continue;
+
+      let position = 0;
+      while (position < kept && history[position] === this.indexed[dropped + position]) {
+        position++;
+      }
+      if (position === kept) return dropped;
+    }
+    return this.indexed.length;
+  }
+
+  /**
+   * Forget the oldest indexed texts, and their signatures once no copy is left
+   */
+  private dropIndexed(count: number): void {
+    for (const key of this.indexedKeys.splice(0, count)) {
+      const found = this.positions.get(key)!;
+      found.shift();
+      if (found.length === 0) {
+        this.positions.delete(key);
+        this.index.remove(key);
+      }
+    }
+    this.indexed.splice(0, count);
+    this.dropped += count;
+  }
+
+  /**
+   * Features the LSH index compares, matching the engine's
+   */
+  private shingles(text: string): Iterable<string> {
+    return this.engine === 'tfidf' ? this.extractFeatures(text).keys() : new Set(this.tokenize(text));
+  }
+
   /**
    * Tokenize and normalize text
    */
@@ -103,6 +290,89 @@ export class SimilarityService {
     return normalized.split(/\s+/).filter(t => t.length > TEXT_PROCESSING.MIN_TOKEN_LENGTH);
   }
 
+  /**
+   * Words of a text for the `tfidf` engine: no length limit, particles and stopwords removed
+   */
+  private analyze(text: string): string[] {
+    const { stopwords, particles } = this.lexicons.forText(text).tokens;
+    const words = text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+    
+    return words
+      .map(word => this.features.has('josa') ? stripParticle(word, particles) : word)
+      .filter(word => !this.features.has('stopwords') || !stopwords.has(word));
+  }
+
+  /**
+   * Word and character n-gram counts of a text
+   */
+  private extractFeatures(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const add = (feature: string) => features.set(feature, (features.get(feature) || 0) + 1);
+    
+    for (const word of this.analyze(text)) {
+      add(`w:${word}`);
+      if (this.features.has('ngrams')) {
+        for (let i = 0; i + this.ngramSize <= word.length; i++) {
+          add(`c:${word.substring(i, i + this.ngramSize)}`);
+        }
+      }
+    }
+    
+    return features;
+  }
+
+  /**
+   * Smoothed inverse document frequency of a feature in the session
+   */
+  private idf(feature: string): number {
+    if (!this.features.has('idf')) return 1;
+    return Math.log((1 + this.documentCount) / (1 + (this.documentFrequency.get(feature) || 0))) + 1;
+  }
+
+  /**
+   * Cosine similarity of TF-IDF weighted feature counts
+   */
+  private weightedCosine(freq1: Map<string, number>, freq2: Map<string, number>): number {
+    let dotProduct = 0;
+    let norm1 = 0;
+    let norm2 = 0;
+    
+    freq1.forEach((count, feature) => {
+      const weight = count * this.idf(feature);
+      norm1 += weight * weight;
+      if (freq2.has(feature)) {
+        dotProduct += weight * freq2.get(feature)! * this.idf(feature);
+      }
+    });
+    
+    freq2.forEach((count, feature) => {
+      const weight = count * this.idf(feature);
+      norm2 += weight * weight;
+    });
+    
+    if (norm1 === 0 || norm2 === 0) return 0;
+    
+    return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
+  }
+
+  /**
+   * Extract the most frequent terms of a text
+   * @param {string} text - Text to analyze
+   * @param {number} [limit=10] - Maximum number of terms
+   * @returns {string[]} Terms ordered by frequency, then first appearance
+   * @public
+   */
+  extractKeyTerms(text: string, limit: number = 10): string[] {
+    const tokens = this.engine === 'tfidf' ? this.analyze(text) : this.tokenize(text);
+    const freq = this.getFrequencyMap(tokens);
+    
+    // Map iteration order is first appearance, and the sort is stable
+    return Array.from(freq.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([term]) => term);
+  }
+
   /**
    * Calculate cosine similarity between token arrays
    */
@@ -149,50 +419,22 @@ export class SimilarityService {
   private getCacheKey(text1: string, text2: string): string {
     // Order-independent key generation
     const [first, second] = text1 < text2 ? [text1, text2] : [text2, text1];
-    return `${first.substring(0, 50)}|${second.substring(0, 50)}`;
-  }
-
-  /**
-   * Set cache value with size management
-   */
-  private setCacheValue(key: string, value: number): void {
-    // Remove oldest entries if cache is full
-    if (this.cache.size >= this.cacheSize) {
-      const oldestKey = this.findOldestCacheKey();
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
-      }
-    }
-    
-    this.cache.set(key, {
-      key,
-      value,
-      timestamp: Date.now()
-    });
+    const key = `${this.variant}|${contentHash(`${first}\u0000${second}`)}`;
+    // IDF weights change with every document, so scores are only valid for one corpus and size
+    return this.engine === 'tfidf' && this.features.has('idf') ? `${key}|${this.corpus}.${this.documentCount}` : key;
   }
 
   /**
-   * Find the oldest cache entry
-   */
-  private findOldestCacheKey(): string | null {
-    let oldestKey: string | null = null;
-    let oldestTime = Infinity;
-    
-    this.cache.forEach((entry, key) => {
-      if (entry.timestamp < oldestTime) {
-        oldestTime = entry.timestamp;
-        oldestKey = key;
-      }
-    });
-    
-    return oldestKey;
-  }
-
-  /**
-   * Clear the cache
+   * Clear the LSH index
+   *
+   * Cached scores stay: their keys name the texts, engine and corpus, so they never go stale.
    */
   clearCache(): void {
-    this.cache.clear();
+    this.index.clear();
+    this.indexed = [];
+    this.indexedKeys = [];
+    this.positions.clear();
+    this.dropped = 0;
     // Emit cache cleared event
     this.eventBus?.emit(EventNames.CACHE_CLEARED, { key: '*', hit: false });
   }
@@ -200,11 +442,8 @@ export class SimilarityService {
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; maxSize: number } {
-    return {
-      size: this.cache.size,
-      maxSize: this.cacheSize
-    };
+  getCacheStats(): NamespaceStats {
+    return this.cache.getStats();
   }
 
   /**
@@ -218,9 +457,9 @@ export class SimilarityService {
       return null;
     }
 
-    // Check for repetitive patterns
-    const similarities = history.map(prev => this.calculateSimilarity(text, prev));
-    const avgSimilarity = similarities.reduce((a, b) => a + b, 0) / similarities.length;
+    // Check for repetitive patterns; texts that are not LSH candidates count as dissimilar
+    const matches = this.findSimilar(text, history, history.length);
+    const avgSimilarity = matches.reduce((sum, match) => sum + match.score, 0) / history.length;
 
     if (avgSimilarity > 0.8) {
       return 'repetitive_pattern';
@@ -233,4 +472,16 @@ export class SimilarityService {
 
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Strip the longest matching particle, keeping stems of at least two characters
+ */
+function stripParticle(word: string, particles: string[]): string {
+  for (const particle of particles) {
+    if (word.endsWith(particle) && word.length - particle.length >= 2) {
+      return word.slice(0, -particle.length);
+    }
+  }
+  return word;
+}
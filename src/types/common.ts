@@ -5,18 +5,6 @@
  * @description Shared type definitions to replace any types
  */
 
-/**
- * Metadata for quality calculation
- */
-export interface QualityCalculationMetadata {
-  thoughtNumber: number;
-  totalThoughts: number;
-  confidence?: number;
-  mode?: string;
-  depthLevel?: number;
-  [key: string]: unknown; // Allow additional properties
-}
-
 /**
  * Coercion input type
  */
@@ -105,7 +93,7 @@ export interface ResourceSnapshot {
 export interface PluginHooks {
   beforeProcess?: (input: unknown) => unknown | Promise<unknown>;
   afterProcess?: (response: unknown) => unknown | Promise<unknown>;
-  onBiasDetected?: (biasType: string) => void | Promise<void>;
+  onBiasDetected?: (biasType: string, input: unknown, biases: unknown[]) => void | Promise<void>;
   onQualityCheck?: (score: unknown) => void | Promise<void>;
 }
 
@@ -26,6 +26,7 @@ export interface UltraThinkEnhancements {
   biasDetected?: string;
   priority?: number;
   enableQueryRewriting?: boolean;
+  sessionId?: string;
   metadata?: Record<string, any>;
 }
 
@@ -52,10 +53,13 @@ export interface ResponseMetadata {
   depthLevel?: number;
   confidence?: number;
   qualityScore?: QualityScore;
+  qualityTrend?: QualityTrend;
   autoLabel?: string;
   budgetStatus?: BudgetStatus;
   suggestedNextStep?: string;
   biasDetected?: string | null;
+  biases?: BiasFinding[];
+  biasMitigation?: BiasMitigationReport;
   processingTime?: number;
   workerId?: string;
   error?: boolean;
@@ -63,9 +67,69 @@ export interface ResponseMetadata {
   biasWarning?: string;
   mode?: string;
   batchProcessed?: boolean;
+  revision?: RevisionInfo;
+  validationWarnings?: string[];
+  metaCheckpoint?: MetaCheckpointReport;
   [key: string]: unknown;
 }
 
+export interface ThoughtRecord {
+  thoughtNumber: number;
+  input: UltraThinkInput;
+  metadata?: ResponseMetadata;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TextDiff {
+  added: number;        // Words added
+  removed: number;      // Words removed
+  unchanged: number;
+  segments: DiffSegment[];
+}
+
+export type CheckpointRecommendation = 'continue' | 'pivot' | 'stop';
+
+export type TrendDirection = 'improving' | 'declining' | 'stable' | 'unknown';
+
+export interface MetaCheckpointReport {
+  thoughtNumber: number;
+  progress: number;                 // 0-1
+  qualityTrend: {
+    scores: number[];               // Overall quality of recent thoughts, oldest first
+    average: number | null;
+    direction: TrendDirection;
+    change: number;                 // Mean of the later half minus mean of the earlier half
+  };
+  biases: Array<{ type: string; count: number; thoughts: number[] }>;
+  branchCoverage: {
+    branchCount: number;
+    branches: Array<{ branchId: string; branchFromThought?: number; thoughtCount: number }>;
+    mainLineThoughts: number;       // Thoughts outside any branch
+  };
+  openQuestions: Array<{ thoughtNumber: number; question: string }>;
+  recommendation: CheckpointRecommendation;
+  rationale: string;
+}
+
+export interface ThoughtVersion {
+  version: number;        // 1 is the original thought
+  thoughtNumber: number;  // Thought that introduced this version
+  thought: string;
+}
+
+export interface RevisionInfo {
+  originalThought: number;      // Thought number the chain started from
+  revisesThought: number;
+  version: number;              // Version this revision created
+  chain: ThoughtVersion[];      // Every version, oldest first
+  diff: TextDiff;               // Previous version -> this revision
+  possiblyStale: Array<{ thoughtNumber: number; similarity: number }>;
+}
+
 export interface QualityScore {
   overall: number;
   metrics: {
@@ -74,14 +138,120 @@ export interface QualityScore {
     objectivity: number;
     practicality: number;
   };
+  signals?: TextSignals;        // Content signals the scores were derived from
+}
+
+/**
+ * A bias found in a thought and what triggered it
+ */
+export interface BiasFinding {
+  type: string;                 // e.g. 'confirmation bias'
+  confidence: number;           // 0-1
+  evidence: string[];           // Triggering keywords, terms or values
+  relatedThoughts: number[];    // Earlier thoughts that contributed to the verdict
+}
+
+/**
+ * An earlier text similar to a query
+ */
+export interface SimilarityMatch {
+  index: number;                // Position in the searched history
+  score: number;                // Similarity, 0-1
+}
+
+export type MitigationStatus = 'open' | 'addressed' | 'unaddressed';
+
+/**
+ * A detected bias and how later thoughts dealt with it
+ */
+export interface BiasMitigation {
+  bias: string;
+  detectedIn: number;           // Thought the bias was found in
+  prompt: string;               // Concrete step to counter it
+  status: MitigationStatus;
+  addressedBy?: number;         // Thought that addressed it
+  evidence?: string[];          // What showed it was addressed: a revision, a branch or counter-cues
+}
+
+/**
+ * Mitigation state of a session after one thought
+ */
+export interface BiasMitigationReport {
+  prompt?: string;                  // Mitigation for the most confident bias of this thought
+  open: BiasMitigation[];           // Biases no later thought has addressed yet, this thought's included
+  corrected: BiasMitigation[];      // Earlier biases this thought addressed
+  unaddressed: BiasMitigation[];    // Earlier biases that went unaddressed for too long, dropped with this thought
+}
+
+export interface DimensionTrend {
+  average: number;
+  slope: number;                // Change per thought over the window
+  direction: TrendDirection;
+}
+
+/**
+ * Quality of the session's thoughts over time
+ */
+export interface QualityTrend {
+  samples: number;              // Thoughts scored in the session
+  window: number[];             // Overall scores of the moving window, oldest first
+  movingAverage: number;
+  slope: number;                // Change in overall score per thought over the window
+  direction: TrendDirection;
+  dimensions: Record<keyof QualityScore['metrics'], DimensionTrend>;
+  sparkline: string;            // Recent overall scores, e.g. '▃▅▆▇'
+  change?: 'improved' | 'regressed';  // Set when this thought recovered or dropped sharply
+}
+
+/**
+ * Content signals of a thought's text (English and Korean)
+ */
+export interface TextSignals {
+  language: 'en' | 'ko' | 'ja' | 'mixed';
+  wordCount: number;
+  sentences: number;
+  evidence: number;             // Evidence markers ("because", "data shows", "근거")
+  hedging: number;              // Hedged claims ("likely", "아마")
+  overclaiming: number;         // Absolute claims ("always", "무조건")
+  specificity: number;          // Numbers, named entities and code identifiers
+  actionDensity: number;        // Actionable verbs per sentence, 0-1
+  nextSteps: number;            // Recommendations and next-step markers
+  structure: number;            // List items and step markers
+  considerations: number;       // Alternatives, risks and constraints
+  links: number;                // References to earlier reasoning
 }
 
 export interface BudgetStatus {
   used: number;
   total: number;
   efficiency: string;
+  limits?: BudgetLimits;                // Session limits of the active budget mode
+  usage?: BudgetUsage;                  // Session usage including this thought
+  warnings?: string[];                  // Warning thresholds crossed by this thought
+  exceeded?: BudgetDimension[];         // Dimensions over their limit
+}
+
+export type BudgetDimension = 'thoughts' | 'characters' | 'branches' | 'time';
+
+export interface BudgetLimits {
+  maxThoughts: number;
+  maxCharacters: number;
+  maxBranches: number;
+  maxDurationMs: number;
+}
+
+export interface BudgetUsage {
+  thoughts: number;
+  characters: number;
+  branches: number;
+  elapsedMs: number;
 }
 
+/**
+ * What happens when a session goes over its budget
+ */
+export type BudgetEnforcement = 'strict' | 'warn';
+
 export interface ComplexityPreset {
   name: string;
   totalThoughts: number;
@@ -99,5 +269,13 @@ export interface UltraThinkConfig {
   readonly defaultBudgetMode: 'fast' | 'balanced' | 'thorough' | 'exhaustive';
   readonly metaCheckpointFrequency: number;
   readonly qualityThreshold: number;
+  readonly sequenceValidation?: SequenceValidationMode;
+  readonly budgetEnforcement?: BudgetEnforcement;
+  readonly budgetWarningThresholds?: number[];   // Fractions of a limit (0-1) at which to warn
   readonly debugMode?: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * How findings of session-aware sequence validation are reported
+ */
+export type SequenceValidationMode = 'strict' | 'lenient' | 'off';
\ No newline at end of file
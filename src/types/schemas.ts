@@ -18,6 +18,9 @@ export const BaseThoughtSchema = z.object({
   needsMoreThoughts: z.boolean().optional().describe('Whether more thoughts are needed beyond current total')
 });
 
+// Reasoning session identifier
+export const SessionIdSchema = z.string().min(1).max(100).regex(/^[A-Za-z0-9_.:-]+$/);
+
 // Ultra Think enhancement parameters
 export const UltraThinkSchema = z.object({
   ultraThinkMode: z.enum(['serial', 'parallel', 'hybrid']).optional()
@@ -46,6 +49,9 @@ export const UltraThinkSchema = z.object({
     .describe('Whether this is a meta-reasoning checkpoint'),
   biasDetected: z.string().optional()
     .describe('Detected cognitive bias'),
+  
+  sessionId: SessionIdSchema.optional()
+    .describe('Reasoning session that keeps history across calls'),
 });
 
 // Combined schema
@@ -81,7 +87,100 @@ export const UltraThinkResponseSchema = z.object({
   }).optional()
 });
 
+// Session tool arguments
+export const GetThoughtHistorySchema = z.object({
+  sessionId: SessionIdSchema.optional(),
+  branchId: z.string().min(1).max(100).optional(),
+  fromThought: z.number().int().min(1).optional(),
+  toThought: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).max(1000).optional()
+});
+
+export const GetBranchSchema = z.object({
+  sessionId: SessionIdSchema.optional(),
+  branchId: z.string().min(1).max(100)
+});
+
+export const SessionTargetSchema = z.object({
+  sessionId: SessionIdSchema.optional()
+});
+
+export const ListSessionsSchema = z.object({
+  includePersisted: z.boolean().optional()
+});
+
+export const CacheStatsSchema = z.object({
+  namespace: z.string().min(1).max(100).optional()
+});
+
+export const ConvergeBranchesSchema = z.object({
+  sessionId: SessionIdSchema.optional(),
+  branchIds: z.array(z.string().min(1).max(100)).min(2).max(10)
+});
+
+// Lexicons: regular expression sources per language, see services/lexicons
+const PatternSchema = z.string().min(1).refine(source => {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid regular expression' });
+
+const PatternListSchema = z.array(PatternSchema);
+
+export const LexiconLanguageSchema = z.enum(['en', 'ko', 'ja']);
+
+export const LexiconSchema = z.object({
+  language: LexiconLanguageSchema,
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Version must be major.minor.patch'),
+  wordBoundaries: z.boolean().describe('Match patterns on word boundaries, for space-delimited languages'),
+  bias: z.object({
+    anchoring: PatternListSchema,
+    recency: PatternListSchema,
+    sunkCost: PatternListSchema,
+    continuation: PatternListSchema,
+    framingGain: PatternListSchema,
+    framingLoss: PatternListSchema,
+    decision: PatternListSchema,
+    appeal: PatternListSchema,
+    evidenceCounter: PatternListSchema,
+    hindsight: PatternListSchema,
+    caseSpecific: PatternListSchema,
+    probability: PatternListSchema,
+    baseRateCounter: PatternListSchema,
+    dichotomy: PatternListSchema,
+    optionCounter: PatternListSchema,
+    planningEstimate: PatternListSchema,
+    optimism: PatternListSchema,
+    planningCounter: PatternListSchema,
+    survivor: PatternListSchema,
+    generalization: PatternListSchema,
+    failureCounter: PatternListSchema,
+    reflection: PatternListSchema
+  }).strict(),
+  mitigation: z.record(z.string(), PatternListSchema).describe('Cues that counter a bias, by bias type'),
+  tokens: z.object({
+    stopwords: z.array(z.string().min(1)).describe('Words left out of similarity'),
+    particles: z.array(z.string().min(1)).describe('Suffixes stripped from words before comparing, e.g. Korean josa')
+  }).strict(),
+  rewriting: z.object({
+    contractions: z.record(z.string().min(1), z.string()).describe('Literal contraction -> expansion'),
+    ambiguousTerms: z.record(PatternSchema, z.string()).describe('Pattern -> clarified term')
+  }).strict()
+}).strict();
+
+// Overrides replace whole lists and tables; language and version are required
+export const LexiconOverrideSchema = LexiconSchema.deepPartial().extend({
+  language: LexiconLanguageSchema,
+  version: LexiconSchema.shape.version
+});
+
 // Export type inferences
 export type BaseThoughtInput = z.infer<typeof BaseThoughtSchema>;
 export type UltraThinkInput = z.infer<typeof UltraThinkInputSchema>;
-export type UltraThinkResponse = z.infer<typeof UltraThinkResponseSchema>;
\ No newline at end of file
+export type UltraThinkResponse = z.infer<typeof UltraThinkResponseSchema>;
+export type LexiconLanguage = z.infer<typeof LexiconLanguageSchema>;
+export type Lexicon = z.infer<typeof LexiconSchema>;
+export type LexiconOverride = z.infer<typeof LexiconOverrideSchema>;
@@ -0,0 +1,12 @@
+/**
+ * Content hashing for cache keys
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * SHA-1 of a text, so texts that share a prefix still get different keys
+ */
+export function contentHash(text: string): string {
+  return createHash('sha1').update(text).digest('base64');
+}
@@ -0,0 +1,165 @@
+/**
+ * MinHash signatures and locality-sensitive hashing
+ *
+ * @module minhash
+ * @description Finds the entries whose shingle sets are likely similar to a
+ * query without comparing against every entry:
+ * - Each entry gets a MinHash signature; equal slots estimate Jaccard similarity
+ * - Signatures are cut into bands, and entries sharing any band become candidates
+ * - With 32 bands of 2 rows, pairs above ~0.2 Jaccard are almost always candidates
+ */
+
+export interface MinHashOptions {
+  bands?: number;
+  rows?: number;
+}
+
+export interface MinHashCandidate {
+  key: string;
+  estimate: number;
+}
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Index of MinHash signatures, banded for LSH lookup
+ */
+export class MinHashIndex {
+  private readonly bands: number;
+  private readonly rows: number;
+  private readonly seeds: number[];
+  private signatures: Map<string, Uint32Array> = new Map();
+  private buckets: Map<string, Set<string>> = new Map();
+
+  constructor(options: MinHashOptions = {}) {
+    this.bands = options.bands ?? 32;
+    this.rows = options.rows ?? 2;
+
+    // Fixed seeds, so signatures are comparable across runs
+    let state = 0x9e3779b9;
+    this.seeds = Array.from({ length: this.bands * this.rows }, () => {
+      state = Math.imul(state ^ (state >>> 15), 0x2c1b3c6d) >>> 0;
+      return state;
+    });
+  }
+
+  get size(): number {
+    return this.signatures.size;
+  }
+
+  has(key: string): boolean {
+    return this.signatures.has(key);
+  }
+
+  /**
+   * Index an entry; an entry without shingles is never a candidate
+   * @param {string} key - Entry key, replaced if already indexed
+   * @param {Iterable<string>} shingles - Features of the entry
+   */
+  add(key: string, shingles: Iterable<string>): void {
+    this.remove(key);
+
+    const signature = this.sign(shingles);
+    if (!signature) return;
+
+    this.signatures.set(key, signature);
+    for (const bucket of this.bucketsOf(signature)) {
+      let keys = this.buckets.get(bucket);
+      if (!keys) {
+        keys = new Set();
+        this.buckets.set(bucket, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  remove(key: string): void {
+    const signature = this.signatures.get(key);
+    if (!signature) return;
+
+    for (const bucket of this.bucketsOf(signature)) {
+      const keys = this.buckets.get(bucket)!;
+      keys.delete(key);
+      if (keys.size === 0) {
+        this.buckets.delete(bucket);
+      }
+    }
+    this.signatures.delete(key);
+  }
+
+  /**
+   * Entries sharing a band with the shingles, with their estimated Jaccard similarity
+   * @returns {MinHashCandidate[]} Candidates, most similar first
+   */
+  query(shingles: Iterable<string>): MinHashCandidate[] {
+    const signature = this.sign(shingles);
+    if (!signature) return [];
+
+    const keys = new Set<string>();
+    for (const bucket of this.bucketsOf(signature)) {
+      this.buckets.get(bucket)?.forEach(key => keys.add(key));
+    }
+
+    return Array.from(keys)
+      .map(key => ({ key, estimate: estimate(signature, this.signatures.get(key)!) }))
+      .sort((a, b) => b.estimate - a.estimate);
+  }
+
+  clear(): void {
+    this.signatures.clear();
+    this.buckets.clear();
+  }
+
+  private sign(shingles: Iterable<string>): Uint32Array | null {
+    const signature = new Uint32Array(this.seeds.length).fill(0xffffffff);
+    let empty = true;
+
+    for (const shingle of shingles) {
+      empty = false;
+      const base = fnv1a(shingle);
+      for (let i = 0; i < this.seeds.length; i++) {
+        const value = mix(base ^ this.seeds[i]);
+        if (value < signature[i]) {
+          signature[i] = value;
+        }
+      }
+    }
+
+    return empty ? null : signature;
+  }
+
+  private bucketsOf(signature: Uint32Array): string[] {
+    return Array.from({ length: this.bands }, (_, band) =>
+      `${band}:${signature.subarray(band * this.rows, (band + 1) * this.rows).join(',')}`
+    );
+  }
+}
+
+function estimate(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export function fnv1a(text: string): number {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Murmur3 finalizer, spreading the seeded hash over all 32 bits
+ */
+function mix(value: number): number {
+  value = Math.imul(value ^ (value >>> 16), 0x85ebca6b);
+  value = Math.imul(value ^ (value >>> 13), 0xc2b2ae35);
+  return (value ^ (value >>> 16)) >>> 0;
+}
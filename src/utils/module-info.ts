@@ -12,7 +12,11 @@ export const MODULE_INFO = {
   
   // Public exports - what can be accessed from outside this module
   publicExports: [
+    'content-hash',
     'logger',
+    'minhash',
+    'text-diff',
+    'text-signals',
     'type-coercion'
   ],
   
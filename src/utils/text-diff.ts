@@ -0,0 +1,114 @@
+/**
+ * Word-level text diff
+ * Compares two texts word by word using the longest common subsequence
+ */
+
+import type { TextDiff, DiffSegment } from '../types/interfaces.js';
+
+/**
+ * Above this many cells in the LCS table the differing middle is reported
+ * as one removal and one addition instead of being aligned word by word
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute a word-level diff between two texts
+ * Whitespace is normalized; adjacent words of the same kind are merged into one segment
+ */
+export function diffWords(before: string, after: string): TextDiff {
+  const a = splitWords(before);
+  const b = splitWords(after);
+
+  // Common prefix and suffix need no alignment
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  push(segments, 'equal', a.slice(0, start));
+  alignMiddle(segments, a.slice(start, endA), b.slice(start, endB));
+  push(segments, 'equal', a.slice(endA));
+
+  const count = (type: DiffSegment['type']) => segments
+    .filter(segment => segment.type === type)
+    .reduce((sum, segment) => sum + splitWords(segment.text).length, 0);
+
+  return {
+    added: count('added'),
+    removed: count('removed'),
+    unchanged: count('equal'),
+    segments
+  };
+}
+
+/**
+ * Render a diff as text, marking removals `[-...-]` and additions `{+...+}`
+ */
+export function formatDiff(diff: TextDiff): string {
+  return diff.segments.map(segment => {
+    switch (segment.type) {
+      case 'added':
+        return `{+${segment.text}+}`;
+      case 'removed':
+        return `[-${segment.text}-]`;
+      default:
+        return segment.text;
+    }
+  }).join(' ');
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function alignMiddle(segments: DiffSegment[], a: string[], b: string[]): void {
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    push(segments, 'removed', a);
+    push(segments, 'added', b);
+    return;
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j] ?
+        lengths[(i + 1) * width + j + 1] + 1 :
+        Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, 'equal', [a[i++]]);
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push(segments, 'removed', [a[i++]]);
+    } else {
+      push(segments, 'added', [b[j++]]);
+    }
+  }
+  push(segments, 'removed', a.slice(i));
+  push(segments, 'added', b.slice(j));
+}
+
+function push(segments: DiffSegment[], type: DiffSegment['type'], words: string[]): void {
+  if (words.length === 0) return;
+
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += ' ' + words.join(' ');
+  } else {
+    segments.push({ type, text: words.join(' ') });
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Content signals of a thought's text
+ *
+ * @module text-signals
+ * @description Counts markers that say something about the quality of a
+ * thought, in English and Korean:
+ * - Evidence ("because", "data shows", "근거") against overclaiming ("always", "무조건")
+ * - Hedging ("likely", "아마") that leaves room for other outcomes
+ * - Specificity: numbers, named entities and code identifiers
+ * - Actionable verbs per sentence
+ * - Structure: list items and step markers
+ * - Considerations (alternatives, risks) and links to earlier reasoning
+ *
+ * It also tells the language of a text by script (English, Korean, Japanese).
+ *
+ * Hangul is not a regex word character, so Korean markers match without `\b`.
+ */
+
+import type { TextSignals } from '../types/interfaces.js';
+
+const EVIDENCE_MARKERS = [
+  /\b(?:because|since|evidence|data (?:shows?|suggests?)|measured|benchmarks?|according to|observed|logs? show|results? show)\b/gi,
+  /근거|때문에|데이터(?:에 따르면|상)|측정(?:값|결과)|실험|통계|결과(?:에 따르면|상)|로그(?:상|에서)/g
+];
+
+const HEDGE_MARKERS = [
+  /\b(?:likely|probably|possibly|may|might|perhaps|seems?|appears? to|suggests?|on the other hand|although)\b/gi,
+  /아마|것 같|가능성|추정|보인다|보입니다|수도 있|반면/g
+];
+
+const OVERCLAIM_MARKERS = [
+  /\b(?:always|never|obviously|clearly|definitely|certainly|undoubtedly|everyone|nobody|guaranteed|without (?:a )?doubt)\b/gi,
+  /항상|절대|무조건|당연히|확실히|분명히|반드시|틀림없이/g
+];
+
+const ACTION_MARKERS = [
+  /\b(?:implement|use|add|remove|replace|configure|deploy|run|measure|migrate|refactor|install|create|test|schedule|roll out|enable|disable|split|merge|retry)\b/gi,
+  /구현|적용|추가|제거|배포|실행|설정|측정하|도입|변경|수정|분리|교체/g
+];
+
+const NEXT_STEP_MARKERS = [
+  /\b(?:next step|action items?|we should|recommend(?:ed)?|to do)\b/gi,
+  /다음 단계|권장|해야 한다|해야 합니다/g
+];
+
+const STEP_MARKERS = [
+  /\b(?:first(?:ly)?|second(?:ly)?|third(?:ly)?|then|finally|step \d+)\b/gi,
+  /첫째|둘째|셋째|먼저|다음으로|마지막으로|\d+단계/g
+];
+
+const CONSIDERATION_MARKERS = [
+  /\b(?:alternatives?|trade-?offs?|risks?|edge cases?|constraints?|limitations?|assumptions?|requirements?|costs?|scope)\b/gi,
+  /대안|위험|제약|가정|비용|요구사항|한계|예외/g
+];
+
+const LINK_MARKERS = [
+  /\b(?:thought|step)\s*#?\d+|\bas (?:noted|mentioned|shown|discussed)\b|\bbuilding on\b|\b(?:therefore|thus|hence|consequently)\b/gi,
+  /따라서|그러므로|앞서|이전 (?:사고|단계)/g
+];
+
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+/gm;
+const NUMBER = /(?<![\w.])\d+(?:[.,]\d+)?(?:\s*(?:%|ms|s|kb|mb|gb|x))?(?![\w.])|\d+\s*(?:초|분|시간|일|명|건|개)/g;
+const CODE_IDENTIFIER = /`[^`]+`|\b\w+\(\)|\b[\w-]+\.(?:ts|js|json|py|md|ya?ml|sql|go|rs)\b|\b[a-z]+(?:[A-Z][a-z0-9]*)+\b|\b[a-z]+(?:_[a-z0-9]+)+\b/g;
+const NAMED_ENTITY = /(?<![.!?]\s|^)\b(?:[A-Z][a-z0-9]+(?:[A-Z][A-Za-z0-9]*)*|[A-Z]{2,}[a-z]*)\b/gm;
+const HANGUL = /[가-힣]/g;
+const KANA = /[\u3040-\u30ff]/g;
+const KANJI = /[\u4e00-\u9fff]/g;
+const LATIN = /[A-Za-z]/g;
+
+export type ScriptLanguage = 'en' | 'ko' | 'ja';
+
+/**
+ * Analyze the content signals of a text
+ * @param {string} text - Thought text
+ * @returns {TextSignals} Marker counts and densities
+ */
+export function analyzeTextSignals(text: string): TextSignals {
+  const listItems = (text.match(LIST_ITEM) || []).length;
+  const body = text.replace(LIST_ITEM, '');
+  const sentences = Math.max(1, text.split(/[.!?。\n]+/).filter(sentence => sentence.trim().length > 0).length);
+  const actions = countMarkers(body, ACTION_MARKERS);
+
+  return {
+    language: detectLanguage(text),
+    wordCount: text.trim().split(/\s+/).filter(Boolean).length,
+    sentences,
+    evidence: countMarkers(body, EVIDENCE_MARKERS),
+    hedging: countMarkers(body, HEDGE_MARKERS),
+    overclaiming: countMarkers(body, OVERCLAIM_MARKERS),
+    specificity: distinct(body.match(NUMBER)) + distinct(body.match(NAMED_ENTITY)) +
+      distinct(body.match(CODE_IDENTIFIER)),
+    actionDensity: Math.round(Math.min(1, actions / sentences) * 100) / 100,
+    nextSteps: countMarkers(body, NEXT_STEP_MARKERS),
+    structure: listItems + countMarkers(body, STEP_MARKERS),
+    considerations: countMarkers(body, CONSIDERATION_MARKERS),
+    links: countMarkers(body, LINK_MARKERS)
+  };
+}
+
+/**
+ * Dominant language of a text by script; one script needs twice the letters
+ * of all others, else the text is mixed
+ */
+export function detectLanguage(text: string): TextSignals['language'] {
+  const counts = countScripts(text);
+  const total = counts.en + counts.ko + counts.ja;
+  if (total === 0) return 'en';
+
+  const [language, count] = (Object.entries(counts) as Array<[ScriptLanguage, number]>)
+    .sort((a, b) => b[1] - a[1])[0];
+  return count >= (total - count) * 2 ? language : 'mixed';
+}
+
+/**
+ * Every language whose script appears in a text, English for text without letters
+ */
+export function detectLanguages(text: string): ScriptLanguage[] {
+  const counts = countScripts(text);
+  const languages = (['en', 'ko', 'ja'] as const).filter(language => counts[language] > 0);
+  return languages.length > 0 ? languages : ['en'];
+}
+
+/**
+ * Letters per script; kanji count as Japanese unless the text has Hangul
+ */
+function countScripts(text: string): Record<ScriptLanguage, number> {
+  const hangul = (text.match(HANGUL) || []).length;
+  const kana = (text.match(KANA) || []).length;
+  const kanji = hangul > 0 && kana === 0 ? 0 : (text.match(KANJI) || []).length;
+
+  return {
+    en: (text.match(LATIN) || []).length,
+    ko: hangul,
+    ja: kana + kanji
+  };
+}
+
+/**
+ * Number of distinct marker phrases across patterns
+ */
+function countMarkers(text: string, patterns: RegExp[]): number {
+  return patterns.reduce((count, pattern) => count + distinct(text.match(pattern)), 0);
+}
+
+function distinct(matches: RegExpMatchArray | null): number {
+  return new Set((matches || []).map(match => match.toLowerCase())).size;
+}
@@ -22,7 +22,8 @@ export function coerceArguments(args: CoercionInput): Record<string, unknown> {
     'nextThoughtNeeded',
     'isRevision',
     'needsMoreThoughts',
-    'metaCheckpoint'
+    'metaCheckpoint',
+    'includePersisted'
   ];
   
   booleanFields.forEach(field => {
@@ -38,7 +39,10 @@ export function coerceArguments(args: CoercionInput): Record<string, unknown> {
     'revisesThought',
     'branchFromThought',
     'depthLevel',
-    'maxDepth'
+    'maxDepth',
+    'fromThought',
+    'toThought',
+    'limit'
   ];
 
   numberFields.forEach(field => {